@@ -1,4 +1,5 @@
 import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -16,7 +17,19 @@ import SoldOut from "@/pages/sold-out";
 import TopParts from "@/pages/top-parts";
 import BulkImport from "@/pages/bulk-import";
 import DbConnections from "@/pages/db-connections";
+import Normalization from "@/pages/normalization";
+import Users from "@/pages/users";
+import Warehouses from "@/pages/warehouses";
+import Boxes from "@/pages/boxes";
+import Reservations from "@/pages/reservations";
+import Customers from "@/pages/customers";
+import CustomerDetails from "@/pages/customer-details";
+import PurchaseOrders from "@/pages/purchase-orders";
+import Login from "@/pages/login";
+import Setup from "@/pages/setup";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
+import type { SetupStatus } from "@shared/schema";
 
 function Router() {
   return (
@@ -29,14 +42,57 @@ function Router() {
       <Route path="/history" component={MovementHistory} />
       <Route path="/sold-out" component={SoldOut} />
       <Route path="/sold" component={SoldItems} />
+      <Route path="/customers/:id" component={CustomerDetails} />
+      <Route path="/customers" component={Customers} />
+      <Route path="/purchase-orders" component={PurchaseOrders} />
       <Route path="/top-parts" component={TopParts} />
       <Route path="/import" component={BulkImport} />
+      <Route path="/reservations" component={Reservations} />
+      <Route path="/boxes" component={Boxes} />
+      <Route path="/warehouses" component={Warehouses} />
+      <Route path="/users" component={Users} />
       <Route path="/db-connections" component={DbConnections} />
+      <Route path="/normalization" component={Normalization} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function AppShell() {
+  const { user, isLoading } = useAuth();
+
+  // Only asked when logged out: a fresh install has no account to log in with
+  const { data: setupStatus, isLoading: isSetupLoading } = useQuery<SetupStatus>({
+    queryKey: ["/api/setup-status"],
+    enabled: !isLoading && !user,
+  });
+
+  if (isLoading || (!user && isSetupLoading)) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user && (setupStatus?.needsConnection || setupStatus?.needsAdmin)) {
+    return <Setup status={setupStatus} />;
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <main className="flex-1 overflow-y-auto">
+        <Router />
+      </main>
+    </div>
+  );
+}
+
 function App() {
   useEffect(() => {
     document.documentElement.classList.remove('dark');
@@ -45,12 +101,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <div className="flex h-screen overflow-hidden">
-          <Sidebar />
-          <main className="flex-1 overflow-y-auto">
-            <Router />
-          </main>
-        </div>
+        <AppShell />
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Barcode } from "@shared/schema";
+
+interface BarcodeAliasesProps {
+  smart: string;
+  canEdit: boolean;
+}
+
+// Supplier barcodes that resolve to this SMART code when scanned
+export function BarcodeAliases({ smart, canEdit }: BarcodeAliasesProps) {
+  const { toast } = useToast();
+  const [barcode, setBarcode] = useState("");
+
+  const { data: barcodes = [] } = useQuery<Barcode[]>({
+    queryKey: ["/api/barcodes", { smart }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/barcodes?smart=${encodeURIComponent(smart)}`);
+      return res.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/barcodes"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/barcodes", { barcode: value, smart });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setBarcode("");
+      toast({ description: "Штрихкод привязан" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", description: error.message || "Ошибка привязки штрихкода" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("DELETE", `/api/barcodes/${encodeURIComponent(value)}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ description: "Штрихкод удалён" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", description: error.message || "Ошибка удаления штрихкода" });
+    },
+  });
+
+  if (!canEdit && barcodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-card border-border mb-6">
+      <CardHeader>
+        <CardTitle>Штрихкоды</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {barcodes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Штрихкоды поставщиков не привязаны</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {barcodes.map((item) => (
+              <Badge key={item.barcode} variant="secondary" className="font-mono gap-2" data-testid={`barcode-${item.barcode}`}>
+                {item.barcode}
+                {canEdit && (
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteMutation.mutate(item.barcode)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-barcode-${item.barcode}`}
+                  >
+                    <i className="fas fa-xmark"></i>
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <form
+            className="flex gap-2 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (barcode.trim()) createMutation.mutate(barcode.trim());
+            }}
+          >
+            <Input
+              className="font-mono"
+              placeholder="EAN или другой штрихкод"
+              value={barcode}
+              onChange={(e) => setBarcode(e.target.value)}
+              data-testid="input-new-barcode"
+            />
+            <Button type="submit" variant="outline" disabled={createMutation.isPending || !barcode.trim()} data-testid="button-add-barcode">
+              <i className="fas fa-plus mr-2"></i>
+              Привязать
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import type { ArticleSearchResult } from "@shared/schema";
+import { MatchedArticles, matchTypeLabels, isSuggestionList } from "@/components/matched-articles";
 
 interface DisambiguationModalProps {
   isOpen: boolean;
@@ -19,14 +20,16 @@ export function DisambiguationModal({
 }: DisambiguationModalProps) {
   // Safety check: ensure matches is a valid array
   const validMatches = Array.isArray(matches) ? matches : [];
+  const suggestions = isSuggestionList(validMatches);
   
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[80vh]">
         <DialogHeader>
-          <DialogTitle>Выберите SMART код</DialogTitle>
+          <DialogTitle>{suggestions ? "Возможно, вы имели в виду" : "Выберите SMART код"}</DialogTitle>
           <DialogDescription>
-            Найдено несколько совпадений для артикула: <span className="font-mono font-semibold">{searchQuery}</span>
+            {suggestions ? "Совпадений не найдено, похожие артикулы для: " : "Найдено несколько совпадений для артикула: "}
+            <span className="font-mono font-semibold">{searchQuery}</span>
           </DialogDescription>
         </DialogHeader>
         
@@ -49,7 +52,7 @@ export function DisambiguationModal({
               {match.articles && (
                 <div className="text-xs text-muted-foreground mb-1">
                   <span className="font-semibold">Артикулы: </span>
-                  <span className="font-mono">{Array.isArray(match.articles) ? match.articles.join(', ') : match.articles}</span>
+                  <MatchedArticles result={match} />
                 </div>
               )}
               {match.description && (
@@ -63,6 +66,9 @@ export function DisambiguationModal({
                   <span className="font-semibold">Остаток:</span>
                   <span className="font-mono ml-1">{match.currentStock}</span>
                 </div>
+                {match.matchType && (
+                  <div data-testid={`match-type-${match.smart}`}>{matchTypeLabels[match.matchType]}</div>
+                )}
               </div>
             </button>
           ))}
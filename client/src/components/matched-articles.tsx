@@ -0,0 +1,45 @@
+import type { ArticleSearchResult, SearchMatchType } from "@shared/schema";
+
+export const matchTypeLabels: Record<SearchMatchType, string> = {
+  barcode: "Штрихкод",
+  exact_article: "Точное совпадение артикула",
+  exact_smart: "Совпадение SMART кода",
+  prefix: "Совпадение начала",
+  substring: "Частичное совпадение",
+  suggestion: "Похожий артикул",
+};
+
+// Search found nothing and returned near misses ("did you mean") instead
+export function isSuggestionList(results: ArticleSearchResult[]): boolean {
+  return results.length > 0 && results.every(result => result.matchType === "suggestion");
+}
+
+interface MatchedArticlesProps {
+  result: ArticleSearchResult;
+  className?: string;
+}
+
+// Article variants of a search result with the one that matched the query highlighted
+export function MatchedArticles({ result, className }: MatchedArticlesProps) {
+  const articles = Array.isArray(result.articles) ? result.articles : [];
+
+  return (
+    <span className={`font-mono ${className || ""}`}>
+      {articles.map((article, index) => (
+        <span key={`${article}-${index}`}>
+          {index > 0 && ", "}
+          {article === result.matchedArticle ? (
+            <mark
+              className="bg-primary/15 text-foreground font-semibold rounded px-0.5"
+              data-testid={`matched-article-${result.smart}`}
+            >
+              {article}
+            </mark>
+          ) : (
+            article
+          )}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { MovementAudit } from "@shared/schema";
+import { format } from "date-fns";
+
+const fieldTitles: Record<string, string> = {
+  purchasePrice: 'Цена закупа',
+  note: 'Комментарий',
+  qtyDelta: 'Количество',
+  boxNumber: 'Номер коробки',
+  saleStatus: 'Статус продажи',
+};
+
+const saleStatusTitles: Record<string, string> = {
+  awaiting_shipment: 'Ожидает отправки',
+  shipped: 'Отправлено',
+};
+
+function formatValue(field: string, value: string | null) {
+  if (value === null || value === '') return '—';
+  if (field === 'saleStatus') return saleStatusTitles[value] || value;
+  return value;
+}
+
+interface MovementAuditDialogProps {
+  movementId: number | null;
+  onClose: () => void;
+}
+
+export function MovementAuditDialog({ movementId, onClose }: MovementAuditDialogProps) {
+  const { data: entries = [], isLoading } = useQuery<MovementAudit[]>({
+    queryKey: [`/api/movements/${movementId}/audit`],
+    enabled: movementId !== null,
+  });
+
+  return (
+    <Dialog open={movementId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>История изменений</DialogTitle>
+          <DialogDescription>
+            Движение <span className="font-mono font-semibold">#{movementId}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto max-h-[50vh] pr-2">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>Изменений не было</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="h-10 px-3 text-left font-medium text-muted-foreground">Дата</th>
+                  <th className="h-10 px-3 text-left font-medium text-muted-foreground">Поле</th>
+                  <th className="h-10 px-3 text-left font-medium text-muted-foreground">Было</th>
+                  <th className="h-10 px-3 text-left font-medium text-muted-foreground">Стало</th>
+                  <th className="h-10 px-3 text-left font-medium text-muted-foreground">Изменил</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b last:border-0" data-testid={`row-audit-${entry.id}`}>
+                    <td className="p-3 font-mono whitespace-nowrap">
+                      {format(new Date(entry.changedAt), "dd.MM.yyyy HH:mm")}
+                    </td>
+                    <td className="p-3">{fieldTitles[entry.field] || entry.field}</td>
+                    <td className="p-3 text-muted-foreground line-through break-all">
+                      {formatValue(entry.field, entry.oldValue)}
+                    </td>
+                    <td className="p-3 font-medium break-all">
+                      {formatValue(entry.field, entry.newValue)}
+                    </td>
+                    <td className="p-3 whitespace-nowrap">{entry.changedBy || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,516 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { parseLineError } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canRecordReason } from "@shared/permissions";
+import { movementDocumentSchema } from "@shared/schema";
+import type { ArticleSearchResult, BoxSummary, Customer, MovementDocument, ShippingMethod, Supplier, Warehouse } from "@shared/schema";
+import { DisambiguationModal } from "@/components/disambiguation-modal";
+import { isSuggestionList } from "@/components/matched-articles";
+
+type DocumentReason = MovementDocument["reason"];
+
+const documentReasonLabels: Record<DocumentReason, string> = {
+  purchase: "Покупка",
+  sale: "Продажа",
+  writeoff: "Списание",
+};
+
+type DocumentRow = {
+  key: number;
+  article: string;
+  smart: string;
+  name?: string;
+  qty: string;
+  price: string;
+  boxNumber: string | null;
+};
+
+let nextRowKey = 1;
+
+function emptyRow(): DocumentRow {
+  return { key: nextRowKey++, article: "", smart: "", qty: "1", price: "", boxNumber: null };
+}
+
+// Document mode of the add-movement page: many lines with one reason and shared
+// header fields, recorded together or not at all
+export function MovementDocumentEditor() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const searched = useRef(new Map<number, string>());
+
+  const [reason, setReason] = useState<DocumentReason>("purchase");
+  const [warehouseId, setWarehouseId] = useState<number | null>(null);
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [customerId, setCustomerId] = useState<number | null>(null);
+  const [shippingMethodId, setShippingMethodId] = useState<number | null>(null);
+  const [trackNumber, setTrackNumber] = useState("");
+  const [note, setNote] = useState("");
+  const [rows, setRows] = useState<DocumentRow[]>(() => [emptyRow()]);
+  const [pending, setPending] = useState<{ key: number; article: string; results: ArticleSearchResult[] } | null>(null);
+  const [failedRow, setFailedRow] = useState<{ key: number; error: string } | null>(null);
+  // Lookups in flight per row; a row can have an older lookup still running after a newer one started
+  const [resolvingKeys, setResolvingKeys] = useState<Map<number, number>>(() => new Map());
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: boxes = [] } = useQuery<BoxSummary[]>({
+    queryKey: ["/api/boxes"],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: shippingMethods = [] } = useQuery<ShippingMethod[]>({
+    queryKey: ["/api/shipping-methods"],
+  });
+
+  const availableReasons = (Object.keys(documentReasonLabels) as DocumentReason[]).filter(r => canRecordReason(user?.role, r));
+
+  useEffect(() => {
+    if (!availableReasons.includes(reason) && availableReasons.length > 0) {
+      setReason(availableReasons[0]);
+    }
+  }, [user?.role]);
+
+  const updateRow = (key: number, changes: Partial<DocumentRow>) => {
+    setRows(current => current.map(row => row.key === key ? { ...row, ...changes } : row));
+    if (failedRow?.key === key) setFailedRow(null);
+  };
+
+  const removeRow = (key: number) => {
+    setRows(current => current.length > 1 ? current.filter(row => row.key !== key) : [emptyRow()]);
+    searched.current.delete(key);
+    if (failedRow?.key === key) setFailedRow(null);
+  };
+
+  // A lookup can finish after the article was edited again; its result is dropped then
+  const applyLookup = (key: number, article: string, changes: Partial<DocumentRow>) => {
+    setRows(current => current.map(row => row.key === key && row.article.trim() === article ? { ...row, ...changes } : row));
+  };
+
+  const selectMatch = (key: number, article: string, result: ArticleSearchResult) => {
+    applyLookup(key, article, { smart: result.smart, name: result.name });
+  };
+
+  const editArticle = (key: number, article: string) => {
+    searched.current.delete(key);
+    updateRow(key, { article, smart: "", name: undefined });
+  };
+
+  // Resolve the typed article to a SMART code when the cell is left
+  const resolveRow = async (row: DocumentRow) => {
+    const article = row.article.trim();
+    if (!article || searched.current.get(row.key) === article) return;
+    searched.current.set(row.key, article);
+    setResolvingKeys(current => new Map(current).set(row.key, (current.get(row.key) || 0) + 1));
+
+    try {
+      const response = await apiRequest("GET", `/api/articles/search?query=${encodeURIComponent(article)}`);
+      const results: ArticleSearchResult[] = await response.json();
+
+      if (results.length === 0) {
+        applyLookup(row.key, article, { smart: "", name: undefined });
+        toast({
+          title: "Совпадений не найдено",
+          description: `SMART код для артикула ${article} не найден`,
+          variant: "destructive",
+        });
+      } else if (results.length === 1 && !isSuggestionList(results)) {
+        selectMatch(row.key, article, results[0]);
+      } else if (searched.current.get(row.key) === article) {
+        setPending({ key: row.key, article, results });
+      }
+    } catch (error) {
+      // Only a failed lookup of the row's current article is retried on the next blur
+      if (searched.current.get(row.key) === article) {
+        searched.current.delete(row.key);
+      }
+      toast({
+        title: "Ошибка поиска",
+        description: error instanceof Error ? error.message : "Не удалось выполнить поиск",
+        variant: "destructive",
+      });
+    } finally {
+      setResolvingKeys(current => {
+        const next = new Map(current);
+        const count = (next.get(row.key) || 0) - 1;
+        if (count > 0) {
+          next.set(row.key, count);
+        } else {
+          next.delete(row.key);
+        }
+        return next;
+      });
+    }
+  };
+
+  const buildDocument = (): MovementDocument => {
+    const sign = reason === "purchase" ? 1 : -1;
+    const filled = rows.filter(row => row.article.trim() || row.smart);
+    return {
+      reason,
+      note: note.trim() || null,
+      warehouseId,
+      supplierId: reason === "purchase" ? supplierId : null,
+      customerId: reason === "sale" ? customerId : null,
+      shippingMethodId: reason === "sale" ? shippingMethodId : null,
+      trackNumber: reason === "sale" ? trackNumber.trim() || null : null,
+      lines: filled.map(row => ({
+        smart: row.smart,
+        article: row.article.trim(),
+        qtyDelta: sign * (parseInt(row.qty, 10) || 0),
+        purchasePrice: reason === "purchase" ? row.price || null : null,
+        salePrice: reason === "sale" ? row.price || null : null,
+        boxNumber: row.boxNumber,
+      })),
+    };
+  };
+
+  // Highlight the row named in "Строка N: ..."; blank rows are not sent, so N counts filled rows
+  const showLineError = (message: string) => {
+    const lineError = parseLineError(message);
+    const filled = rows.filter(row => row.article.trim() || row.smart);
+    const row = lineError ? filled[lineError.index] : undefined;
+    setFailedRow(row && lineError ? { key: row.key, error: lineError.error } : null);
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (document: MovementDocument) => {
+      const response = await apiRequest("POST", "/api/movements/documents", document);
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+
+      toast({
+        title: "Документ записан",
+        description: `Записано строк: ${result.movements.length}`,
+      });
+
+      setRows([emptyRow()]);
+      setFailedRow(null);
+      setTrackNumber("");
+      setNote("");
+      searched.current.clear();
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Произошла ошибка";
+      showLineError(message);
+      toast({
+        title: "Документ не записан",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    // Rows still being looked up would be sent without their SMART code
+    if (resolvingKeys.size > 0) return;
+
+    const unresolved = rows.find(row => row.article.trim() && !row.smart);
+    if (unresolved) {
+      setFailedRow({ key: unresolved.key, error: "Выберите SMART код для артикула" });
+      toast({ title: "Проверьте документ", description: "Не для всех артикулов выбран SMART код", variant: "destructive" });
+      return;
+    }
+
+    const parsed = movementDocumentSchema.safeParse(buildDocument());
+    if (!parsed.success) {
+      const message = parsed.error.errors[0]?.message || "Некорректный документ";
+      showLineError(message);
+      toast({ title: "Проверьте документ", description: message, variant: "destructive" });
+      return;
+    }
+    submitMutation.mutate(parsed.data);
+  };
+
+  const priceLabel = reason === "purchase" ? "Цена закупки" : reason === "sale" ? "Цена продажи" : null;
+  const filledCount = rows.filter(row => row.article.trim() || row.smart).length;
+  const totalQty = rows.reduce((sum, row) => sum + (parseInt(row.qty, 10) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div>
+            <div className="text-lg font-semibold text-foreground">Документ</div>
+            <p className="text-sm text-muted-foreground mt-1">Несколько позиций с общими реквизитами; записываются все строки или ни одной</p>
+          </div>
+          <i className="fas fa-table-list text-muted-foreground text-xl"></i>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Причина</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as DocumentReason)}>
+              <SelectTrigger data-testid="select-document-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableReasons.map(r => (
+                  <SelectItem key={r} value={r}>{documentReasonLabels[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Склад</Label>
+            <Select
+              value={warehouseId ? String(warehouseId) : "default"}
+              onValueChange={(value) => setWarehouseId(value === "default" ? null : parseInt(value, 10))}
+            >
+              <SelectTrigger data-testid="select-document-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">По умолчанию</SelectItem>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {reason === "purchase" && (
+            <div className="space-y-2">
+              <Label>Поставщик</Label>
+              <Select
+                value={supplierId ? String(supplierId) : "none"}
+                onValueChange={(value) => setSupplierId(value === "none" ? null : parseInt(value, 10))}
+              >
+                <SelectTrigger data-testid="select-document-supplier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Не указан</SelectItem>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {reason === "sale" && (
+            <div className="space-y-2">
+              <Label>Клиент</Label>
+              <Select
+                value={customerId ? String(customerId) : "none"}
+                onValueChange={(value) => setCustomerId(value === "none" ? null : parseInt(value, 10))}
+              >
+                <SelectTrigger data-testid="select-document-customer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Без клиента</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={String(customer.id)}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {reason === "sale" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Способ доставки</Label>
+              <Select
+                value={shippingMethodId ? String(shippingMethodId) : "none"}
+                onValueChange={(value) => setShippingMethodId(value === "none" ? null : parseInt(value, 10))}
+              >
+                <SelectTrigger data-testid="select-document-shipping">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Не указан</SelectItem>
+                  {shippingMethods.map(method => (
+                    <SelectItem key={method.id} value={String(method.id)}>{method.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-track">Трек-номер</Label>
+              <Input
+                id="document-track"
+                value={trackNumber}
+                onChange={(e) => setTrackNumber(e.target.value)}
+                data-testid="input-document-track"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="document-note">Примечание</Label>
+          <Input
+            id="document-note"
+            placeholder="Общее для всех строк"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            data-testid="input-document-note"
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">№</TableHead>
+              <TableHead>Артикул</TableHead>
+              <TableHead>SMART</TableHead>
+              <TableHead className="w-24">Кол-во</TableHead>
+              {priceLabel && <TableHead className="w-28">{priceLabel}</TableHead>}
+              <TableHead className="w-32">Коробка</TableHead>
+              <TableHead className="w-12"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow
+                key={row.key}
+                className={failedRow?.key === row.key ? "bg-destructive/10" : undefined}
+                data-testid={`document-row-${index}`}
+              >
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                <TableCell>
+                  <Input
+                    className="h-8 font-mono"
+                    placeholder="Артикул"
+                    value={row.article}
+                    onChange={(e) => editArticle(row.key, e.target.value)}
+                    onBlur={() => resolveRow(row)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        resolveRow(row);
+                      }
+                    }}
+                    data-testid={`input-document-article-${index}`}
+                  />
+                  {failedRow?.key === row.key && <div className="text-xs text-destructive mt-1">{failedRow.error}</div>}
+                </TableCell>
+                <TableCell>
+                  {row.smart ? (
+                    <>
+                      <div className="font-mono font-semibold">{row.smart}</div>
+                      {row.name && <div className="text-xs text-muted-foreground">{row.name}</div>}
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-8 w-20"
+                    value={row.qty}
+                    onChange={(e) => updateRow(row.key, { qty: e.target.value })}
+                    data-testid={`input-document-qty-${index}`}
+                  />
+                </TableCell>
+                {priceLabel && (
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="h-8 w-24"
+                      value={row.price}
+                      onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                      data-testid={`input-document-price-${index}`}
+                    />
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Select
+                    value={row.boxNumber || "none"}
+                    onValueChange={(value) => updateRow(row.key, { boxNumber: value === "none" ? null : value })}
+                  >
+                    <SelectTrigger className="h-8" data-testid={`select-document-box-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">—</SelectItem>
+                      {boxes.map(box => (
+                        <SelectItem key={box.id} value={box.boxNumber}>{box.boxNumber}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRow(row.key)}
+                    data-testid={`button-remove-document-row-${index}`}
+                  >
+                    <i className="fas fa-trash"></i>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setRows(current => [...current, emptyRow()])}
+            disabled={rows.length >= 500}
+            data-testid="button-add-document-row"
+          >
+            <i className="fas fa-plus mr-2"></i>
+            Добавить строку
+          </Button>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground">
+              Строк: {filledCount}, единиц: {totalQty}
+            </span>
+            <Button
+              onClick={handleSubmit}
+              disabled={filledCount === 0 || submitMutation.isPending || resolvingKeys.size > 0}
+              data-testid="button-submit-document"
+            >
+              <i className="fas fa-check mr-2"></i>
+              {resolvingKeys.size > 0 ? "Поиск артикулов..." : "Записать документ"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <DisambiguationModal
+        isOpen={pending !== null}
+        onClose={() => setPending(null)}
+        onSelect={(result) => {
+          if (pending) selectMatch(pending.key, pending.article, result);
+          setPending(null);
+        }}
+        matches={pending?.results || []}
+        searchQuery={pending?.article || ""}
+      />
+    </Card>
+  );
+}
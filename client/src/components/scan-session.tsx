@@ -0,0 +1,438 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { parseLineError } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canRecordReason } from "@shared/permissions";
+import { scanReasons } from "@shared/schema";
+import type { ArticleSearchResult, BoxSummary, Movement, ScanBatch, Warehouse } from "@shared/schema";
+import { DisambiguationModal } from "@/components/disambiguation-modal";
+import { isSuggestionList } from "@/components/matched-articles";
+
+type ScanReason = keyof typeof scanReasons;
+
+const scanReasonLabels: Record<ScanReason, string> = {
+  purchase: "Покупка",
+  sale: "Продажа",
+  writeoff: "Списание",
+};
+
+type ScanLine = {
+  smart: string;
+  article: string;
+  name?: string;
+  qty: number;
+  code: string;          // last code scanned for this line
+  viaBarcode: boolean;   // code is a registered barcode alias
+  error?: string;        // why the line was not recorded
+};
+
+// Codes scanned by an EAN/UPC reader: only these are offered as barcode aliases
+const BARCODE_PATTERN = /^\d{8,14}$/;
+
+// Scan mode of the add-movement page: a keyboard-wedge scanner types the code and
+// presses Enter; repeated scans of a part add to its quantity
+export function ScanSession() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const resolved = useRef(new Map<string, ArticleSearchResult>());
+  // Codes scanned while an earlier one is still being resolved; the scanner keeps typing
+  const queue = useRef<string[]>([]);
+  const draining = useRef(false);
+  const awaitingChoice = useRef(false);
+
+  const [code, setCode] = useState("");
+  const [reason, setReason] = useState<ScanReason>("purchase");
+  const [warehouseId, setWarehouseId] = useState<number | null>(null);
+  const [boxNumber, setBoxNumber] = useState<string | null>(null);
+  const [lines, setLines] = useState<ScanLine[]>([]);
+  const [pending, setPending] = useState<{ code: string; results: ArticleSearchResult[] } | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: boxes = [] } = useQuery<BoxSummary[]>({
+    queryKey: ["/api/boxes"],
+  });
+
+  const availableReasons = (Object.keys(scanReasons) as ScanReason[]).filter(r => canRecordReason(user?.role, r));
+
+  useEffect(() => {
+    if (!availableReasons.includes(reason) && availableReasons.length > 0) {
+      setReason(availableReasons[0]);
+    }
+  }, [user?.role]);
+
+  const focusScanner = () => setTimeout(() => inputRef.current?.focus(), 0);
+
+  const addLine = (scannedCode: string, result: ArticleSearchResult) => {
+    setLines(current => {
+      const existing = current.find(line => line.smart === result.smart);
+      if (existing) {
+        return current.map(line => line === existing
+          ? { ...line, qty: line.qty + 1, code: scannedCode, error: undefined }
+          : line);
+      }
+      return [{
+        smart: result.smart,
+        article: result.matchedArticle || result.articles[0] || result.smart,
+        name: result.name,
+        qty: 1,
+        code: scannedCode,
+        viaBarcode: result.matchType === "barcode",
+      }, ...current];
+    });
+  };
+
+  // Returns true when the code needs a choice between several matches
+  const handleScan = async (scannedCode: string): Promise<boolean> => {
+    const cached = resolved.current.get(scannedCode);
+    if (cached) {
+      addLine(scannedCode, cached);
+      return false;
+    }
+
+    try {
+      const response = await apiRequest("GET", `/api/articles/search?query=${encodeURIComponent(scannedCode)}`);
+      const results: ArticleSearchResult[] = await response.json();
+
+      if (results.length === 0) {
+        toast({
+          title: "Код не распознан",
+          description: `Нет SMART кода для: ${scannedCode}`,
+          variant: "destructive",
+        });
+      } else if (results.length === 1 && !isSuggestionList(results)) {
+        resolved.current.set(scannedCode, results[0]);
+        addLine(scannedCode, results[0]);
+      } else {
+        setPending({ code: scannedCode, results });
+        return true;
+      }
+    } catch (error) {
+      toast({
+        title: "Ошибка поиска",
+        description: error instanceof Error ? error.message : "Не удалось выполнить поиск",
+        variant: "destructive",
+      });
+    }
+    return false;
+  };
+
+  // Resolve queued codes in scan order; a code with several matches pauses the
+  // queue until one is picked
+  const drainQueue = async () => {
+    if (draining.current || awaitingChoice.current) return;
+    draining.current = true;
+    setIsResolving(true);
+    try {
+      while (queue.current.length > 0) {
+        const next = queue.current.shift()!;
+        setQueuedCount(queue.current.length);
+        if (await handleScan(next)) {
+          awaitingChoice.current = true;
+          break;
+        }
+      }
+    } finally {
+      draining.current = false;
+      setIsResolving(false);
+    }
+  };
+
+  const enqueueScan = (scannedCode: string) => {
+    queue.current.push(scannedCode);
+    setQueuedCount(queue.current.length);
+    drainQueue();
+  };
+
+  const closeChoice = () => {
+    setPending(null);
+    awaitingChoice.current = false;
+    focusScanner();
+    drainQueue();
+  };
+
+  const handleSelectMatch = (result: ArticleSearchResult) => {
+    if (pending) {
+      resolved.current.set(pending.code, result);
+      addLine(pending.code, result);
+    }
+    closeChoice();
+  };
+
+  const setQty = (smart: string, qty: number) => {
+    setLines(current => current.map(line => line.smart === smart ? { ...line, qty } : line));
+  };
+
+  const removeLine = (smart: string) => {
+    setLines(current => current.filter(line => line.smart !== smart));
+  };
+
+  const commitMutation = useMutation({
+    mutationFn: async (batch: ScanBatch) => {
+      const response = await apiRequest("POST", "/api/movements/scan-batch", batch);
+      return await response.json() as { movements: Movement[] };
+    },
+    onSuccess: (_, batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+
+      // Scans made while the commit was in flight stay: only the sent quantities go
+      const sent = new Map(batch.lines.map(line => [line.smart, line.qty]));
+      setLines(current => current
+        .map(line => sent.has(line.smart) ? { ...line, qty: line.qty - sent.get(line.smart)!, error: undefined } : line)
+        .filter(line => line.qty > 0));
+
+      toast({
+        title: "Движения записаны",
+        description: `Записано позиций: ${batch.lines.length}`,
+      });
+      focusScanner();
+    },
+    onError: (error, batch) => {
+      // Nothing was recorded; the rejected line shows why
+      const lineError = parseLineError(error instanceof Error ? error.message : "");
+      const failed = lineError ? batch.lines[lineError.index] : undefined;
+      setLines(current => current.map(line => ({
+        ...line,
+        error: failed && line.smart === failed.smart ? lineError!.error : undefined,
+      })));
+
+      toast({
+        title: "Ошибка записи движений",
+        description: error instanceof Error ? error.message : "Произошла ошибка",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linkBarcodeMutation = useMutation({
+    mutationFn: async (line: ScanLine) => {
+      const response = await apiRequest("POST", "/api/barcodes", { barcode: line.code, smart: line.smart });
+      return response.json();
+    },
+    onSuccess: (_, line) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/barcodes"] });
+      setLines(current => current.map(l => l.smart === line.smart ? { ...l, viaBarcode: true } : l));
+      toast({ description: `Штрихкод ${line.code} привязан к ${line.smart}` });
+      focusScanner();
+    },
+    onError: (error) => {
+      toast({
+        title: "Не удалось привязать штрихкод",
+        description: error instanceof Error ? error.message : "Произошла ошибка",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCommit = () => {
+    commitMutation.mutate({
+      reason,
+      warehouseId,
+      boxNumber,
+      lines: lines.map(line => ({ smart: line.smart, article: line.article, qty: line.qty })),
+    });
+  };
+
+  const totalQty = lines.reduce((sum, line) => sum + line.qty, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div>
+            <div className="text-lg font-semibold text-foreground">Сканирование</div>
+            <p className="text-sm text-muted-foreground mt-1">Сканируйте штрихкоды или артикулы, повторный скан увеличивает количество</p>
+          </div>
+          <i className="fas fa-barcode text-muted-foreground text-xl"></i>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Причина</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ScanReason)}>
+              <SelectTrigger data-testid="select-scan-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableReasons.map(r => (
+                  <SelectItem key={r} value={r}>{scanReasonLabels[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Склад</Label>
+            <Select
+              value={warehouseId ? String(warehouseId) : "default"}
+              onValueChange={(value) => setWarehouseId(value === "default" ? null : parseInt(value, 10))}
+            >
+              <SelectTrigger data-testid="select-scan-warehouse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">По умолчанию</SelectItem>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={String(warehouse.id)}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Коробка</Label>
+            <Select
+              value={boxNumber || "none"}
+              onValueChange={(value) => setBoxNumber(value === "none" ? null : value)}
+            >
+              <SelectTrigger data-testid="select-scan-box">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Без коробки</SelectItem>
+                {boxes.map(box => (
+                  <SelectItem key={box.id} value={box.boxNumber}>{box.boxNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="scan-input">Код</Label>
+          <Input
+            id="scan-input"
+            ref={inputRef}
+            autoFocus
+            autoComplete="off"
+            className="font-mono text-lg"
+            placeholder="Отсканируйте штрихкод..."
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                const scanned = code.trim();
+                setCode("");
+                if (scanned) {
+                  enqueueScan(scanned);
+                }
+              }
+            }}
+            data-testid="input-scan"
+          />
+          {(isResolving || pending) && (
+            <p className="text-xs text-muted-foreground" data-testid="text-scan-queue">
+              {pending ? "Выберите позицию" : "Распознавание..."}
+              {queuedCount > 0 && ` В очереди: ${queuedCount}`}
+            </p>
+          )}
+        </div>
+
+        {lines.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SMART</TableHead>
+                <TableHead>Артикул</TableHead>
+                <TableHead className="w-28">Кол-во</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map(line => (
+                <TableRow key={line.smart} data-testid={`scan-line-${line.smart}`}>
+                  <TableCell>
+                    <div className="font-mono font-semibold">{line.smart}</div>
+                    {line.name && <div className="text-xs text-muted-foreground">{line.name}</div>}
+                    {line.error && <div className="text-xs text-destructive mt-1">{line.error}</div>}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{line.article}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 w-20"
+                      value={line.qty}
+                      onChange={(e) => setQty(line.smart, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      data-testid={`input-scan-qty-${line.smart}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!line.viaBarcode && BARCODE_PATTERN.test(line.code) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={`Привязать штрихкод ${line.code}`}
+                        disabled={linkBarcodeMutation.isPending}
+                        onClick={() => linkBarcodeMutation.mutate(line)}
+                        data-testid={`button-link-barcode-${line.smart}`}
+                      >
+                        <i className="fas fa-link"></i>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeLine(line.smart)}
+                      data-testid={`button-remove-scan-${line.smart}`}
+                    >
+                      <i className="fas fa-trash"></i>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            Позиций: {lines.length}, единиц: {totalQty}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setLines([])}
+              disabled={lines.length === 0 || commitMutation.isPending}
+              data-testid="button-clear-scan"
+            >
+              Очистить
+            </Button>
+            <Button
+              onClick={handleCommit}
+              disabled={lines.length === 0 || commitMutation.isPending}
+              data-testid="button-commit-scan"
+            >
+              <i className="fas fa-check mr-2"></i>
+              Записать
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <DisambiguationModal
+        isOpen={pending !== null}
+        onClose={closeChoice}
+        onSelect={handleSelectMatch}
+        matches={pending?.results || []}
+        searchQuery={pending?.code || ""}
+      />
+    </Card>
+  );
+}
@@ -1,5 +1,8 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole, pageRoles, roleTitles } from "@shared/permissions";
 
 const navigation = [
   { name: 'Главная', href: '/', icon: 'fas fa-chart-line' },
@@ -7,15 +10,26 @@ const navigation = [
   { name: 'Добавить движение', href: '/movement', icon: 'fas fa-plus-circle' },
   { name: 'Остатки', href: '/stock', icon: 'fas fa-warehouse' },
   { name: 'История движений', href: '/history', icon: 'fas fa-clock-rotate-left' },
+  { name: 'Резервы', href: '/reservations', icon: 'fas fa-lock' },
   { name: 'Проданные товары', href: '/sold', icon: 'fas fa-shopping-cart' },
+  { name: 'Клиенты', href: '/customers', icon: 'fas fa-address-book' },
+  { name: 'Заказы поставщикам', href: '/purchase-orders', icon: 'fas fa-truck' },
   { name: 'Распроданные товары', href: '/sold-out', icon: 'fas fa-box-open' },
   { name: 'Топ запчастей', href: '/top-parts', icon: 'fas fa-trophy' },
   { name: 'Массовая загрузка', href: '/import', icon: 'fas fa-file-import' },
+  { name: 'Коробки', href: '/boxes', icon: 'fas fa-box' },
+  { name: 'Склады', href: '/warehouses', icon: 'fas fa-building' },
+  { name: 'Пользователи', href: '/users', icon: 'fas fa-users' },
   { name: 'Подключения БД', href: '/db-connections', icon: 'fas fa-database' },
+  { name: 'Нормализация', href: '/normalization', icon: 'fas fa-spell-check' },
 ];
 
 export function Sidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
+
+  // Hide pages the current role can't use
+  const visibleNavigation = navigation.filter(item => hasRole(user?.role, pageRoles[item.href]));
 
   return (
     <aside className="w-64 bg-card border-r border-border flex flex-col">
@@ -32,7 +46,7 @@ export function Sidebar() {
       </div>
 
       <nav className="flex-1 p-4 space-y-1">
-        {navigation.map((item) => (
+        {visibleNavigation.map((item) => (
           <Link 
             key={item.href} 
             href={item.href}
@@ -49,7 +63,32 @@ export function Sidebar() {
         ))}
       </nav>
 
-      <div className="p-4 border-t border-border">
+      <div className="p-4 border-t border-border space-y-3">
+        {user && (
+          <div className="flex items-center gap-3 px-3">
+            <i className="fas fa-user-circle text-muted-foreground text-lg"></i>
+            <div className="flex-1 min-w-0 text-xs">
+              <div className="text-muted-foreground">Пользователь</div>
+              <div className="font-medium text-foreground truncate" data-testid="text-current-user">
+                {user.displayName || user.username}
+              </div>
+              <div className="text-muted-foreground" data-testid="text-current-role">
+                {roleTitles[user.role]}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Выйти"
+              data-testid="button-logout"
+            >
+              <i className="fas fa-right-from-bracket text-xs"></i>
+            </Button>
+          </div>
+        )}
         <div className="flex items-center gap-3 p-3 rounded-lg bg-muted">
           <div className="flex gap-2">
             <div className="w-2 h-2 rounded-full bg-success animate-pulse"></div>
@@ -0,0 +1,221 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { transferSchema } from "@shared/schema";
+import type { TransferPayload, Warehouse, WarehouseStock } from "@shared/schema";
+
+interface TransferDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  smart: string;
+  articles: string[];
+  warehouses: Warehouse[];
+  stock: WarehouseStock[];
+}
+
+export function TransferDialog({ isOpen, onClose, smart, articles, warehouses, stock }: TransferDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<TransferPayload>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: {
+      smart,
+      article: articles[0] || "",
+      qty: 1,
+      fromWarehouseId: stock[0]?.warehouseId,
+      toWarehouseId: undefined as any,
+      note: "",
+    },
+  });
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({
+        smart,
+        article: articles[0] || "",
+        qty: 1,
+        fromWarehouseId: stock[0]?.warehouseId,
+        toWarehouseId: undefined as any,
+        note: "",
+      });
+    }
+  }, [isOpen]);
+
+  const transferMutation = useMutation({
+    mutationFn: async (data: TransferPayload) => {
+      const response = await apiRequest("POST", "/api/transfers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/stock/${smart}/warehouses`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      toast({
+        title: "Перемещение записано",
+        description: "Товар перемещён между складами",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка перемещения",
+        description: error instanceof Error ? error.message : "Не удалось переместить товар",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fromWarehouseId = form.watch("fromWarehouseId");
+  const available = stock.find(s => s.warehouseId === fromWarehouseId)?.totalQty || 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Перемещение между складами</DialogTitle>
+          <DialogDescription>
+            SMART код <span className="font-mono font-semibold">{smart}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => transferMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="article"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Артикул</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" list="transfer-articles" {...field} data-testid="input-transfer-article" />
+                  </FormControl>
+                  <datalist id="transfer-articles">
+                    {articles.map((article) => (
+                      <option key={article} value={article} />
+                    ))}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fromWarehouseId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Откуда</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value?.toString() || ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-transfer-from">
+                          <SelectValue placeholder="Выберите склад" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {warehouses.map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                            {warehouse.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="toWarehouseId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Куда</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value?.toString() || ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-transfer-to">
+                          <SelectValue placeholder="Выберите склад" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {warehouses.map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                            {warehouse.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="qty"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Количество <span className="text-muted-foreground font-normal">(доступно: {available})</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="font-mono"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      data-testid="input-transfer-qty"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Примечание <span className="text-muted-foreground font-normal">(опционально)</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} data-testid="input-transfer-note" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Отмена
+              </Button>
+              <Button type="submit" disabled={transferMutation.isPending} data-testid="button-submit-transfer">
+                <i className="fas fa-right-left mr-2"></i>
+                Переместить
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
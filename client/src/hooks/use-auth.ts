@@ -0,0 +1,38 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { SafeUser, LoginPayload } from "@shared/schema";
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<SafeUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginPayload) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/user"], loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    logoutMutation,
+  };
+}
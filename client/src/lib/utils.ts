@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Errors of a movement document or scan batch line read "Строка N: ..." (N counts from 1)
+export function parseLineError(message: string): { index: number; error: string } | null {
+  const match = /^Строка (\d+):\s*/.exec(message)
+  if (!match) return null
+  return { index: parseInt(match[1], 10) - 1, error: message.slice(match[0].length) }
+}
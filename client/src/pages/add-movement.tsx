@@ -14,10 +14,15 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { insertMovementSchema } from "@shared/schema";
-import type { InsertMovement, Reason, ArticleSearchResult } from "@shared/schema";
+import { canRecordReason } from "@shared/permissions";
+import type { InsertMovement, Reason, ArticleSearchResult, Warehouse, BoxSummary, Customer, OrderSummary, Supplier } from "@shared/schema";
 import { z } from "zod";
 import { DisambiguationModal } from "@/components/disambiguation-modal";
+import { MatchedArticles, isSuggestionList } from "@/components/matched-articles";
+import { ScanSession } from "@/components/scan-session";
+import { MovementDocumentEditor } from "@/components/movement-document-editor";
 import { Check } from "lucide-react";
 
 const formSchema = insertMovementSchema.extend({
@@ -57,10 +62,12 @@ export default function AddMovement() {
   const [hasPrefilled, setHasPrefilled] = useState(false);
   const [autocompleteOpen, setAutocompleteOpen] = useState(false);
   const [autocompleteResults, setAutocompleteResults] = useState<ArticleSearchResult[]>([]);
+  const [mode, setMode] = useState<"form" | "scan" | "document">("form");
   const debounceTimeout = useRef<NodeJS.Timeout | null>(null);
   const [location] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -73,10 +80,14 @@ export default function AddMovement() {
       purchasePrice: null,
       salePrice: null,
       deliveryPrice: null,
+      warehouseId: null,
       boxNumber: null,
       trackNumber: null,
       shippingMethodId: null,
       saleStatus: null,
+      orderId: null,
+      customerId: null,
+      supplierId: null,
     },
   });
 
@@ -98,10 +109,14 @@ export default function AddMovement() {
         purchasePrice: null,
         salePrice: null,
         deliveryPrice: null,
+        warehouseId: null,
         boxNumber: null,
         trackNumber: null,
         shippingMethodId: null,
         saleStatus: null,
+        orderId: null,
+        customerId: null,
+        supplierId: null,
       });
       setHasPrefilled(true);
       toast({
@@ -159,12 +174,37 @@ export default function AddMovement() {
     queryKey: ["/api/shipping-methods"],
   });
 
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: boxes = [] } = useQuery<BoxSummary[]>({
+    queryKey: ["/api/boxes"],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: orders = [] } = useQuery<OrderSummary[]>({
+    queryKey: ["/api/orders"],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
   // Filter out 'return' reason - returns should only be done via sold items page
-  const availableReasons = (reasons as Reason[] || []).filter(r => r.code !== 'return');
+  // and reasons the current role may not record
+  const availableReasons = (reasons as Reason[] || []).filter(r => r.code !== 'return' && canRecordReason(user?.role, r.code));
 
   // Watch the reason field to show conditional fields
   const selectedReason = form.watch("reason");
 
+  // A sale can be added to one of the customer's existing orders
+  const selectedCustomerId = form.watch("customerId");
+  const customerOrders = orders.filter(order => order.customerId === selectedCustomerId);
+
   // Trigger validation when reason changes to validate quantity direction
   useEffect(() => {
     if (selectedReason) {
@@ -195,6 +235,9 @@ export default function AddMovement() {
           variant: "destructive",
         });
         form.setValue('smart', '');
+      } else if (isSuggestionList(results)) {
+        // Never pick a near miss automatically
+        setShowDisambiguation(true);
       } else if (results.length === 1) {
         form.setValue('smart', results[0].smart);
         toast({
@@ -223,6 +266,8 @@ export default function AddMovement() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       
       toast({
@@ -327,8 +372,38 @@ export default function AddMovement() {
       </header>
 
       <div className="p-8">
-        <div className="max-w-2xl mx-auto">
-          <Card>
+        <div className={`${mode === "document" ? "max-w-5xl" : "max-w-2xl"} mx-auto space-y-4`}>
+          <div className="flex gap-2">
+            <Button
+              variant={mode === "form" ? "default" : "outline"}
+              onClick={() => setMode("form")}
+              data-testid="button-mode-form"
+            >
+              <i className="fas fa-keyboard mr-2"></i>
+              Форма
+            </Button>
+            <Button
+              variant={mode === "scan" ? "default" : "outline"}
+              onClick={() => setMode("scan")}
+              data-testid="button-mode-scan"
+            >
+              <i className="fas fa-barcode mr-2"></i>
+              Сканирование
+            </Button>
+            <Button
+              variant={mode === "document" ? "default" : "outline"}
+              onClick={() => setMode("document")}
+              data-testid="button-mode-document"
+            >
+              <i className="fas fa-table-list mr-2"></i>
+              Документ
+            </Button>
+          </div>
+
+          {/* The form stays mounted so switching modes keeps what was typed */}
+          {mode === "scan" && <ScanSession />}
+          {mode === "document" && <MovementDocumentEditor />}
+          <Card className={mode === "form" ? undefined : "hidden"}>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <div>
@@ -387,7 +462,7 @@ export default function AddMovement() {
                                 <Command>
                                   <CommandList>
                                     <CommandEmpty>Ничего не найдено</CommandEmpty>
-                                    <CommandGroup heading="Найденные позиции">
+                                    <CommandGroup heading={isSuggestionList(autocompleteResults) ? "Возможно, вы имели в виду" : "Найденные позиции"}>
                                       {autocompleteResults.map((result, idx) => (
                                         <CommandItem
                                           key={`${result.smart}-${idx}`}
@@ -408,9 +483,7 @@ export default function AddMovement() {
                                               )}
                                             </div>
                                             {result.articles && (
-                                              <span className="font-mono text-xs text-muted-foreground">
-                                                {Array.isArray(result.articles) ? result.articles.join(', ') : result.articles}
-                                              </span>
+                                              <MatchedArticles result={result} className="text-xs text-muted-foreground" />
                                             )}
                                             {result.name && (
                                               <span className="text-xs text-muted-foreground">
@@ -593,12 +666,50 @@ export default function AddMovement() {
                               <FormControl>
                                 <Input
                                   placeholder="Например: K-123"
+                                  list="registry-boxes"
                                   {...field}
                                   value={field.value || ""}
                                   onChange={(e) => field.onChange(e.target.value || null)}
                                   data-testid="input-box-number"
                                 />
                               </FormControl>
+                              <datalist id="registry-boxes">
+                                {boxes.map((box) => (
+                                  <option key={box.id} value={box.boxNumber}>
+                                    {box.label || ""}
+                                  </option>
+                                ))}
+                              </datalist>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="supplierId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>
+                                Поставщик <span className="text-muted-foreground font-normal">(опционально)</span>
+                              </FormLabel>
+                              <Select
+                                onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                                value={field.value?.toString() || "none"}
+                              >
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-supplier">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="none">Не указан</SelectItem>
+                                  {suppliers.map((supplier) => (
+                                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                                      {supplier.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -717,10 +828,103 @@ export default function AddMovement() {
                             </FormItem>
                           )}
                         />
+                        <FormField
+                          control={form.control}
+                          name="customerId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>
+                                Клиент <span className="text-muted-foreground font-normal">(опционально)</span>
+                              </FormLabel>
+                              <Select
+                                onValueChange={(value) => {
+                                  field.onChange(value === "none" ? null : parseInt(value));
+                                  form.setValue("orderId", null);
+                                }}
+                                value={field.value?.toString() || "none"}
+                              >
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-customer">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="none">Без клиента</SelectItem>
+                                  {customers.map((customer) => (
+                                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                                      {customer.name}{customer.phone ? ` — ${customer.phone}` : ""}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        {selectedCustomerId && (
+                          <FormField
+                            control={form.control}
+                            name="orderId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Заказ</FormLabel>
+                                <Select
+                                  onValueChange={(value) => field.onChange(value === "new" ? null : parseInt(value))}
+                                  value={field.value?.toString() || "new"}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-order">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="new">Новый заказ</SelectItem>
+                                    {customerOrders.map((order) => (
+                                      <SelectItem key={order.id} value={order.id.toString()}>
+                                        Заказ №{order.id} от {new Date(order.createdAt).toLocaleDateString('ru-RU')} ({order.itemCount} поз.)
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
                       </>
                     )}
                   </div>
 
+                  {warehouses.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name="warehouseId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Склад</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            value={field.value?.toString() || warehouses[0].id.toString()}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-warehouse">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {warehouses.map((warehouse) => (
+                                <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                                  {warehouse.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <FormField
                     control={form.control}
                     name="note"
@@ -9,6 +9,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { DisambiguationModal } from "@/components/disambiguation-modal";
 import type { ArticleSearchResult } from "@shared/schema";
+import { MatchedArticles, matchTypeLabels, isSuggestionList } from "@/components/matched-articles";
 
 export default function ArticleSearch() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -36,6 +37,9 @@ export default function ArticleSearch() {
           description: `SMART код для артикула не найден: ${searchQuery}`,
           variant: "destructive",
         });
+      } else if (isSuggestionList(results)) {
+        // Never pick a near miss automatically
+        setShowDisambiguation(true);
       } else if (results.length === 1) {
         setSelectedResult(results[0]);
         toast({
@@ -168,15 +172,18 @@ export default function ArticleSearch() {
                         Найдено совпадение
                       </Badge>
                       <h4 className="font-mono font-semibold text-lg text-foreground">{selectedResult.smart}</h4>
+                      {selectedResult.matchType && (
+                        <p className="text-xs text-muted-foreground mt-1" data-testid="text-match-type">
+                          {matchTypeLabels[selectedResult.matchType]}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="space-y-2 text-sm">
                     {selectedResult.articles && (
                       <div className="flex flex-col gap-1">
                         <span className="text-muted-foreground">Артикулы:</span>
-                        <span className="font-mono font-medium break-words">
-                          {Array.isArray(selectedResult.articles) ? selectedResult.articles.join(', ') : selectedResult.articles}
-                        </span>
+                        <MatchedArticles result={selectedResult} className="font-medium break-words" />
                       </div>
                     )}
                     {selectedResult.brand && (
@@ -0,0 +1,402 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertBoxSchema, boxMoveSchema } from "@shared/schema";
+import type { InsertBox, BoxSummary, BoxContentItem, BoxMovePayload } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/permissions";
+import { cn } from "@/lib/utils";
+
+export default function Boxes() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasRole(user?.role, 'storekeeper');
+  const [selectedBox, setSelectedBox] = useState<string | null>(null);
+
+  const { data: boxes = [], isLoading } = useQuery<BoxSummary[]>({
+    queryKey: ["/api/boxes"],
+  });
+
+  const { data: contents = [], isLoading: isContentsLoading } = useQuery<BoxContentItem[]>({
+    queryKey: [`/api/boxes/${encodeURIComponent(selectedBox || "")}/contents`],
+    enabled: selectedBox !== null,
+  });
+
+  const form = useForm<InsertBox>({
+    resolver: zodResolver(insertBoxSchema),
+    defaultValues: {
+      boxNumber: "",
+      label: "",
+      capacityNote: "",
+    },
+  });
+
+  const moveForm = useForm<BoxMovePayload>({
+    resolver: zodResolver(boxMoveSchema),
+    defaultValues: {
+      smart: "",
+      qty: 1,
+      fromBoxNumber: "",
+      toBoxNumber: "",
+      note: "",
+    },
+  });
+
+  // Moves always start from the box being viewed
+  useEffect(() => {
+    moveForm.reset({
+      smart: "",
+      qty: 1,
+      fromBoxNumber: selectedBox || "",
+      toBoxNumber: "",
+      note: "",
+    });
+  }, [selectedBox]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertBox) => {
+      const res = await apiRequest("POST", "/api/boxes", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      toast({ description: "Коробка добавлена" });
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка добавления коробки",
+      });
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async (data: BoxMovePayload) => {
+      const res = await apiRequest("POST", "/api/boxes/move", data);
+      return await res.json();
+    },
+    onSuccess: (_result, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/boxes/${encodeURIComponent(data.fromBoxNumber)}/contents`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/boxes/${encodeURIComponent(data.toBoxNumber)}/contents`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      toast({ description: "Товар перемещён в коробку " + data.toBoxNumber });
+      moveForm.reset({ ...data, smart: "", qty: 1, toBoxNumber: "", note: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка перемещения",
+      });
+    },
+  });
+
+  const selectedSmart = moveForm.watch("smart");
+  const available = contents.find(item => item.smart === selectedSmart)?.qty || 0;
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Коробки</h1>
+        <p className="text-muted-foreground">
+          Места хранения и их содержимое по движениям
+        </p>
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Новая коробка</CardTitle>
+            <CardDescription>Движения можно записывать только в коробки из реестра</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+                className="flex gap-4 items-end"
+              >
+                <FormField
+                  control={form.control}
+                  name="boxNumber"
+                  render={({ field }) => (
+                    <FormItem className="w-48">
+                      <FormLabel>Номер</FormLabel>
+                      <FormControl>
+                        <Input className="font-mono" placeholder="K-123" {...field} data-testid="input-box-number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="label"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Подпись</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Например: Стеллаж 2, верхняя полка" {...field} value={field.value || ""} data-testid="input-box-label" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="capacityNote"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Вместимость</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Например: до 20 мелких деталей" {...field} value={field.value || ""} data-testid="input-box-capacity" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-box">
+                  <i className="fas fa-plus mr-2"></i>
+                  Добавить
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Все коробки</CardTitle>
+                <CardDescription>Выберите коробку, чтобы увидеть содержимое</CardDescription>
+              </div>
+              {canManage && boxes.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(`/api/labels/boxes?boxes=${boxes.map(box => encodeURIComponent(box.boxNumber)).join(",")}`, "_blank")}
+                  data-testid="button-print-all-box-labels"
+                >
+                  <i className="fas fa-print mr-2"></i>
+                  Этикетки всех
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="h-32 bg-muted rounded animate-pulse"></div>
+            ) : boxes.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Коробок пока нет</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Номер</TableHead>
+                    <TableHead>Подпись</TableHead>
+                    <TableHead>Вместимость</TableHead>
+                    <TableHead className="text-right">Шт</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {boxes.map((box) => (
+                    <TableRow
+                      key={box.id}
+                      className={cn("cursor-pointer", selectedBox === box.boxNumber && "bg-muted")}
+                      onClick={() => setSelectedBox(box.boxNumber)}
+                      data-testid={`row-box-${box.id}`}
+                    >
+                      <TableCell className="font-mono font-semibold">{box.boxNumber}</TableCell>
+                      <TableCell>{box.label || "—"}</TableCell>
+                      <TableCell className="text-muted-foreground">{box.capacityNote || "—"}</TableCell>
+                      <TableCell className="text-right font-mono">{box.totalQty}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {selectedBox ? (
+                  <>Содержимое коробки <span className="font-mono">{selectedBox}</span></>
+                ) : (
+                  "Содержимое коробки"
+                )}
+              </CardTitle>
+              {canManage && selectedBox !== null && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(`/api/labels/boxes?boxes=${encodeURIComponent(selectedBox)}`, "_blank")}
+                  data-testid="button-print-box-label"
+                >
+                  <i className="fas fa-print mr-2"></i>
+                  Этикетка
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {selectedBox === null ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Коробка не выбрана</p>
+              </div>
+            ) : isContentsLoading ? (
+              <div className="h-32 bg-muted rounded animate-pulse"></div>
+            ) : contents.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Коробка пуста</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SMART</TableHead>
+                    <TableHead>Наименование</TableHead>
+                    <TableHead className="text-right">Шт</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contents.map((item) => (
+                    <TableRow key={item.smart} data-testid={`row-box-content-${item.smart}`}>
+                      <TableCell className="font-mono">{item.smart}</TableCell>
+                      <TableCell>{item.name || "—"}</TableCell>
+                      <TableCell className="text-right font-mono">{item.qty}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {canManage && selectedBox !== null && contents.length > 0 && (
+              <Form {...moveForm}>
+                <form
+                  onSubmit={moveForm.handleSubmit((data) => moveMutation.mutate(data))}
+                  className="space-y-4 border-t pt-4"
+                >
+                  <h3 className="font-semibold">Переложить в другую коробку</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={moveForm.control}
+                      name="smart"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>SMART</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-box-move-smart">
+                                <SelectValue placeholder="Выберите товар" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {contents.map((item) => (
+                                <SelectItem key={item.smart} value={item.smart}>
+                                  {item.smart}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={moveForm.control}
+                      name="toBoxNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Куда</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-box-move-to">
+                                <SelectValue placeholder="Выберите коробку" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {boxes
+                                .filter((box) => box.boxNumber !== selectedBox)
+                                .map((box) => (
+                                  <SelectItem key={box.id} value={box.boxNumber}>
+                                    {box.boxNumber}{box.label ? ` — ${box.label}` : ""}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={moveForm.control}
+                      name="qty"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Количество <span className="text-muted-foreground font-normal">(в коробке: {available})</span>
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              className="font-mono"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                              data-testid="input-box-move-qty"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={moveForm.control}
+                      name="note"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Примечание <span className="text-muted-foreground font-normal">(опционально)</span>
+                          </FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} data-testid="input-box-move-note" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={moveMutation.isPending} data-testid="button-submit-box-move">
+                      <i className="fas fa-right-left mr-2"></i>
+                      Переложить
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -348,6 +348,18 @@ export default function BulkImport() {
                             <div className="text-xs mt-1 font-mono">
                               {JSON.stringify(error.data)}
                             </div>
+                            {error.suggestions && error.suggestions.length > 0 && (
+                              <div className="text-xs mt-1" data-testid={`import-suggestions-${error.row}`}>
+                                Возможно, вы имели в виду:{" "}
+                                {error.suggestions.map((suggestion, i) => (
+                                  <span key={suggestion.smart} className="font-mono">
+                                    {i > 0 && ", "}
+                                    {suggestion.smart}
+                                    {suggestion.article && ` (${suggestion.article})`}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </AlertDescription>
                         </Alert>
                       ))}
@@ -363,6 +375,17 @@ export default function BulkImport() {
                     </AlertDescription>
                   </Alert>
                 )}
+
+                {importResult.movementIds.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`/api/labels/parts?movements=${importResult.movementIds.join(",")}&perUnit=1`, "_blank")}
+                    data-testid="button-print-import-labels"
+                  >
+                    <i className="fas fa-print mr-2"></i>
+                    Печать этикеток
+                  </Button>
+                )}
               </CardContent>
             </Card>
           )}
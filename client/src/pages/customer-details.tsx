@@ -0,0 +1,138 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { CustomerDetails as CustomerDetailsData } from "@shared/schema";
+import { format } from "date-fns";
+
+export default function CustomerDetails() {
+  const { id } = useParams();
+
+  const { data: customer, isLoading } = useQuery<CustomerDetailsData>({
+    queryKey: [`/api/customers/${id}`],
+    enabled: !!id,
+  });
+
+  // Group purchase history rows under their order number
+  const salesByOrder = (orderId: number) => customer?.sales.filter(sale => sale.orderId === orderId) || [];
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-background">
+      <header className="bg-card border-b border-border sticky top-0 z-10">
+        <div className="px-8 py-4">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+            <Link href="/customers" className="hover:text-foreground transition-colors">
+              Клиенты
+            </Link>
+            <span>/</span>
+            <span className="text-foreground">{customer?.name || id}</span>
+          </div>
+          <h2 className="text-2xl font-bold text-foreground">Карточка клиента</h2>
+          <p className="text-sm text-muted-foreground mt-1">История покупок и итоги по клиенту</p>
+        </div>
+      </header>
+
+      <div className="p-8 max-w-7xl mx-auto space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32" />
+        ) : !customer ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Клиент не найден</p>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{customer.name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Контакты</p>
+                    <p className="text-sm">{customer.phone || "—"}</p>
+                    <p className="text-sm">{customer.email || "—"}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Заказов</p>
+                    <p className="text-2xl font-semibold text-foreground">{customer.orders.length}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Выручка</p>
+                    <p className="text-2xl font-semibold text-foreground" data-testid="text-lifetime-revenue">
+                      {customer.lifetimeRevenue.toFixed(2)} ₽
+                    </p>
+                  </div>
+                  {customer.lifetimeProfit !== undefined && (
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Прибыль</p>
+                      <p
+                        className={`text-2xl font-semibold ${customer.lifetimeProfit >= 0 ? 'text-success' : 'text-destructive'}`}
+                        data-testid="text-lifetime-profit"
+                      >
+                        {customer.lifetimeProfit.toFixed(2)} ₽
+                      </p>
+                    </div>
+                  )}
+                </div>
+                {customer.note && (
+                  <p className="text-sm text-muted-foreground mt-4">{customer.note}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>История покупок</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {customer.orders.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>Покупок пока нет</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Заказ</TableHead>
+                        <TableHead>Дата</TableHead>
+                        <TableHead>SMART</TableHead>
+                        <TableHead>Артикул</TableHead>
+                        <TableHead className="text-right">Кол-во</TableHead>
+                        <TableHead className="text-right">Цена</TableHead>
+                        <TableHead className="text-right">Сумма заказа</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {customer.orders.flatMap((order) =>
+                        salesByOrder(order.id).map((sale, index) => (
+                          <TableRow key={sale.id} data-testid={`row-customer-sale-${sale.id}`}>
+                            <TableCell className="font-mono">{index === 0 ? `№${order.id}` : ""}</TableCell>
+                            <TableCell className="font-mono whitespace-nowrap">
+                              {format(new Date(sale.createdAt), "dd.MM.yyyy")}
+                            </TableCell>
+                            <TableCell className="font-mono font-semibold">
+                              <Link href={`/stock/${sale.smart}`} className="hover:underline">
+                                {sale.smart}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="font-mono">{sale.article}</TableCell>
+                            <TableCell className="text-right font-mono">{Math.abs(sale.qtyDelta)}</TableCell>
+                            <TableCell className="text-right">{sale.salePrice ? `${sale.salePrice} ₽` : "—"}</TableCell>
+                            <TableCell className="text-right font-semibold">
+                              {index === 0 ? `${order.total.toFixed(2)} ₽` : ""}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -42,6 +42,9 @@ export default function Dashboard() {
       case 'return': return 'outline';
       case 'adjust': return 'secondary';
       case 'writeoff': return 'destructive';
+      case 'correction': return 'outline';
+      case 'transfer': return 'outline';
+      case 'box_move': return 'outline';
       default: return 'secondary';
     }
   };
@@ -5,7 +5,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { 
   insertDbConnectionSchema, 
+  updateDbConnectionSchema,
   type InsertDbConnection, 
+  type UpdateDbConnection,
   type SafeDbConnection, 
   type DbConnectionTest, 
   type DbTablesResult,
@@ -14,6 +16,8 @@ import {
   type SmartFieldMapping,
   type InventoryFieldMapping,
   type ConnectionRole,
+  type SmartMappingPreview,
+  type SmartCacheStatus,
 } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -21,10 +25,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Database, Trash2, TestTube, Table2, Loader2, Settings, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { Database, Pencil, Trash2, TestTube, Table2, Loader2, Settings, CheckCircle, XCircle, AlertCircle, RefreshCw } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
 
 export default function DbConnections() {
   const { toast } = useToast();
@@ -35,6 +41,10 @@ export default function DbConnections() {
   const [selectedTable, setSelectedTable] = useState<string>("");
   const [tableColumns, setTableColumns] = useState<string[]>([]);
   const [fieldMapping, setFieldMapping] = useState<SmartFieldMapping | InventoryFieldMapping | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [previewArticle, setPreviewArticle] = useState("");
+  // Table + mapping that last passed the preview; SMART activation requires it to match the current one
+  const [previewedMapping, setPreviewedMapping] = useState<string | null>(null);
 
   const { data: connections = [], isLoading } = useQuery<SafeDbConnection[]>({
     queryKey: ["/api/db-connections"],
@@ -48,6 +58,12 @@ export default function DbConnections() {
     queryKey: ["/api/db-connections/active/inventory"],
   });
 
+  // Fails while no inventory connection is active; the card is hidden then
+  const { data: smartCache } = useQuery<SmartCacheStatus>({
+    queryKey: ["/api/smart-cache"],
+    retry: false,
+  });
+
   const form = useForm<InsertDbConnection>({
     resolver: zodResolver(insertDbConnectionSchema),
     defaultValues: {
@@ -61,6 +77,19 @@ export default function DbConnections() {
     },
   });
 
+  const editForm = useForm<UpdateDbConnection>({
+    resolver: zodResolver(updateDbConnectionSchema),
+    defaultValues: {
+      name: "",
+      host: "",
+      port: 5432,
+      database: "",
+      username: "",
+      password: "",
+      ssl: null,
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertDbConnection) => {
       const res = await apiRequest("POST", "/api/db-connections", data);
@@ -79,6 +108,27 @@ export default function DbConnections() {
     },
   });
 
+  // Server re-tests the connection and the active mapping before saving
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateDbConnection }) => {
+      const res = await apiRequest("PATCH", `/api/db-connections/${id}`, data);
+      return await res.json() as SafeDbConnection;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/db-connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/db-connections/active/smart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/db-connections/active/inventory"] });
+      toast({ description: "Подключение обновлено" });
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      toast({ 
+        variant: "destructive", 
+        description: error.message || "Ошибка обновления подключения" 
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/db-connections/${id}`);
@@ -150,6 +200,7 @@ export default function DbConnections() {
       queryClient.invalidateQueries({ queryKey: ["/api/db-connections"] });
       queryClient.invalidateQueries({ queryKey: ["/api/db-connections/active/smart"] });
       queryClient.invalidateQueries({ queryKey: ["/api/db-connections/active/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/smart-cache"] });
       toast({ description: "Конфигурация сохранена" });
       handleCloseConfigureDialog();
     },
@@ -161,11 +212,63 @@ export default function DbConnections() {
     },
   });
 
+  const previewMutation = useMutation({
+    mutationFn: async (data: { connectionId: number; tableName: string; fieldMapping: SmartFieldMapping; article: string }) => {
+      const res = await apiRequest("POST", `/api/db-connections/${data.connectionId}/preview-mapping`, data);
+      return await res.json() as SmartMappingPreview;
+    },
+    onSuccess: (data, variables) => {
+      setPreviewedMapping(data.success ? JSON.stringify([variables.tableName, variables.fieldMapping]) : null);
+    },
+    onError: (error: Error) => {
+      setPreviewedMapping(null);
+      toast({ 
+        variant: "destructive", 
+        description: error.message || "Ошибка предпросмотра" 
+      });
+    },
+  });
+
+  // Waits for the whole copy; the server joins a refresh that is already running
+  const refreshCacheMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/smart-cache/refresh");
+      return await res.json() as SmartCacheStatus;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/smart-cache"], data);
+      toast({ description: `Копия SMART обновлена: ${data.rowCount} записей` });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/smart-cache"] });
+      toast({ 
+        variant: "destructive", 
+        description: error.message || "Ошибка обновления копии SMART" 
+      });
+    },
+  });
+
+  const currentMappingKey = JSON.stringify([selectedTable, fieldMapping]);
+  const previewPassed = selectedRole !== 'smart' || previewedMapping === currentMappingKey;
+
   const handleTest = () => {
     const values = form.getValues();
     testMutation.mutate(values);
   };
 
+  const handleEdit = (connection: SafeDbConnection) => {
+    setEditingId(connection.id);
+    editForm.reset({
+      name: connection.name,
+      host: connection.host,
+      port: connection.port,
+      database: connection.database,
+      username: connection.username,
+      password: "",
+      ssl: connection.ssl,
+    });
+  };
+
   const handleViewTables = async (connection: SafeDbConnection) => {
     setViewTablesId(connection.id);
     tablesMutation.mutate(connection.id);
@@ -184,6 +287,9 @@ export default function DbConnections() {
 
   const handleCloseConfigureDialog = () => {
     setConfigureId(null);
+    setPreviewArticle("");
+    setPreviewedMapping(null);
+    previewMutation.reset();
     setSelectedRole(null);
     setSelectedTable("");
     setTableColumns([]);
@@ -238,6 +344,16 @@ export default function DbConnections() {
     });
   };
 
+  const handlePreview = () => {
+    if (!configureId || !selectedTable || !fieldMapping) return;
+    previewMutation.mutate({
+      connectionId: configureId,
+      tableName: selectedTable,
+      fieldMapping: fieldMapping as SmartFieldMapping,
+      article: previewArticle,
+    });
+  };
+
   const updateFieldMapping = (field: string, value: string) => {
     if (!fieldMapping) return;
     setFieldMapping({ ...fieldMapping, [field]: value });
@@ -328,6 +444,76 @@ export default function DbConnections() {
         </CardContent>
       </Card>
 
+      {/* Local SMART copy */}
+      {smartCache && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle data-testid="text-smart-cache-title">Локальная копия SMART</CardTitle>
+                <CardDescription>
+                  Поиск и справочник работают по копии в базе инвентаря; обновляется каждые {smartCache.refreshIntervalMinutes} мин
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => refreshCacheMutation.mutate()}
+                disabled={refreshCacheMutation.isPending}
+                data-testid="button-refresh-smart-cache"
+              >
+                {refreshCacheMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Обновить сейчас
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Записей</p>
+                <p className="text-2xl font-semibold" data-testid="text-smart-cache-rows">{smartCache.rowCount}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Последнее обновление</p>
+                <p data-testid="text-smart-cache-synced">
+                  {smartCache.lastSuccessAt ? format(new Date(smartCache.lastSuccessAt), "dd.MM.yyyy HH:mm") : "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Изменения</p>
+                <p>+{smartCache.inserted} / ~{smartCache.updated} / −{smartCache.deleted}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Состояние</p>
+                {smartCache.state === 'running' ? (
+                  <Badge variant="secondary">Обновляется</Badge>
+                ) : smartCache.state === 'error' ? (
+                  <Badge variant="destructive">Ошибка</Badge>
+                ) : smartCache.matchesActiveSource ? (
+                  <Badge variant="default">Используется</Badge>
+                ) : (
+                  <Badge variant="secondary">Не используется</Badge>
+                )}
+              </div>
+            </div>
+            {smartCache.state === 'error' && smartCache.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{smartCache.error}</AlertDescription>
+              </Alert>
+            )}
+            {!smartCache.matchesActiveSource && smartCache.state !== 'running' && (
+              <p className="text-sm text-muted-foreground">
+                Копия не заполнена из активной таблицы SMART, поэтому запросы идут напрямую в справочник
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle data-testid="text-form-title">Добавить подключение</CardTitle>
@@ -547,6 +733,14 @@ export default function DbConnections() {
                         </div>
                       </div>
                       <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEdit(conn)}
+                          data-testid={`button-edit-${conn.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -587,6 +781,159 @@ export default function DbConnections() {
         </CardContent>
       </Card>
 
+      {/* Edit Dialog */}
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && setEditingId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle data-testid="text-edit-dialog-title">Изменить подключение</DialogTitle>
+            <DialogDescription>
+              Перед сохранением подключение будет проверено, а для активного подключения — таблица и сопоставление полей
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...editForm}>
+            <form
+              onSubmit={editForm.handleSubmit((data) => editingId && updateMutation.mutate({ id: editingId, data }))}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Название</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-edit-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="host"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Хост</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-edit-host" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="port"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Порт</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          {...field} 
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 5432)}
+                          data-testid="input-edit-port"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="database"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>База данных</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-edit-database" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Имя пользователя</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-edit-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Пароль</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="password" 
+                          placeholder="Оставьте пустым, чтобы не менять" 
+                          {...field} 
+                          value={field.value || ""}
+                          data-testid="input-edit-password" 
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="ssl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>SSL режим</FormLabel>
+                      <Select 
+                        onValueChange={field.onChange} 
+                        value={field.value || undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-edit-ssl">
+                            <SelectValue placeholder="Не использовать" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="disable">Отключен</SelectItem>
+                          <SelectItem value="prefer">Предпочтительно</SelectItem>
+                          <SelectItem value="require">Обязательно</SelectItem>
+                          <SelectItem value="verify-ca">Проверка CA</SelectItem>
+                          <SelectItem value="verify-full">Полная проверка</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                  Отмена
+                </Button>
+                <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-edit">
+                  {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Проверить и сохранить
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
       {/* Tables Dialog */}
       <Dialog open={tablesMutation.isSuccess && viewTablesId !== null} onOpenChange={(open) => {
         if (!open) {
@@ -900,6 +1247,81 @@ export default function DbConnections() {
               </div>
             )}
 
+            {/* Step 4: Preview (SMART only) */}
+            {selectedRole === 'smart' && selectedTable && fieldMapping && (
+              <div className="space-y-3">
+                <label className="text-sm font-medium">Шаг 4: Проверьте поиск</label>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Артикул для поиска (пусто — первые строки)"
+                    value={previewArticle}
+                    onChange={(e) => setPreviewArticle(e.target.value)}
+                    data-testid="input-preview-article"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handlePreview}
+                    disabled={previewMutation.isPending}
+                    data-testid="button-preview-mapping"
+                  >
+                    {previewMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <TestTube className="h-4 w-4 mr-2" />
+                    )}
+                    Предпросмотр
+                  </Button>
+                </div>
+                {previewMutation.data && !previewMutation.data.success && (
+                  <Alert variant="destructive" data-testid="alert-preview-errors">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      {previewMutation.data.errors.map((error) => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {previewMutation.data?.success && (
+                  previewMutation.data.rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground" data-testid="text-preview-empty">
+                      Запрос выполнен, но ничего не найдено
+                    </p>
+                  ) : (
+                    <div className="border rounded-lg max-h-[300px] overflow-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>SMART</TableHead>
+                            <TableHead>Артикулы</TableHead>
+                            <TableHead>Название</TableHead>
+                            <TableHead>Бренд</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {previewMutation.data.rows.map((row, idx) => (
+                            <TableRow key={`${row.smart}-${idx}`} data-testid={`row-preview-${idx}`}>
+                              <TableCell className="font-mono">{row.smart}</TableCell>
+                              <TableCell className="font-mono text-xs">
+                                {Array.isArray(row.articles) ? row.articles.join(', ') : String(row.articles ?? '')}
+                              </TableCell>
+                              <TableCell>{row.name || "—"}</TableCell>
+                              <TableCell>{row.brand || "—"}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )
+                )}
+                {!previewPassed && (
+                  <p className="text-xs text-muted-foreground">
+                    Сохранение станет доступно после успешного предпросмотра текущего сопоставления
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end gap-2 pt-4">
               <Button 
                 variant="outline" 
@@ -910,7 +1332,7 @@ export default function DbConnections() {
               </Button>
               <Button 
                 onClick={handleSaveConfigure}
-                disabled={configureMutation.isPending || !selectedRole || !selectedTable || !fieldMapping}
+                disabled={configureMutation.isPending || !selectedRole || !selectedTable || !fieldMapping || !previewPassed}
                 data-testid="button-save-configure"
               >
                 {configureMutation.isPending ? (
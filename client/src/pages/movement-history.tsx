@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useState } from "react";
-import type { Movement } from "@shared/schema";
+import type { Movement, Warehouse } from "@shared/schema";
 
 export default function MovementHistory() {
   const [filter, setFilter] = useState("");
@@ -14,10 +14,17 @@ export default function MovementHistory() {
     queryKey: ["/api/movements"],
   });
 
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const warehouseNames = new Map(warehouses.map(w => [w.id, w.name]));
+
   const filteredMovements = (movements as Movement[] || []).filter(movement =>
     movement.smart.toLowerCase().includes(filter.toLowerCase()) ||
     movement.article.toLowerCase().includes(filter.toLowerCase()) ||
     movement.reason.toLowerCase().includes(filter.toLowerCase()) ||
+    (movement.createdBy && movement.createdBy.toLowerCase().includes(filter.toLowerCase())) ||
     (movement.note && movement.note.toLowerCase().includes(filter.toLowerCase()))
   );
 
@@ -28,6 +35,9 @@ export default function MovementHistory() {
       case 'return': return 'outline';
       case 'adjust': return 'secondary';
       case 'writeoff': return 'destructive';
+      case 'correction': return 'outline';
+      case 'transfer': return 'outline';
+      case 'box_move': return 'outline';
       default: return 'secondary';
     }
   };
@@ -79,6 +89,8 @@ export default function MovementHistory() {
                     <TableHead className="w-[150px]">Артикул</TableHead>
                     <TableHead className="text-right w-[80px]">Кол-во Δ</TableHead>
                     <TableHead className="w-[100px]">Причина</TableHead>
+                    <TableHead className="w-[130px]">Склад</TableHead>
+                    <TableHead className="w-[120px]">Пользователь</TableHead>
                     <TableHead>Примечание</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -91,12 +103,14 @@ export default function MovementHistory() {
                         <TableCell><Skeleton className="h-4 w-28" /></TableCell>
                         <TableCell><Skeleton className="h-4 w-12 ml-auto" /></TableCell>
                         <TableCell><Skeleton className="h-6 w-16" /></TableCell>
+                        <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                        <TableCell><Skeleton className="h-4 w-20" /></TableCell>
                         <TableCell><Skeleton className="h-4 w-32" /></TableCell>
                       </TableRow>
                     ))
                   ) : filteredMovements.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                         {filter ? "Нет совпадений с фильтром" : "Нет записанных движений"}
                       </TableCell>
                     </TableRow>
@@ -124,6 +138,12 @@ export default function MovementHistory() {
                             {movement.reason}
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-sm" data-testid={`text-warehouse-${movement.id}`}>
+                          {(movement.warehouseId && warehouseNames.get(movement.warehouseId)) || "—"}
+                        </TableCell>
+                        <TableCell className="text-sm" data-testid={`text-created-by-${movement.id}`}>
+                          {movement.createdBy || "—"}
+                        </TableCell>
                         <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
                           {movement.note || "—"}
                         </TableCell>
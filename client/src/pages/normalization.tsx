@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  normalizationRulesSchema,
+  type NormalizationRules,
+  type NormalizationTestResult,
+  type SafeDbConnection,
+} from "@shared/schema";
+import { defaultNormalizationRules, normalizeArticle } from "@shared/normalization";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+function copyRules(rules: NormalizationRules): NormalizationRules {
+  return {
+    ...rules,
+    transliteration: rules.transliteration.map(([from, to]) => [from, to] as [string, string]),
+  };
+}
+
+export default function Normalization() {
+  const { toast } = useToast();
+  const [connectionId, setConnectionId] = useState<number | null>(null);
+  const [rules, setRules] = useState<NormalizationRules>(() => copyRules(defaultNormalizationRules));
+  const [input, setInput] = useState("");
+  const [sqlResult, setSqlResult] = useState<NormalizationTestResult | null>(null);
+
+  const { data: connections = [], isLoading } = useQuery<SafeDbConnection[]>({
+    queryKey: ["/api/db-connections"],
+  });
+
+  const smartConnections = connections.filter(conn => conn.role === "smart");
+  const connection = smartConnections.find(conn => conn.id === connectionId);
+
+  // Start with the active SMART connection
+  useEffect(() => {
+    if (connectionId === null && smartConnections.length > 0) {
+      const active = smartConnections.find(conn => conn.isActive) || smartConnections[0];
+      setConnectionId(active.id);
+    }
+  }, [connectionId, smartConnections]);
+
+  // Load the saved rules whenever another connection is picked
+  useEffect(() => {
+    if (!connection) return;
+    const saved = normalizationRulesSchema.safeParse(connection.normalizationRules);
+    setRules(copyRules(saved.success ? saved.data : defaultNormalizationRules));
+    setSqlResult(null);
+  }, [connection?.id, connection?.normalizationRules]);
+
+  // Same function the server uses, so the preview matches search
+  const preview = useMemo(() => normalizeArticle(input, rules), [input, rules]);
+
+  const validate = (): NormalizationRules | null => {
+    const parsed = normalizationRulesSchema.safeParse(rules);
+    if (!parsed.success) {
+      toast({ variant: "destructive", description: parsed.error.errors[0]?.message || "Некорректные правила" });
+      return null;
+    }
+    return parsed.data;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: NormalizationRules | null) => {
+      const res = await apiRequest("PUT", `/api/db-connections/${connectionId}/normalization-rules`, { rules: data });
+      return await res.json();
+    },
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/db-connections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/smart-cache"] });
+      toast({ description: data ? "Правила сохранены" : "Восстановлены стандартные правила" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", description: error.message || "Ошибка сохранения правил" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (data: NormalizationRules) => {
+      const res = await apiRequest("POST", `/api/db-connections/${connectionId}/normalization-rules/test`, { rules: data, input });
+      return await res.json() as NormalizationTestResult;
+    },
+    onSuccess: (result) => setSqlResult(result),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", description: error.message || "Ошибка проверки" });
+    },
+  });
+
+  const updatePair = (index: number, position: 0 | 1, value: string) => {
+    const transliteration = rules.transliteration.map(pair => [...pair] as [string, string]);
+    // Input is uppercased before transliteration, so only uppercase characters can match
+    transliteration[index][position] = value.slice(-1).toUpperCase();
+    setRules({ ...rules, transliteration });
+    setSqlResult(null);
+  };
+
+  const removePair = (index: number) => {
+    setRules({ ...rules, transliteration: rules.transliteration.filter((_, i) => i !== index) });
+    setSqlResult(null);
+  };
+
+  const addPair = () => {
+    setRules({ ...rules, transliteration: [...rules.transliteration, ["", ""]] });
+  };
+
+  const updateRules = (changes: Partial<NormalizationRules>) => {
+    setRules({ ...rules, ...changes });
+    setSqlResult(null);
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Нормализация артикулов</h1>
+        <p className="text-muted-foreground">
+          Правила приведения артикулов к единому виду для поиска. Одни и те же правила применяются на сервере, в браузере и в SQL
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Подключение SMART</CardTitle>
+          <CardDescription>Правила хранятся отдельно для каждого подключения с ролью SMART</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Загрузка...</p>
+          ) : smartConnections.length === 0 ? (
+            <p className="text-muted-foreground">Нет подключений с ролью SMART</p>
+          ) : (
+            <Select
+              value={connectionId !== null ? String(connectionId) : undefined}
+              onValueChange={(value) => setConnectionId(parseInt(value, 10))}
+            >
+              <SelectTrigger className="max-w-md" data-testid="select-normalization-connection">
+                <SelectValue placeholder="Выберите подключение" />
+              </SelectTrigger>
+              <SelectContent>
+                {smartConnections.map(conn => (
+                  <SelectItem key={conn.id} value={String(conn.id)}>
+                    {conn.name}{conn.isActive ? " (активное)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardContent>
+      </Card>
+
+      {connection && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Правила
+                {!connection.normalizationRules && <Badge variant="secondary">Стандартные</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Применяются по порядку: верхний регистр, удаление разделителей, замена символов, O→0, удаление ведущих нулей
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="delimiters">Разделители</Label>
+                <Input
+                  id="delimiters"
+                  className="max-w-md font-mono"
+                  value={rules.delimiters}
+                  onChange={(e) => updateRules({ delimiters: e.target.value })}
+                  data-testid="input-delimiters"
+                />
+                <p className="text-xs text-muted-foreground">Символы, которые удаляются из артикула. Пробел означает любой пробельный символ</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Замена символов</Label>
+                <div className="flex flex-wrap gap-2">
+                  {rules.transliteration.map(([from, to], index) => (
+                    <div key={index} className="flex items-center gap-1 border border-border rounded-md p-1">
+                      <Input
+                        className="w-10 h-8 text-center font-mono px-1"
+                        value={from}
+                        onChange={(e) => updatePair(index, 0, e.target.value)}
+                        data-testid={`input-translit-from-${index}`}
+                      />
+                      <span className="text-muted-foreground">→</span>
+                      <Input
+                        className="w-10 h-8 text-center font-mono px-1"
+                        value={to}
+                        onChange={(e) => updatePair(index, 1, e.target.value)}
+                        data-testid={`input-translit-to-${index}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => removePair(index)}
+                        data-testid={`button-remove-translit-${index}`}
+                      >
+                        <i className="fas fa-xmark"></i>
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" className="h-10" onClick={addPair} data-testid="button-add-translit">
+                    <i className="fas fa-plus mr-2"></i>
+                    Добавить
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">Если символ указан несколько раз, действует первая замена</p>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="letter-o-to-zero"
+                  checked={rules.letterOToZero}
+                  onCheckedChange={(checked) => updateRules({ letterOToZero: checked })}
+                  data-testid="switch-letter-o-to-zero"
+                />
+                <Label htmlFor="letter-o-to-zero">Считать букву O нулём</Label>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="strip-leading-zeros"
+                  checked={rules.stripLeadingZeros}
+                  onCheckedChange={(checked) => updateRules({ stripLeadingZeros: checked })}
+                  data-testid="switch-strip-leading-zeros"
+                />
+                <Label htmlFor="strip-leading-zeros">Удалять ведущие нули</Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => {
+                    const data = validate();
+                    if (data) saveMutation.mutate(data);
+                  }}
+                  disabled={saveMutation.isPending}
+                  data-testid="button-save-rules"
+                >
+                  <i className="fas fa-floppy-disk mr-2"></i>
+                  Сохранить
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => saveMutation.mutate(null)}
+                  disabled={saveMutation.isPending || !connection.normalizationRules}
+                  data-testid="button-reset-rules"
+                >
+                  Сбросить к стандартным
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                После сохранения локальная копия SMART перестраивается с новыми ключами поиска
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Проверка</CardTitle>
+              <CardDescription>Результат с текущими (ещё не сохранёнными) правилами</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2 items-end">
+                <div className="flex-1 max-w-md space-y-2">
+                  <Label htmlFor="normalization-input">Артикул</Label>
+                  <Input
+                    id="normalization-input"
+                    className="font-mono"
+                    placeholder="Например: ак-0123.45"
+                    value={input}
+                    onChange={(e) => {
+                      setInput(e.target.value);
+                      setSqlResult(null);
+                    }}
+                    data-testid="input-normalization-test"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    const data = validate();
+                    if (data) testMutation.mutate(data);
+                  }}
+                  disabled={testMutation.isPending || !input}
+                  data-testid="button-test-sql"
+                >
+                  <i className="fas fa-database mr-2"></i>
+                  Проверить в SQL
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <span className="text-muted-foreground">Браузер</span>
+                <span className="font-mono" data-testid="text-normalized-preview">{preview || "—"}</span>
+                {sqlResult && (
+                  <>
+                    <span className="text-muted-foreground">Сервер</span>
+                    <span className="font-mono">{sqlResult.normalized || "—"}</span>
+                    <span className="text-muted-foreground">SQL</span>
+                    <span className="font-mono" data-testid="text-normalized-sql">
+                      {sqlResult.sqlNormalized === null ? (
+                        <span className="text-muted-foreground">база SMART недоступна</span>
+                      ) : (
+                        <>
+                          {sqlResult.sqlNormalized || "—"}
+                          {sqlResult.sqlNormalized !== sqlResult.normalized && (
+                            <Badge variant="destructive" className="ml-2">Расходится</Badge>
+                          )}
+                        </>
+                      )}
+                    </span>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
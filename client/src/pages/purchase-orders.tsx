@@ -0,0 +1,569 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertSupplierSchema, insertPurchaseOrderSchema } from "@shared/schema";
+import type {
+  InsertSupplier,
+  InsertPurchaseOrder,
+  Supplier,
+  PurchaseOrderDetails,
+  PurchaseOrderStatus,
+  Warehouse,
+  BoxSummary,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/permissions";
+import { format } from "date-fns";
+
+const statusTitles: Record<PurchaseOrderStatus, string> = {
+  open: 'Ожидается',
+  received: 'Принят',
+  closed: 'Закрыт',
+};
+
+const emptyLine = { smart: "", article: "", qty: 1, price: "" };
+
+type ReceiptLine = { lineId: number; qty: number; boxNumber: string };
+
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canOrder = hasRole(user?.role, 'manager');
+  const [receiving, setReceiving] = useState<PurchaseOrderDetails | null>(null);
+  const [receiptLines, setReceiptLines] = useState<ReceiptLine[]>([]);
+  const [receiptWarehouseId, setReceiptWarehouseId] = useState<number | null>(null);
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderDetails[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: boxes = [] } = useQuery<BoxSummary[]>({
+    queryKey: ["/api/boxes"],
+  });
+
+  const supplierForm = useForm<InsertSupplier>({
+    resolver: zodResolver(insertSupplierSchema),
+    defaultValues: {
+      name: "",
+      contact: "",
+      note: "",
+    },
+  });
+
+  const orderForm = useForm<InsertPurchaseOrder>({
+    resolver: zodResolver(insertPurchaseOrderSchema),
+    defaultValues: {
+      supplierId: undefined as any,
+      note: "",
+      lines: [emptyLine],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: orderForm.control,
+    name: "lines",
+  });
+
+  // Receive everything still expected unless the storekeeper changes it
+  useEffect(() => {
+    if (receiving) {
+      setReceiptLines(receiving.lines.map(line => ({
+        lineId: line.id,
+        qty: Math.max(line.qty - line.receivedQty, 0),
+        boxNumber: "",
+      })));
+      setReceiptWarehouseId(null);
+    }
+  }, [receiving]);
+
+  const createSupplierMutation = useMutation({
+    mutationFn: async (data: InsertSupplier) => {
+      const res = await apiRequest("POST", "/api/suppliers", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ description: "Поставщик добавлен" });
+      supplierForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка добавления поставщика",
+      });
+    },
+  });
+
+  const createOrderMutation = useMutation({
+    mutationFn: async (data: InsertPurchaseOrder) => {
+      const res = await apiRequest("POST", "/api/purchase-orders", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({ description: "Заказ поставщику создан" });
+      orderForm.reset({ supplierId: undefined as any, note: "", lines: [emptyLine] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка создания заказа",
+      });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, lines }: { id: number; lines: ReceiptLine[] }) => {
+      const res = await apiRequest("POST", `/api/purchase-orders/${id}/receive`, {
+        warehouseId: receiptWarehouseId,
+        lines: lines.map(line => ({ ...line, boxNumber: line.boxNumber || null })),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/boxes"] });
+      toast({ description: "Приёмка записана" });
+      setReceiving(null);
+    },
+    onError: (error: Error) => {
+      // Lines received before the error are already posted
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка приёмки",
+      });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/purchase-orders/${id}/close`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({ description: "Заказ закрыт" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка закрытия заказа",
+      });
+    },
+  });
+
+  const updateReceiptLine = (lineId: number, changes: Partial<ReceiptLine>) => {
+    setReceiptLines(lines => lines.map(line => line.lineId === lineId ? { ...line, ...changes } : line));
+  };
+
+  const handleReceive = () => {
+    if (!receiving) return;
+    const lines = receiptLines.filter(line => line.qty > 0);
+    if (lines.length === 0) {
+      toast({ variant: "destructive", description: "Укажите количество хотя бы по одной позиции" });
+      return;
+    }
+    receiveMutation.mutate({ id: receiving.id, lines });
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Заказы поставщикам</h1>
+        <p className="text-muted-foreground">
+          Ожидаемые поставки и приёмка товара по ним
+        </p>
+      </div>
+
+      {canOrder && (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Новый поставщик</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...supplierForm}>
+                <form
+                  onSubmit={supplierForm.handleSubmit((data) => createSupplierMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={supplierForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Название</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-supplier-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={supplierForm.control}
+                    name="contact"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Контакты</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Телефон, email, сайт" {...field} value={field.value || ""} data-testid="input-supplier-contact" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={createSupplierMutation.isPending} data-testid="button-create-supplier">
+                    <i className="fas fa-plus mr-2"></i>
+                    Добавить
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-2">
+            <CardHeader>
+              <CardTitle>Новый заказ поставщику</CardTitle>
+              <CardDescription>Ожидаемые SMART коды, количество и цена закупки</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...orderForm}>
+                <form
+                  onSubmit={orderForm.handleSubmit((data) => createOrderMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={orderForm.control}
+                      name="supplierId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Поставщик</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            value={field.value?.toString() || ""}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-po-supplier">
+                                <SelectValue placeholder="Выберите поставщика" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {suppliers.map((supplier) => (
+                                <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                                  {supplier.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={orderForm.control}
+                      name="note"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Комментарий</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} data-testid="input-po-note" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-[1fr_1fr_100px_120px_auto] gap-2 items-end">
+                      <FormField
+                        control={orderForm.control}
+                        name={`lines.${index}.smart`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>SMART</FormLabel>}
+                            <FormControl>
+                              <Input className="font-mono" {...field} data-testid={`input-po-smart-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={orderForm.control}
+                        name={`lines.${index}.article`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Артикул</FormLabel>}
+                            <FormControl>
+                              <Input className="font-mono" {...field} data-testid={`input-po-article-${index}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={orderForm.control}
+                        name={`lines.${index}.qty`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Кол-во</FormLabel>}
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                className="font-mono"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                data-testid={`input-po-qty-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={orderForm.control}
+                        name={`lines.${index}.price`}
+                        render={({ field }) => (
+                          <FormItem>
+                            {index === 0 && <FormLabel>Цена</FormLabel>}
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                className="font-mono"
+                                {...field}
+                                value={field.value || ""}
+                                data-testid={`input-po-price-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={fields.length === 1}
+                        onClick={() => remove(index)}
+                        data-testid={`button-po-remove-line-${index}`}
+                      >
+                        <i className="fas fa-trash"></i>
+                      </Button>
+                    </div>
+                  ))}
+
+                  <div className="flex justify-between">
+                    <Button type="button" variant="outline" onClick={() => append(emptyLine)} data-testid="button-po-add-line">
+                      <i className="fas fa-plus mr-2"></i>
+                      Позиция
+                    </Button>
+                    <Button type="submit" disabled={createOrderMutation.isPending} data-testid="button-create-po">
+                      Создать заказ
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Заказы</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>Заказов поставщикам пока нет</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map((order) => (
+                <div key={order.id} className="border border-border rounded-lg p-4" data-testid={`po-${order.id}`}>
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <div className="font-semibold">
+                        Заказ №{order.id} — {order.supplierName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(order.createdAt), "dd.MM.yyyy")}
+                        {order.note ? ` · ${order.note}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={order.status === 'open' ? 'default' : 'secondary'}>
+                        {statusTitles[order.status] || order.status}
+                      </Badge>
+                      {order.status === 'open' && (
+                        <>
+                          <Button size="sm" onClick={() => setReceiving(order)} data-testid={`button-receive-po-${order.id}`}>
+                            <i className="fas fa-dolly mr-2"></i>
+                            Принять
+                          </Button>
+                          {canOrder && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={closeMutation.isPending}
+                              onClick={() => closeMutation.mutate(order.id)}
+                              data-testid={`button-close-po-${order.id}`}
+                            >
+                              Закрыть
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>SMART</TableHead>
+                        <TableHead>Артикул</TableHead>
+                        <TableHead className="text-right">Цена</TableHead>
+                        <TableHead className="text-right">Заказано</TableHead>
+                        <TableHead className="text-right">Принято</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {order.lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell className="font-mono font-semibold">{line.smart}</TableCell>
+                          <TableCell className="font-mono">{line.article}</TableCell>
+                          <TableCell className="text-right">{line.price ? `${line.price} ₽` : "—"}</TableCell>
+                          <TableCell className="text-right font-mono">{line.qty}</TableCell>
+                          <TableCell className={`text-right font-mono ${line.receivedQty >= line.qty ? 'text-success' : ''}`}>
+                            {line.receivedQty}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={receiving !== null} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Приёмка</DialogTitle>
+            <DialogDescription>
+              {receiving && `Заказ №${receiving.id} — ${receiving.supplierName}. Недопринятые позиции останутся в заказе`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {receiving && (
+            <div className="space-y-4">
+              {warehouses.length > 1 && (
+                <Select
+                  onValueChange={(value) => setReceiptWarehouseId(parseInt(value))}
+                  value={receiptWarehouseId?.toString() || warehouses[0].id.toString()}
+                >
+                  <SelectTrigger data-testid="select-receipt-warehouse">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <datalist id="receipt-boxes">
+                {boxes.map((box) => (
+                  <option key={box.id} value={box.boxNumber} />
+                ))}
+              </datalist>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SMART</TableHead>
+                    <TableHead className="text-right">Осталось</TableHead>
+                    <TableHead className="w-[100px]">Принять</TableHead>
+                    <TableHead className="w-[140px]">Коробка</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receiving.lines.map((line) => {
+                    const receipt = receiptLines.find(r => r.lineId === line.id);
+                    const remaining = Math.max(line.qty - line.receivedQty, 0);
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-mono font-semibold">{line.smart}</TableCell>
+                        <TableCell className="text-right font-mono">{remaining}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={remaining}
+                            className="font-mono"
+                            value={receipt?.qty ?? 0}
+                            disabled={remaining === 0}
+                            onChange={(e) => updateReceiptLine(line.id, { qty: parseInt(e.target.value) || 0 })}
+                            data-testid={`input-receipt-qty-${line.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            list="receipt-boxes"
+                            value={receipt?.boxNumber ?? ""}
+                            disabled={remaining === 0}
+                            onChange={(e) => updateReceiptLine(line.id, { boxNumber: e.target.value })}
+                            data-testid={`input-receipt-box-${line.id}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setReceiving(null)}>
+                  Отмена
+                </Button>
+                <Button onClick={handleReceive} disabled={receiveMutation.isPending} data-testid="button-submit-receipt">
+                  Записать приёмку
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
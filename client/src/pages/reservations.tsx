@@ -0,0 +1,515 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertReservationSchema, convertReservationSchema } from "@shared/schema";
+import type { InsertReservation, ConvertReservationPayload, Reservation, ReservationStatus, Warehouse, ShippingMethod, Customer } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/permissions";
+import { format, addDays } from "date-fns";
+
+const statusTitles: Record<ReservationStatus, string> = {
+  active: 'Активен',
+  converted: 'Продан',
+  released: 'Снят',
+  expired: 'Истёк',
+};
+
+function getStatusVariant(status: ReservationStatus): "default" | "secondary" | "destructive" | "outline" {
+  switch (status) {
+    case 'active': return 'default';
+    case 'converted': return 'secondary';
+    case 'expired': return 'destructive';
+    default: return 'outline';
+  }
+}
+
+function defaultReservation(): InsertReservation {
+  return {
+    smart: "",
+    article: "",
+    qty: 1,
+    warehouseId: null,
+    customerNote: "",
+    expiresAt: addDays(new Date(), 3),
+  };
+}
+
+export default function Reservations() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasRole(user?.role, 'storekeeper');
+  const [showAll, setShowAll] = useState(false);
+  const [converting, setConverting] = useState<Reservation | null>(null);
+
+  const { data: reservations = [], isLoading } = useQuery<Reservation[]>({
+    queryKey: showAll ? ["/api/reservations"] : ["/api/reservations", { status: "active" }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", showAll ? "/api/reservations" : "/api/reservations?status=active");
+      return res.json();
+    },
+  });
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: shippingMethods = [] } = useQuery<ShippingMethod[]>({
+    queryKey: ["/api/shipping-methods"],
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+    enabled: canManage,
+  });
+
+  const warehouseName = (id: number) => warehouses.find(w => w.id === id)?.name || `#${id}`;
+
+  const form = useForm<InsertReservation>({
+    resolver: zodResolver(insertReservationSchema),
+    defaultValues: defaultReservation(),
+  });
+
+  const convertForm = useForm<ConvertReservationPayload>({
+    resolver: zodResolver(convertReservationSchema),
+    defaultValues: {
+      salePrice: "",
+      deliveryPrice: "",
+      shippingMethodId: null,
+      boxNumber: "",
+      customerId: null,
+      note: "",
+    },
+  });
+
+  useEffect(() => {
+    if (converting) {
+      convertForm.reset({
+        salePrice: "",
+        deliveryPrice: "",
+        shippingMethodId: null,
+        boxNumber: "",
+        customerId: null,
+        note: converting.customerNote || "",
+      });
+    }
+  }, [converting]);
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertReservation) => {
+      const res = await apiRequest("POST", "/api/reservations", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateStock();
+      toast({ description: "Товар зарезервирован" });
+      form.reset(defaultReservation());
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка резервирования",
+      });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/reservations/${id}/release`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateStock();
+      toast({ description: "Резерв снят" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка снятия резерва",
+      });
+    },
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: ConvertReservationPayload }) => {
+      const res = await apiRequest("POST", `/api/reservations/${id}/convert`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateStock();
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({ description: "Продажа записана и ожидает отправки" });
+      setConverting(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка оформления продажи",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Резервы</h1>
+        <p className="text-muted-foreground">
+          Товар, обещанный клиентам до оплаты. Резерв уменьшает доступный остаток, но не остаток на складе
+        </p>
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Новый резерв</CardTitle>
+            <CardDescription>По истечении срока резерв снимается автоматически</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-4 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="smart"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SMART</FormLabel>
+                        <FormControl>
+                          <Input className="font-mono" {...field} data-testid="input-reservation-smart" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="article"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Артикул</FormLabel>
+                        <FormControl>
+                          <Input className="font-mono" {...field} data-testid="input-reservation-article" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="qty"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Количество</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="font-mono"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid="input-reservation-qty"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="expiresAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Действует до</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            value={field.value ? format(new Date(field.value), "yyyy-MM-dd'T'HH:mm") : ""}
+                            onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                            data-testid="input-reservation-expires"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="grid grid-cols-4 gap-4 items-end">
+                  {warehouses.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name="warehouseId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Склад</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            value={field.value?.toString() || ""}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-reservation-warehouse">
+                                <SelectValue placeholder={warehouses[0]?.name} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {warehouses.map((warehouse) => (
+                                <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                                  {warehouse.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="customerNote"
+                    render={({ field }) => (
+                      <FormItem className={warehouses.length > 1 ? "col-span-2" : "col-span-3"}>
+                        <FormLabel>Клиент</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Имя, телефон, комментарий" {...field} value={field.value || ""} data-testid="input-reservation-customer" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-reservation">
+                    <i className="fas fa-lock mr-2"></i>
+                    Зарезервировать
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{showAll ? "Все резервы" : "Активные резервы"}</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)} data-testid="button-toggle-reservations">
+            {showAll ? "Только активные" : "Показать все"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : reservations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>Резервов нет</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SMART</TableHead>
+                  <TableHead>Артикул</TableHead>
+                  <TableHead className="text-right">Кол-во</TableHead>
+                  <TableHead>Склад</TableHead>
+                  <TableHead>Клиент</TableHead>
+                  <TableHead>До</TableHead>
+                  <TableHead>Статус</TableHead>
+                  {canManage && <TableHead className="text-right">Действия</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reservations.map((reservation) => (
+                  <TableRow key={reservation.id} data-testid={`row-reservation-${reservation.id}`}>
+                    <TableCell className="font-mono font-semibold">{reservation.smart}</TableCell>
+                    <TableCell className="font-mono">{reservation.article}</TableCell>
+                    <TableCell className="text-right font-mono">{reservation.qty}</TableCell>
+                    <TableCell>{warehouseName(reservation.warehouseId)}</TableCell>
+                    <TableCell className="max-w-xs truncate">{reservation.customerNote || "—"}</TableCell>
+                    <TableCell className="font-mono whitespace-nowrap">
+                      {format(new Date(reservation.expiresAt), "dd.MM.yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(reservation.status)}>
+                        {statusTitles[reservation.status] || reservation.status}
+                      </Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {reservation.status === 'active' && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => setConverting(reservation)}
+                              data-testid={`button-convert-reservation-${reservation.id}`}
+                            >
+                              <i className="fas fa-cart-shopping mr-2"></i>
+                              Продать
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={releaseMutation.isPending}
+                              onClick={() => releaseMutation.mutate(reservation.id)}
+                              data-testid={`button-release-reservation-${reservation.id}`}
+                            >
+                              Снять
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={converting !== null} onOpenChange={(open) => !open && setConverting(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Оформить продажу</DialogTitle>
+            <DialogDescription>
+              {converting && (
+                <>
+                  <span className="font-mono font-semibold">{converting.smart}</span> — {converting.qty} шт
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...convertForm}>
+            <form
+              onSubmit={convertForm.handleSubmit((data) => converting && convertMutation.mutate({ id: converting.id, data }))}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={convertForm.control}
+                  name="salePrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Цена продажи</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" className="font-mono" {...field} data-testid="input-convert-sale-price" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={convertForm.control}
+                  name="deliveryPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Доставка</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" className="font-mono" {...field} value={field.value || ""} data-testid="input-convert-delivery-price" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={convertForm.control}
+                name="shippingMethodId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Способ отправки</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value?.toString() || ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-convert-shipping">
+                          <SelectValue placeholder="Выберите способ отправки" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {shippingMethods.map((method) => (
+                          <SelectItem key={method.id} value={method.id.toString()}>
+                            {method.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={convertForm.control}
+                name="customerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Клиент</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                      value={field.value?.toString() || "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-convert-customer">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Без клиента</SelectItem>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id.toString()}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={convertForm.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Комментарий</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} data-testid="input-convert-note" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setConverting(null)}>
+                  Отмена
+                </Button>
+                <Button type="submit" disabled={convertMutation.isPending} data-testid="button-submit-convert">
+                  Записать продажу
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
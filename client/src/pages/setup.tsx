@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { insertDbConnectionSchema, setupAdminSchema } from "@shared/schema";
+import type { DbConnectionTest, InsertDbConnection, SafeDbConnection, SafeUser, SetupAdminPayload, SetupStatus } from "@shared/schema";
+
+type SetupTokenProps = {
+  token: string;
+  onTokenChange: (token: string) => void;
+};
+
+// Setup requests must carry the token the server printed to its log on startup
+function SetupTokenField({ token, onTokenChange }: SetupTokenProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="setup-token">Код настройки</Label>
+      <Input
+        id="setup-token"
+        value={token}
+        onChange={(e) => onTokenChange(e.target.value.trim())}
+        autoComplete="off"
+        data-testid="input-setup-token"
+      />
+      <p className="text-xs text-muted-foreground">Выводится в журнал сервера при запуске или задаётся в SETUP_TOKEN</p>
+    </div>
+  );
+}
+
+// Inventory database of a fresh install, configured with the app's own tables;
+// a custom table or field mapping can be set up on the connections page after login
+function SetupConnection({ token, onTokenChange }: SetupTokenProps) {
+  const { toast } = useToast();
+  const headers = { "X-Setup-Token": token };
+
+  const form = useForm<InsertDbConnection>({
+    resolver: zodResolver(insertDbConnectionSchema),
+    defaultValues: {
+      name: "Учёт",
+      host: "",
+      port: 5432,
+      database: "",
+      username: "",
+      password: "",
+      ssl: null,
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (data: InsertDbConnection) => {
+      const res = await apiRequest("POST", "/api/db-connections/test", data, headers);
+      return (await res.json()) as DbConnectionTest;
+    },
+    onSuccess: (data) => {
+      toast({
+        variant: data.success ? "default" : "destructive",
+        description: `${data.message}${data.version ? ` (${data.version})` : ''}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        description: error instanceof Error ? error.message : "Не удалось проверить подключение",
+      });
+    },
+  });
+
+  const connectMutation = useMutation({
+    mutationFn: async (data: InsertDbConnection) => {
+      const res = await apiRequest("POST", "/api/db-connections", data, headers);
+      const connection = (await res.json()) as SafeDbConnection;
+      await apiRequest("POST", `/api/db-connections/${connection.id}/configure`, { role: 'inventory' }, headers);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/setup-status"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка подключения",
+        description: error instanceof Error ? error.message : "Не удалось настроить подключение",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTest = async () => {
+    if (await form.trigger()) {
+      testMutation.mutate(form.getValues());
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background py-8">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-database text-white text-lg"></i>
+            </div>
+            <div>
+              <CardTitle className="text-lg">Первоначальная настройка</CardTitle>
+              <p className="text-xs text-muted-foreground">Подключите базу учёта. Пока её нет, вход в систему невозможен</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => connectMutation.mutate(data))} className="space-y-4">
+              <SetupTokenField token={token} onTokenChange={onTokenChange} />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Название</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-setup-connection-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="host"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Хост</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-setup-host" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="port"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Порт</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 5432)}
+                          data-testid="input-setup-port"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="database"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>База данных</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-setup-database" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Пользователь</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} data-testid="input-setup-db-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Пароль</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-setup-db-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleTest}
+                  disabled={testMutation.isPending}
+                  data-testid="button-setup-test"
+                >
+                  <i className="fas fa-plug mr-2"></i>
+                  Проверить
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={connectMutation.isPending}
+                  data-testid="button-setup-connect"
+                >
+                  <i className="fas fa-check mr-2"></i>
+                  Подключить
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// First account of a fresh install; the server only accepts it while there are none
+function SetupAdmin({ token, onTokenChange }: SetupTokenProps) {
+  const { toast } = useToast();
+
+  const form = useForm<SetupAdminPayload>({
+    resolver: zodResolver(setupAdminSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      displayName: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: SetupAdminPayload) => {
+      const res = await apiRequest("POST", "/api/setup/admin", data, { "X-Setup-Token": token });
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/setup-status"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка создания администратора",
+        description: error instanceof Error ? error.message : "Не удалось создать учётную запись",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-user-shield text-white text-lg"></i>
+            </div>
+            <div>
+              <CardTitle className="text-lg">Первый администратор</CardTitle>
+              <p className="text-xs text-muted-foreground">В базе учёта ещё нет учётных записей</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <SetupTokenField token={token} onTokenChange={onTokenChange} />
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Имя пользователя</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" autoFocus {...field} data-testid="input-setup-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="displayName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Отображаемое имя</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} data-testid="input-setup-display-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Пароль</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-setup-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={createMutation.isPending}
+                data-testid="button-setup-admin"
+              >
+                <i className="fas fa-check mr-2"></i>
+                Создать и войти
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Fresh install: connect the inventory database first, then create the first admin
+export default function Setup({ status }: { status: SetupStatus }) {
+  const [token, setToken] = useState("");
+
+  if (status.needsAdmin) {
+    return <SetupAdmin token={token} onTokenChange={setToken} />;
+  }
+
+  return <SetupConnection token={token} onTokenChange={setToken} />;
+}
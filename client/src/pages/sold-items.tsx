@@ -4,7 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Movement } from "@shared/schema";
+import { Link } from "wouter";
+import type { Movement, OrderSummary } from "@shared/schema";
 
 export default function SoldItems() {
   const { toast } = useToast();
@@ -14,6 +15,10 @@ export default function SoldItems() {
     queryKey: ["/api/movements"],
   });
 
+  const { data: orders = [] } = useQuery<OrderSummary[]>({
+    queryKey: ["/api/orders"],
+  });
+
   const markAsShippedMutation = useMutation({
     mutationFn: async (movementId: number) => {
       const response = await apiRequest("PATCH", `/api/movements/${movementId}/ship`, {});
@@ -87,6 +92,192 @@ export default function SoldItems() {
     });
   };
 
+  // Sales of one order are shown together; sales without an order stand alone
+  const groupByOrder = (items: Movement[]) => {
+    const groups: { key: string; order?: OrderSummary; items: Movement[] }[] = [];
+    for (const movement of items) {
+      const key = movement.orderId ? `order-${movement.orderId}` : `movement-${movement.id}`;
+      const group = groups.find(g => g.key === key);
+      if (group) {
+        group.items.push(movement);
+      } else {
+        groups.push({
+          key,
+          order: orders.find(o => o.id === movement.orderId),
+          items: [movement],
+        });
+      }
+    }
+    return groups;
+  };
+
+  const renderAwaitingItem = (movement: Movement) => (
+    <div
+      key={movement.id}
+      className="border border-border rounded-lg p-4 bg-card hover:bg-accent/5 transition-colors"
+      data-testid={`item-awaiting-${movement.id}`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1">
+          <div className="font-mono font-semibold text-sm text-foreground mb-1">
+            {movement.smart}
+          </div>
+          <div className="text-xs text-muted-foreground break-words">
+            {movement.article}
+          </div>
+        </div>
+        <Badge variant="outline" className="ml-2">
+          <i className="fas fa-clock mr-1"></i>
+          Ожидает
+        </Badge>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        <div>
+          <span className="text-muted-foreground">Количество:</span>
+          <span className="font-mono font-semibold ml-2">
+            {Math.abs(movement.qtyDelta)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Цена продажи:</span>
+          <span className="font-semibold ml-2">
+            {formatPrice(movement.salePrice)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Доставка:</span>
+          <span className="font-semibold ml-2">
+            {formatPrice(movement.deliveryPrice)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Дата:</span>
+          <span className="text-xs ml-2">
+            {formatDate(movement.createdAt)}
+          </span>
+        </div>
+      </div>
+
+      {movement.trackNumber && (
+        <div className="text-xs text-muted-foreground mb-3">
+          <i className="fas fa-truck mr-1"></i>
+          Трек: {movement.trackNumber}
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => markAsShippedMutation.mutate(movement.id)}
+        disabled={markAsShippedMutation.isPending}
+        data-testid={`button-ship-${movement.id}`}
+      >
+        <i className="fas fa-shipping-fast mr-2"></i>
+        Отправлено
+      </Button>
+    </div>
+  );
+
+  const renderShippedItem = (movement: Movement) => (
+    <div
+      key={movement.id}
+      className="border border-success/30 rounded-lg p-4 bg-success/5"
+      data-testid={`item-shipped-${movement.id}`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1">
+          <div className="font-mono font-semibold text-sm text-foreground mb-1">
+            {movement.smart}
+          </div>
+          <div className="text-xs text-muted-foreground break-words">
+            {movement.article}
+          </div>
+        </div>
+        <Badge className="bg-success text-success-foreground ml-2">
+          <i className="fas fa-check mr-1"></i>
+          Отправлено
+        </Badge>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        <div>
+          <span className="text-muted-foreground">Количество:</span>
+          <span className="font-mono font-semibold ml-2">
+            {Math.abs(movement.qtyDelta)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Цена продажи:</span>
+          <span className="font-semibold ml-2">
+            {formatPrice(movement.salePrice)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Доставка:</span>
+          <span className="font-semibold ml-2">
+            {formatPrice(movement.deliveryPrice)}
+          </span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Дата отправки:</span>
+          <span className="text-xs ml-2">
+            {formatDate(movement.createdAt)}
+          </span>
+        </div>
+      </div>
+
+      {movement.trackNumber && (
+        <div className="text-xs text-muted-foreground mb-3">
+          <i className="fas fa-truck mr-1"></i>
+          Трек: {movement.trackNumber}
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={() => returnToInventoryMutation.mutate(movement.id)}
+        disabled={returnToInventoryMutation.isPending}
+        data-testid={`button-return-${movement.id}`}
+      >
+        <i className="fas fa-undo mr-2"></i>
+        Вернуть на склад
+      </Button>
+    </div>
+  );
+
+  const renderGroup = (
+    group: { key: string; order?: OrderSummary; items: Movement[] },
+    renderItem: (movement: Movement) => JSX.Element
+  ) => {
+    if (!group.order) {
+      return <div key={group.key}>{group.items.map(renderItem)}</div>;
+    }
+    
+    return (
+      <div key={group.key} className="border border-border rounded-lg p-3 space-y-3" data-testid={`group-order-${group.order.id}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="font-semibold text-sm">Заказ №{group.order.id}</div>
+            <Link href={`/customers/${group.order.customerId}`} className="text-sm text-primary hover:underline">
+              {group.order.customerName}
+            </Link>
+            <div className="text-xs text-muted-foreground">
+              {[group.order.customerPhone, group.order.customerEmail].filter(Boolean).join(" · ") || "Контакты не указаны"}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs text-muted-foreground">Сумма заказа</div>
+            <div className="font-semibold">{formatPrice(group.order.total.toString())}</div>
+          </div>
+        </div>
+        {group.items.map(renderItem)}
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 overflow-y-auto">
       <header className="bg-card border-b border-border sticky top-0 z-10">
@@ -128,73 +319,7 @@ export default function SoldItems() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {awaitingShipment.map((movement) => (
-                    <div
-                      key={movement.id}
-                      className="border border-border rounded-lg p-4 bg-card hover:bg-accent/5 transition-colors"
-                      data-testid={`item-awaiting-${movement.id}`}
-                    >
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <div className="font-mono font-semibold text-sm text-foreground mb-1">
-                            {movement.smart}
-                          </div>
-                          <div className="text-xs text-muted-foreground break-words">
-                            {movement.article}
-                          </div>
-                        </div>
-                        <Badge variant="outline" className="ml-2">
-                          <i className="fas fa-clock mr-1"></i>
-                          Ожидает
-                        </Badge>
-                      </div>
-                      
-                      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
-                        <div>
-                          <span className="text-muted-foreground">Количество:</span>
-                          <span className="font-mono font-semibold ml-2">
-                            {Math.abs(movement.qtyDelta)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Цена продажи:</span>
-                          <span className="font-semibold ml-2">
-                            {formatPrice(movement.salePrice)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Доставка:</span>
-                          <span className="font-semibold ml-2">
-                            {formatPrice(movement.deliveryPrice)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Дата:</span>
-                          <span className="text-xs ml-2">
-                            {formatDate(movement.createdAt)}
-                          </span>
-                        </div>
-                      </div>
-
-                      {movement.trackNumber && (
-                        <div className="text-xs text-muted-foreground mb-3">
-                          <i className="fas fa-truck mr-1"></i>
-                          Трек: {movement.trackNumber}
-                        </div>
-                      )}
-
-                      <Button
-                        size="sm"
-                        className="w-full"
-                        onClick={() => markAsShippedMutation.mutate(movement.id)}
-                        disabled={markAsShippedMutation.isPending}
-                        data-testid={`button-ship-${movement.id}`}
-                      >
-                        <i className="fas fa-shipping-fast mr-2"></i>
-                        Отправлено
-                      </Button>
-                    </div>
-                  ))}
+                  {groupByOrder(awaitingShipment).map((group) => renderGroup(group, renderAwaitingItem))}
                 </div>
               )}
             </CardContent>
@@ -228,74 +353,7 @@ export default function SoldItems() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {shipped.map((movement) => (
-                    <div
-                      key={movement.id}
-                      className="border border-success/30 rounded-lg p-4 bg-success/5"
-                      data-testid={`item-shipped-${movement.id}`}
-                    >
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <div className="font-mono font-semibold text-sm text-foreground mb-1">
-                            {movement.smart}
-                          </div>
-                          <div className="text-xs text-muted-foreground break-words">
-                            {movement.article}
-                          </div>
-                        </div>
-                        <Badge className="bg-success text-success-foreground ml-2">
-                          <i className="fas fa-check mr-1"></i>
-                          Отправлено
-                        </Badge>
-                      </div>
-                      
-                      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
-                        <div>
-                          <span className="text-muted-foreground">Количество:</span>
-                          <span className="font-mono font-semibold ml-2">
-                            {Math.abs(movement.qtyDelta)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Цена продажи:</span>
-                          <span className="font-semibold ml-2">
-                            {formatPrice(movement.salePrice)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Доставка:</span>
-                          <span className="font-semibold ml-2">
-                            {formatPrice(movement.deliveryPrice)}
-                          </span>
-                        </div>
-                        <div>
-                          <span className="text-muted-foreground">Дата отправки:</span>
-                          <span className="text-xs ml-2">
-                            {formatDate(movement.createdAt)}
-                          </span>
-                        </div>
-                      </div>
-
-                      {movement.trackNumber && (
-                        <div className="text-xs text-muted-foreground mb-3">
-                          <i className="fas fa-truck mr-1"></i>
-                          Трек: {movement.trackNumber}
-                        </div>
-                      )}
-
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="w-full"
-                        onClick={() => returnToInventoryMutation.mutate(movement.id)}
-                        disabled={returnToInventoryMutation.isPending}
-                        data-testid={`button-return-${movement.id}`}
-                      >
-                        <i className="fas fa-undo mr-2"></i>
-                        Вернуть на склад
-                      </Button>
-                    </div>
-                  ))}
+                  {groupByOrder(shipped).map((group) => renderGroup(group, renderShippedItem))}
                 </div>
               )}
             </CardContent>
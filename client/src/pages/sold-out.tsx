@@ -59,6 +59,7 @@ export default function SoldOut() {
                     <th className="px-4 py-3 text-right text-sm font-medium">Средняя цена продажи</th>
                     <th className="px-4 py-3 text-right text-sm font-medium">Дата последней продажи</th>
                     <th className="px-4 py-3 text-right text-sm font-medium">Количество продаж</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium">Прибыль</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -87,6 +88,11 @@ export default function SoldOut() {
                       <td className="px-4 py-4 align-middle text-right" data-testid={`text-totalsales-${index}`}>
                         <span className="font-medium">{item.totalSales}</span>
                       </td>
+                      <td className="px-4 py-4 align-middle text-right whitespace-nowrap" data-testid={`text-totalprofit-${index}`}>
+                        <span className={`font-medium ${item.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {item.totalProfit.toFixed(2)} ₽
+                        </span>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -10,7 +10,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Movement } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { MovementAuditDialog } from "@/components/movement-audit-dialog";
+import { TransferDialog } from "@/components/transfer-dialog";
+import { BarcodeAliases } from "@/components/barcode-aliases";
+import { hasRole } from "@shared/permissions";
+import type { Movement, PurchaseMovement, Warehouse, WarehouseStock } from "@shared/schema";
 import { format } from "date-fns";
 
 export default function StockDetails() {
@@ -18,8 +23,15 @@ export default function StockDetails() {
   const { toast } = useToast();
   const [editingCell, setEditingCell] = useState<{id: number, field: 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber'} | null>(null);
   const [editValue, setEditValue] = useState<string>("");
+  const [auditMovementId, setAuditMovementId] = useState<number | null>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const { user } = useAuth();
+  // Editing movements and profit analytics are manager-only
+  const canEdit = hasRole(user?.role, 'manager');
+  const canSeeProfit = hasRole(user?.role, 'manager');
+  const canTransfer = hasRole(user?.role, 'storekeeper');
 
-  const { data: purchasesData, isLoading } = useQuery<Movement[]>({
+  const { data: purchasesData, isLoading } = useQuery<PurchaseMovement[]>({
     queryKey: [`/api/stock/${smart}/purchases`],
     enabled: !!smart,
   });
@@ -27,6 +39,38 @@ export default function StockDetails() {
   // Ensure purchases is always an array
   const purchases = Array.isArray(purchasesData) ? purchasesData : [];
 
+  // Priced lots grouped by supplier; quantity-weighted average so small lots don't skew it
+  const supplierPrices = Object.values(
+    purchases
+      .filter(p => p.supplierName && p.purchasePrice && p.correctedQty > 0)
+      .reduce((acc, p) => {
+        const name = p.supplierName!;
+        const price = parseFloat(p.purchasePrice!);
+        const row = acc[name] ?? (acc[name] = { supplierName: name, lots: 0, qty: 0, total: 0, minPrice: price, lastPrice: price, lastAt: 0 });
+        const at = new Date(p.createdAt).getTime();
+        row.lots += 1;
+        row.qty += p.correctedQty;
+        row.total += price * p.correctedQty;
+        row.minPrice = Math.min(row.minPrice, price);
+        if (at >= row.lastAt) {
+          row.lastAt = at;
+          row.lastPrice = price;
+        }
+        return acc;
+      }, {} as Record<string, { supplierName: string; lots: number; qty: number; total: number; minPrice: number; lastPrice: number; lastAt: number }>)
+  )
+    .map(row => ({ ...row, averagePrice: row.total / row.qty }))
+    .sort((a, b) => a.averagePrice - b.averagePrice);
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: warehouseStock = [] } = useQuery<WarehouseStock[]>({
+    queryKey: [`/api/stock/${smart}/warehouses`],
+    enabled: !!smart,
+  });
+
   // Fetch sales analytics
   const { data: salesData, isLoading: salesLoading } = useQuery<{
     sales: (Movement & { profit: number; profitMarginPercent: number; daysFromPurchase: number | null; purchasePriceUsed: number })[];
@@ -40,7 +84,7 @@ export default function StockDetails() {
     };
   }>({
     queryKey: [`/api/stock/${smart}/sales`],
-    enabled: !!smart,
+    enabled: !!smart && canSeeProfit,
   });
 
   const updateMutation = useMutation({
@@ -57,8 +101,12 @@ export default function StockDetails() {
       }
       return await apiRequest('PATCH', `/api/movements/${id}`, payload);
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: [`/api/stock/${smart}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/movements/${id}/audit`] });
+      // Quantity edits post correction movements, which change stock totals
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/movements"] });
       toast({
         title: "Сохранено",
         description: "Изменения успешно сохранены",
@@ -75,6 +123,7 @@ export default function StockDetails() {
   });
 
   const handleEditStart = (id: number, field: 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber', currentValue: string | number | null) => {
+    if (!canEdit) return;
     setEditingCell({ id, field });
     setEditValue(currentValue?.toString() || "");
   };
@@ -94,10 +143,10 @@ export default function StockDetails() {
     }
   };
 
-  const getTotalPrice = (purchase: Movement) => {
+  const getTotalPrice = (purchase: PurchaseMovement) => {
     if (!purchase.purchasePrice) return null;
     const price = parseFloat(purchase.purchasePrice);
-    const qty = Math.abs(purchase.qtyDelta);
+    const qty = purchase.correctedQty;
     return (price * qty).toFixed(2);
   };
 
@@ -163,7 +212,7 @@ export default function StockDetails() {
                 <div>
                   <p className="text-xs text-muted-foreground mb-1">Общее количество</p>
                   <p className="text-2xl font-semibold text-foreground">
-                    {purchases.reduce((sum, p) => sum + Math.abs(p.qtyDelta), 0)}
+                    {purchases.reduce((sum, p) => sum + p.correctedQty, 0)}
                   </p>
                 </div>
                 <div>
@@ -184,7 +233,7 @@ export default function StockDetails() {
                       .filter(p => p.purchasePrice)
                       .reduce((sum, p) => {
                         const price = parseFloat(p.purchasePrice!);
-                        const qty = Math.abs(p.qtyDelta);
+                        const qty = p.correctedQty;
                         return sum + (price * qty);
                       }, 0)
                       .toFixed(2)} ₽
@@ -195,6 +244,39 @@ export default function StockDetails() {
           )}
         </Card>
 
+        {warehouseStock.length > 0 && (
+          <Card className="bg-card border-border mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Остатки по складам</CardTitle>
+                {canTransfer && warehouses.length > 1 && (
+                  <Button variant="outline" size="sm" onClick={() => setShowTransfer(true)} data-testid="button-open-transfer">
+                    <i className="fas fa-right-left mr-2"></i>
+                    Переместить
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-4 gap-4">
+                {warehouseStock.map((item) => (
+                  <div key={item.warehouseId} data-testid={`stock-warehouse-${item.warehouseId}`}>
+                    <p className="text-xs text-muted-foreground mb-1">{item.warehouseName}</p>
+                    <p className="text-2xl font-semibold font-mono text-foreground">{item.totalQty} шт</p>
+                    {item.reservedQty > 0 && (
+                      <p className="text-xs text-muted-foreground" data-testid={`stock-warehouse-reserved-${item.warehouseId}`}>
+                        в резерве {item.reservedQty}, доступно {item.totalQty - item.reservedQty}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {smart && <BarcodeAliases smart={smart} canEdit={canTransfer} />}
+
         <Card className="bg-card border-border">
           <CardHeader>
             <CardTitle>История покупок</CardTitle>
@@ -227,11 +309,14 @@ export default function StockDetails() {
                       <tr className="border-b transition-colors">
                         <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground w-[120px]">Дата</th>
                         <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground w-[180px]">Артикул</th>
+                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground w-[160px]">Поставщик</th>
                         <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground w-[100px]">Кол-во</th>
                         <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground w-[150px]">Цена закупа</th>
                         <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground min-w-[200px]">Комментарий</th>
                         <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground w-[100px]">Номер коробки</th>
                         <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground w-[120px]">Итого</th>
+                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground w-[120px]">Добавил</th>
+                        <th className="h-12 px-4 align-middle w-[60px]"></th>
                       </tr>
                     </thead>
                     <tbody className="[&_tr:last-child]:border-0">
@@ -245,6 +330,9 @@ export default function StockDetails() {
                             {format(new Date(purchase.createdAt), "dd.MM.yyyy")}
                           </td>
                           <td className="p-4 align-middle font-mono whitespace-nowrap">{purchase.article}</td>
+                          <td className="p-4 align-middle text-sm whitespace-nowrap" data-testid={`text-supplier-${purchase.id}`}>
+                            {purchase.supplierName || "—"}
+                          </td>
                           <td className="p-4 align-middle text-right">
                             {editingCell?.id === purchase.id && editingCell.field === 'qtyDelta' ? (
                               <div className="flex items-center justify-end gap-1">
@@ -283,11 +371,11 @@ export default function StockDetails() {
                               </div>
                             ) : (
                               <button
-                                onClick={() => handleEditStart(purchase.id, 'qtyDelta', Math.abs(purchase.qtyDelta))}
+                                onClick={() => handleEditStart(purchase.id, 'qtyDelta', purchase.correctedQty)}
                                 className="w-full text-right font-mono font-semibold hover:bg-muted px-2 py-1 rounded transition-colors group"
                                 data-testid={`button-edit-qty-${purchase.id}`}
                               >
-                                <span>{Math.abs(purchase.qtyDelta)}</span>
+                                <span>{purchase.correctedQty}</span>
                                 <i className="fas fa-edit text-xs ml-1 opacity-0 group-hover:opacity-50 transition-opacity"></i>
                               </button>
                             )}
@@ -440,6 +528,33 @@ export default function StockDetails() {
                           <td className="p-4 align-middle text-right font-mono font-bold whitespace-nowrap">
                             {getTotalPrice(purchase) ? `${getTotalPrice(purchase)} ₽` : "—"}
                           </td>
+                          <td className="p-4 align-middle text-sm whitespace-nowrap" data-testid={`text-created-by-${purchase.id}`}>
+                            {purchase.createdBy || "—"}
+                          </td>
+                          <td className="p-4 align-middle text-center">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => setAuditMovementId(purchase.id)}
+                              title="История изменений"
+                              data-testid={`button-audit-${purchase.id}`}
+                            >
+                              <i className="fas fa-clock-rotate-left text-xs text-muted-foreground"></i>
+                            </Button>
+                            {canTransfer && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                                onClick={() => window.open(`/api/labels/parts?movements=${purchase.id}&perUnit=1`, "_blank")}
+                                title="Печать этикеток"
+                                data-testid={`button-print-labels-${purchase.id}`}
+                              >
+                                <i className="fas fa-print text-xs text-muted-foreground"></i>
+                              </Button>
+                            )}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -454,131 +569,182 @@ export default function StockDetails() {
           </CardContent>
         </Card>
 
-        {/* Sales History Section */}
-        <Card className="bg-card border-border">
-          <CardHeader>
-            <CardTitle className="text-foreground">История продаж</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {salesLoading ? (
-              <div className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                  {[1, 2, 3, 4].map((i) => (
-                    <Skeleton key={i} className="h-24" />
+        {/* Supplier price comparison */}
+        {supplierPrices.length > 0 && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-foreground">Цены поставщиков</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Поставщик</TableHead>
+                    <TableHead className="text-right">Партий</TableHead>
+                    <TableHead className="text-right">Куплено</TableHead>
+                    <TableHead className="text-right">Мин. цена</TableHead>
+                    <TableHead className="text-right">Средняя цена</TableHead>
+                    <TableHead className="text-right">Последняя цена</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {supplierPrices.map((row) => (
+                    <TableRow key={row.supplierName} data-testid={`row-supplier-price-${row.supplierName}`}>
+                      <TableCell className="font-medium">{row.supplierName}</TableCell>
+                      <TableCell className="text-right font-mono">{row.lots}</TableCell>
+                      <TableCell className="text-right font-mono">{row.qty} шт</TableCell>
+                      <TableCell className="text-right font-mono">{row.minPrice.toFixed(2)} ₽</TableCell>
+                      <TableCell className="text-right font-mono">{row.averagePrice.toFixed(2)} ₽</TableCell>
+                      <TableCell className="text-right font-mono">{row.lastPrice.toFixed(2)} ₽</TableCell>
+                    </TableRow>
                   ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Sales History Section */}
+        {canSeeProfit && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-foreground">История продаж</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {salesLoading ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {[1, 2, 3, 4].map((i) => (
+                      <Skeleton key={i} className="h-24" />
+                    ))}
+                  </div>
+                  <Skeleton className="h-64" />
                 </div>
-                <Skeleton className="h-64" />
-              </div>
-            ) : salesData && salesData.sales.length > 0 ? (
-              <div className="space-y-6">
-                {/* Metrics Cards */}
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <Card className="bg-muted/50 border-border">
-                    <CardContent className="p-4">
-                      <p className="text-xs text-muted-foreground mb-1">Среднее время продажи</p>
-                      <p className="text-2xl font-bold text-foreground" data-testid="metric-avg-days">
-                        {salesData.metrics.averageDaysToSell} дн.
-                      </p>
-                    </CardContent>
-                  </Card>
+              ) : salesData && salesData.sales.length > 0 ? (
+                <div className="space-y-6">
+                  {/* Metrics Cards */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <Card className="bg-muted/50 border-border">
+                      <CardContent className="p-4">
+                        <p className="text-xs text-muted-foreground mb-1">Среднее время продажи</p>
+                        <p className="text-2xl font-bold text-foreground" data-testid="metric-avg-days">
+                          {salesData.metrics.averageDaysToSell} дн.
+                        </p>
+                      </CardContent>
+                    </Card>
                   
-                  <Card className="bg-muted/50 border-border">
-                    <CardContent className="p-4">
-                      <p className="text-xs text-muted-foreground mb-1">Продано / Куплено</p>
-                      <p className="text-2xl font-bold text-foreground" data-testid="metric-sell-through">
-                        {salesData.metrics.soldQuantity} из {salesData.metrics.totalPurchased} шт
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        ({salesData.metrics.sellThroughRate}%)
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-muted/50 border-border">
+                      <CardContent className="p-4">
+                        <p className="text-xs text-muted-foreground mb-1">Продано / Куплено</p>
+                        <p className="text-2xl font-bold text-foreground" data-testid="metric-sell-through">
+                          {salesData.metrics.soldQuantity} из {salesData.metrics.totalPurchased} шт
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          ({salesData.metrics.sellThroughRate}%)
+                        </p>
+                      </CardContent>
+                    </Card>
                   
-                  <Card className="bg-muted/50 border-border">
-                    <CardContent className="p-4">
-                      <p className="text-xs text-muted-foreground mb-1">Средняя доходность</p>
-                      <p className="text-2xl font-bold text-green-600" data-testid="metric-avg-profit">
-                        +{salesData.metrics.averageProfitPerUnit.toFixed(2)} ₽/шт
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-muted/50 border-border">
+                      <CardContent className="p-4">
+                        <p className="text-xs text-muted-foreground mb-1">Средняя доходность</p>
+                        <p className="text-2xl font-bold text-green-600" data-testid="metric-avg-profit">
+                          +{salesData.metrics.averageProfitPerUnit.toFixed(2)} ₽/шт
+                        </p>
+                      </CardContent>
+                    </Card>
                   
-                  <Card className="bg-muted/50 border-border">
-                    <CardContent className="p-4">
-                      <p className="text-xs text-muted-foreground mb-1">Процент доходности</p>
-                      <p className="text-2xl font-bold text-green-600" data-testid="metric-avg-margin">
-                        +{salesData.metrics.averageProfitMarginPercent.toFixed(1)}%
-                      </p>
-                    </CardContent>
-                  </Card>
-                </div>
+                    <Card className="bg-muted/50 border-border">
+                      <CardContent className="p-4">
+                        <p className="text-xs text-muted-foreground mb-1">Процент доходности</p>
+                        <p className="text-2xl font-bold text-green-600" data-testid="metric-avg-margin">
+                          +{salesData.metrics.averageProfitMarginPercent.toFixed(1)}%
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
 
-                {/* Sales Table */}
-                <div className="relative max-h-[300px] overflow-auto border rounded-md">
-                  <table className="w-full caption-bottom text-sm">
-                    <thead className="[&_tr]:border-b">
-                      <tr className="border-b transition-colors">
-                        <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Дата</th>
-                        <th className="h-12 px-4 text-center align-middle font-medium text-muted-foreground">Кол-во</th>
-                        <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Цена продажи</th>
-                        <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Цена закупа</th>
-                        <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Доставка</th>
-                        <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Прибыль</th>
-                        <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Доходность %</th>
-                        <th className="h-12 px-4 text-center align-middle font-medium text-muted-foreground">Время от покупки</th>
-                      </tr>
-                    </thead>
-                    <tbody className="[&_tr:last-child]:border-0">
-                      {salesData.sales.map((sale) => (
-                        <tr key={sale.id} className="border-b transition-colors" data-testid={`sale-row-${sale.id}`}>
-                          <td className="p-4 align-middle whitespace-nowrap">
-                            {format(new Date(sale.createdAt), "dd.MM.yyyy")}
-                          </td>
-                          <td className="p-4 align-middle text-center font-mono">
-                            {Math.abs(sale.qtyDelta)}
-                          </td>
-                          <td className="p-4 align-middle text-right font-mono">
-                            {sale.salePrice ? `${parseFloat(sale.salePrice).toFixed(2)} ₽` : "—"}
-                          </td>
-                          <td className="p-4 align-middle text-right font-mono">
-                            {sale.purchasePriceUsed > 0 ? `${sale.purchasePriceUsed.toFixed(2)} ₽` : "—"}
-                          </td>
-                          <td className="p-4 align-middle text-right font-mono">
-                            {sale.deliveryPrice ? `${parseFloat(sale.deliveryPrice).toFixed(2)} ₽` : "—"}
-                          </td>
-                          <td className="p-4 align-middle text-right font-mono font-bold">
-                            <span className={sale.profit >= 0 ? "text-green-600" : "text-red-600"}>
-                              {sale.profit >= 0 ? "+" : ""}{sale.profit.toFixed(2)} ₽
-                            </span>
-                          </td>
-                          <td className="p-4 align-middle text-right font-mono font-bold">
-                            <span className={sale.profitMarginPercent >= 0 ? "text-green-600" : "text-red-600"}>
-                              {sale.profitMarginPercent >= 0 ? "+" : ""}{sale.profitMarginPercent.toFixed(1)}%
-                            </span>
-                          </td>
-                          <td className="p-4 align-middle text-center">
-                            <Badge variant="secondary">
-                              {sale.daysFromPurchase !== null ? `${sale.daysFromPurchase} дн.` : "—"}
-                            </Badge>
-                          </td>
+                  {/* Sales Table */}
+                  <div className="relative max-h-[300px] overflow-auto border rounded-md">
+                    <table className="w-full caption-bottom text-sm">
+                      <thead className="[&_tr]:border-b">
+                        <tr className="border-b transition-colors">
+                          <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Дата</th>
+                          <th className="h-12 px-4 text-center align-middle font-medium text-muted-foreground">Кол-во</th>
+                          <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Цена продажи</th>
+                          <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Цена закупа</th>
+                          <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Доставка</th>
+                          <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Прибыль</th>
+                          <th className="h-12 px-4 text-right align-middle font-medium text-muted-foreground">Доходность %</th>
+                          <th className="h-12 px-4 text-center align-middle font-medium text-muted-foreground">Время от покупки</th>
+                          <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Продал</th>
                         </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
+                      </thead>
+                      <tbody className="[&_tr:last-child]:border-0">
+                        {salesData.sales.map((sale) => (
+                          <tr key={sale.id} className="border-b transition-colors" data-testid={`sale-row-${sale.id}`}>
+                            <td className="p-4 align-middle whitespace-nowrap">
+                              {format(new Date(sale.createdAt), "dd.MM.yyyy")}
+                            </td>
+                            <td className="p-4 align-middle text-center font-mono">
+                              {Math.abs(sale.qtyDelta)}
+                            </td>
+                            <td className="p-4 align-middle text-right font-mono">
+                              {sale.salePrice ? `${parseFloat(sale.salePrice).toFixed(2)} ₽` : "—"}
+                            </td>
+                            <td className="p-4 align-middle text-right font-mono">
+                              {sale.purchasePriceUsed > 0 ? `${sale.purchasePriceUsed.toFixed(2)} ₽` : "—"}
+                            </td>
+                            <td className="p-4 align-middle text-right font-mono">
+                              {sale.deliveryPrice ? `${parseFloat(sale.deliveryPrice).toFixed(2)} ₽` : "—"}
+                            </td>
+                            <td className="p-4 align-middle text-right font-mono font-bold">
+                              <span className={sale.profit >= 0 ? "text-green-600" : "text-red-600"}>
+                                {sale.profit >= 0 ? "+" : ""}{sale.profit.toFixed(2)} ₽
+                              </span>
+                            </td>
+                            <td className="p-4 align-middle text-right font-mono font-bold">
+                              <span className={sale.profitMarginPercent >= 0 ? "text-green-600" : "text-red-600"}>
+                                {sale.profitMarginPercent >= 0 ? "+" : ""}{sale.profitMarginPercent.toFixed(1)}%
+                              </span>
+                            </td>
+                            <td className="p-4 align-middle text-center">
+                              <Badge variant="secondary">
+                                {sale.daysFromPurchase !== null ? `${sale.daysFromPurchase} дн.` : "—"}
+                              </Badge>
+                            </td>
+                            <td className="p-4 align-middle text-sm whitespace-nowrap">
+                              {sale.createdBy || "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
 
-                <div className="mt-4 text-sm text-muted-foreground">
-                  Показано {salesData.sales.length} {salesData.sales.length === 1 ? 'продажа' : salesData.sales.length < 5 ? 'продажи' : 'продаж'}
+                  <div className="mt-4 text-sm text-muted-foreground">
+                    Показано {salesData.sales.length} {salesData.sales.length === 1 ? 'продажа' : salesData.sales.length < 5 ? 'продажи' : 'продаж'}
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="text-center py-8 text-muted-foreground">
-                <p>Продаж пока не было</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>Продаж пока не было</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <MovementAuditDialog movementId={auditMovementId} onClose={() => setAuditMovementId(null)} />
+      <TransferDialog
+        isOpen={showTransfer}
+        onClose={() => setShowTransfer(false)}
+        smart={smart}
+        articles={Array.from(new Set(purchases.map(p => p.article)))}
+        warehouses={warehouses}
+        stock={warehouseStock}
+      />
     </div>
   );
 }
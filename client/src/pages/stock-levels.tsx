@@ -7,13 +7,25 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { StockLevel } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { StockLevel, Warehouse } from "@shared/schema";
 
 export default function StockLevels() {
   const [filter, setFilter] = useState("");
+  const [warehouseId, setWarehouseId] = useState<string>("all");
+
+  const { data: warehouses = [] } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
 
   const { data: stockLevels, isLoading } = useQuery({
-    queryKey: ["/api/stock"],
+    queryKey: ["/api/stock", { warehouseId }],
+    queryFn: async () => {
+      const url = warehouseId === "all" ? "/api/stock" : `/api/stock?warehouseId=${warehouseId}`;
+      const response = await apiRequest("GET", url);
+      return response.json();
+    },
   });
 
   const filteredStock = (stockLevels as StockLevel[] || []).filter(item => {
@@ -55,6 +67,19 @@ export default function StockLevels() {
             <div className="flex items-center justify-between">
               <CardTitle>Текущие остатки</CardTitle>
               <div className="flex items-center gap-3">
+                <Select value={warehouseId} onValueChange={setWarehouseId}>
+                  <SelectTrigger className="w-48 text-sm" data-testid="select-warehouse-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Все склады</SelectItem>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <div className="relative">
                   <Input
                     placeholder="Фильтр артикулов..."
@@ -121,7 +146,14 @@ export default function StockLevels() {
                           <TableCell className="font-mono font-semibold">{item.smart}</TableCell>
                           <TableCell>{item.brand || "—"}</TableCell>
                           <TableCell className="max-w-xs truncate">{item.description || "—"}</TableCell>
-                          <TableCell className="text-right font-mono font-semibold">{item.totalQty}</TableCell>
+                          <TableCell className="text-right font-mono font-semibold">
+                            {item.totalQty}
+                            {!!item.reservedQty && (
+                              <span className="block text-xs font-normal text-muted-foreground">
+                                резерв {item.reservedQty}
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell className="text-center">
                             <Badge variant={status.variant} className="text-xs">
                               <i className={`${status.icon} text-xs mr-1`}></i>
@@ -0,0 +1,121 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertWarehouseSchema, type InsertWarehouse, type Warehouse } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+export default function Warehouses() {
+  const { toast } = useToast();
+
+  const { data: warehouses = [], isLoading } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const form = useForm<InsertWarehouse>({
+    resolver: zodResolver(insertWarehouseSchema),
+    defaultValues: {
+      name: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertWarehouse) => {
+      const res = await apiRequest("POST", "/api/warehouses", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouses"] });
+      toast({ description: "Склад создан" });
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message || "Ошибка создания склада",
+      });
+    },
+  });
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Склады</h1>
+        <p className="text-muted-foreground">
+          Помещения, по которым ведутся остатки
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Новый склад</CardTitle>
+          <CardDescription>Движения без указанного склада записываются на первый склад в списке</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+              className="flex gap-4 items-end"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Название</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Например: Склад на Лесной" {...field} data-testid="input-warehouse-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-create-warehouse">
+                <i className="fas fa-plus mr-2"></i>
+                Создать
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Все склады</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[80px]">ID</TableHead>
+                  <TableHead>Название</TableHead>
+                  <TableHead>Создан</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {warehouses.map((warehouse) => (
+                  <TableRow key={warehouse.id} data-testid={`row-warehouse-${warehouse.id}`}>
+                    <TableCell className="font-mono">{warehouse.id}</TableCell>
+                    <TableCell>{warehouse.name}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(warehouse.createdAt), 'dd.MM.yyyy')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type { Pool } from "pg";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import * as connectionsStorage from "./connections-storage";
+import * as poolRegistry from "./pool-registry";
+import { loginSchema, setupAdminSchema } from "@shared/schema";
+import { hasRole } from "@shared/permissions";
+import type { SafeUser, SetupStatus, UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SafeUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const PgStore = connectPgSimple(session);
+
+// Sessions live in the inventory database next to the users, so logins survive restarts
+// and are shared between processes. The store only calls query(), sent to whichever
+// inventory connection is active at the time
+const inventorySessionPool = {
+  async query(text: string, params?: unknown[]) {
+    const active = await storage.getActiveConnection('inventory');
+    const conn = active && await connectionsStorage.getConnectionById(active.id);
+    if (!conn) {
+      // express-session reads ENOENT from the store as "no session"
+      throw Object.assign(new Error('No active inventory connection'), { code: 'ENOENT' });
+    }
+    return poolRegistry.getPool(conn).query(text, params);
+  },
+} as unknown as Pool;
+
+// Hash password as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Proves access to the server for first-run setup, before any account exists
+// Taken from SETUP_TOKEN, otherwise generated per process and printed to the log
+const setupToken = process.env.SETUP_TOKEN || randomBytes(16).toString("hex");
+
+function hasSetupToken(req: Request): boolean {
+  const supplied = Buffer.from(req.get("x-setup-token") || "");
+  const expected = Buffer.from(setupToken);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+// The only connection routes needed to set up an inventory connection:
+// create, test and configure
+const SETUP_ROUTES = /^\/api\/db-connections(\/test|\/\d+\/configure)?$/;
+
+// Only allow requests from logged-in users
+// Without an active inventory connection there is nowhere to keep users, so the
+// setup routes are open to requests carrying the setup token until one is configured
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+
+  try {
+    if (req.method === "POST" && SETUP_ROUTES.test(req.originalUrl.split("?")[0]) && !(await storage.getActiveConnection('inventory'))) {
+      if (!hasSetupToken(req)) {
+        return res.status(401).json({ error: "Неверный код настройки" });
+      }
+      res.locals.setupMode = true;
+      return next();
+    }
+  } catch (error) {
+    console.error("Auth check error:", error);
+  }
+
+  res.status(401).json({ error: "Требуется авторизация" });
+}
+
+// Only allow users whose role is at least `role`
+// Setup requests let through by requireAuth have no user and skip the check
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (res.locals.setupMode) {
+      return next();
+    }
+    if (!req.user || !hasRole(req.user.role, role)) {
+      return res.status(403).json({ error: "Недостаточно прав" });
+    }
+    next();
+  };
+}
+
+// Create first account from ADMIN_USERNAME/ADMIN_PASSWORD when no users exist yet
+export async function bootstrapAdminUser(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if ((await storage.getUserCount()) > 0) {
+    return;
+  }
+
+  if (!username || !password) {
+    console.warn('No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first account.');
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    passwordHash: await hashPassword(password),
+    displayName: username,
+    role: 'admin',
+  });
+  console.log(`Initial user "${username}" created`);
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    console.warn('SESSION_SECRET is not set, sessions will not survive a restart');
+  }
+
+  if (!process.env.SETUP_TOKEN) {
+    console.log(`Setup token for the first-run setup screen: ${setupToken}`);
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new PgStore({
+      pool: inventorySessionPool,
+      schemaName: "inventory",
+      tableName: "sessions",
+    }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await comparePasswords(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      const { passwordHash, ...safe } = user;
+      return done(null, safe);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUserById(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Введите имя пользователя и пароль" });
+    }
+
+    passport.authenticate("local", (error: any, user: Express.User | false) => {
+      if (error) {
+        console.error("Login error:", error);
+        return res.status(500).json({ error: "Failed to log in" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Неверное имя пользователя или пароль" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      res.status(204).send();
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Требуется авторизация" });
+    }
+    res.json(req.user);
+  });
+
+  // First-run state, so the client can show setup instead of a login nobody can pass
+  app.get("/api/setup-status", async (_req, res) => {
+    try {
+      const needsConnection = !(await storage.getActiveConnection('inventory'));
+      const status: SetupStatus = {
+        needsConnection,
+        needsAdmin: !needsConnection && (await storage.getUserCount()) === 0,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Setup status error:", error);
+      res.status(500).json({ error: "Failed to get setup status" });
+    }
+  });
+
+  // Create the first admin when the inventory database has no accounts, and log in as it
+  app.post("/api/setup/admin", async (req, res, next) => {
+    try {
+      if (!hasSetupToken(req)) {
+        return res.status(401).json({ error: "Неверный код настройки" });
+      }
+
+      const parsed = setupAdminSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid user data" });
+      }
+
+      if (!(await storage.getActiveConnection('inventory'))) {
+        return res.status(409).json({ error: "Сначала настройте подключение к базе учёта" });
+      }
+      if ((await storage.getUserCount()) > 0) {
+        return res.status(409).json({ error: "Учётные записи уже созданы" });
+      }
+
+      const { password, ...data } = parsed.data;
+      const user = await storage.createUser({
+        ...data,
+        passwordHash: await hashPassword(password),
+        role: 'admin',
+      });
+
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      console.error("Setup admin error:", error);
+      res.status(500).json({ error: "Failed to create admin user" });
+    }
+  });
+
+  // Every other API route requires a session
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,59 @@
+import type { Pool, PoolClient } from 'pg';
+
+type Queryable = Pool | PoolClient;
+
+export async function boxExists(db: Queryable, boxNumber: string): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM inventory.boxes WHERE box_number = $1`,
+    [boxNumber]
+  );
+  return result.rows.length > 0;
+}
+
+// Units of a SMART code in a box: sum of all movements that carry the box number
+export async function getBoxQty(db: Queryable, boxNumber: string, smart: string): Promise<number> {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(qty_delta), 0)::int AS qty
+     FROM inventory.movements
+     WHERE box_number = $1 AND smart = $2`,
+    [boxNumber, smart]
+  );
+  return result.rows[0].qty;
+}
+
+export async function getBoxContents(db: Queryable, boxNumber: string): Promise<Array<{ smart: string; qty: number }>> {
+  const result = await db.query(
+    `SELECT smart, SUM(qty_delta)::int AS qty
+     FROM inventory.movements
+     WHERE box_number = $1
+     GROUP BY smart
+     HAVING SUM(qty_delta) > 0
+     ORDER BY smart`,
+    [boxNumber]
+  );
+  return result.rows.map(row => ({ smart: row.smart, qty: row.qty }));
+}
+
+// Boxes holding units of a SMART code in a warehouse, oldest box first
+export async function getBoxesWithSmart(db: Queryable, smart: string, warehouseId: number): Promise<Array<{ boxNumber: string; qty: number }>> {
+  const result = await db.query(
+    `SELECT box_number, SUM(qty_delta)::int AS qty
+     FROM inventory.movements
+     WHERE smart = $1 AND warehouse_id = $2 AND box_number IS NOT NULL
+     GROUP BY box_number
+     HAVING SUM(qty_delta) > 0
+     ORDER BY MIN(created_at), MIN(id)`,
+    [smart, warehouseId]
+  );
+  return result.rows.map(row => ({ boxNumber: row.box_number, qty: row.qty }));
+}
+
+// Register every box number already used by movements
+// Used once when the box registry is first created
+export async function backfillBoxes(db: Queryable): Promise<void> {
+  await db.query(
+    `INSERT INTO inventory.boxes (box_number)
+     SELECT DISTINCT box_number FROM inventory.movements WHERE box_number IS NOT NULL AND box_number <> ''
+     ON CONFLICT (box_number) DO NOTHING`
+  );
+}
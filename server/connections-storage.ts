@@ -1,20 +1,88 @@
-import { promises as fs } from 'fs';
-import { join } from 'path';
-import type { DbConnection, SafeDbConnection, InsertDbConnection, ConnectionRole } from '@shared/schema';
+import { promises as fs, watch, type FSWatcher } from 'fs';
+import { basename, dirname, join } from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { DbConnection, SafeDbConnection, InsertDbConnection, ConnectionRole, NormalizationRules } from '@shared/schema';
 
 const CONNECTIONS_FILE = join(process.cwd(), 'db-connections.json');
 
+// Previous versions kept as db-connections.json.bak.1 (newest) .. .bak.N
+const BACKUP_COUNT = parseInt(process.env.DB_CONNECTIONS_BACKUPS || '5', 10);
+
+// Parsed file contents, dropped whenever the file changes on disk
+let cachedConnections: DbConnection[] | null = null;
+let watcher: FSWatcher | null = null;
+
+// Tail of the queue that serializes read-modify-write cycles in this process
+let fileLock: Promise<unknown> = Promise.resolve();
+
+// Passwords are stored as enc:v1:<iv>:<auth tag>:<ciphertext> (AES-256-GCM, base64 parts)
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+let encryptionKey: Buffer | null = null;
+let missingKeyWarned = false;
+
+// Key is derived from DB_CONNECTIONS_KEY; losing it makes stored passwords unreadable
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const secret = process.env.DB_CONNECTIONS_KEY;
+    if (!secret) {
+      throw new Error('DB_CONNECTIONS_KEY is not set, connection passwords cannot be encrypted');
+    }
+    encryptionKey = scryptSync(secret, 'db-connections', 32);
+  }
+  return encryptionKey;
+}
+
+function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function encryptPassword(password: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(password, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+function decryptPassword(value: string): string {
+  // Plaintext left from before encryption (no key configured yet)
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [iv, tag, encrypted] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Failed to decrypt connection password, check DB_CONNECTIONS_KEY');
+  }
+}
+
 // Helper to strip password from connection object
 function toSafeConnection(conn: DbConnection): SafeDbConnection {
   const { password, ...safe } = conn;
   return safe as SafeDbConnection;
 }
 
-// Read connections from JSON file
-async function readConnections(): Promise<DbConnection[]> {
+// Run fn after every earlier locked operation has finished
+function withFileLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = fileLock.then(fn);
+  fileLock = run.catch(() => {});
+  return run;
+}
+
+// Load connections from JSON file or cache (passwords stay encrypted)
+// Callers must not mutate the returned array or its entries
+async function loadConnections(): Promise<DbConnection[]> {
+  if (cachedConnections) {
+    return cachedConnections;
+  }
+
   try {
     const data = await fs.readFile(CONNECTIONS_FILE, 'utf-8');
-    return JSON.parse(data);
+    cachedConnections = JSON.parse(data) as DbConnection[];
   } catch (error: any) {
     // If file doesn't exist, return empty array
     if (error.code === 'ENOENT') {
@@ -22,11 +90,97 @@ async function readConnections(): Promise<DbConnection[]> {
     }
     throw error;
   }
+  return cachedConnections;
+}
+
+// Encrypt passwords written by older versions, once a key is configured
+// Returns the same array when there is nothing to migrate
+function migratePlaintextPasswords(connections: DbConnection[]): DbConnection[] {
+  if (connections.every(c => !c.password || isEncrypted(c.password))) {
+    return connections;
+  }
+
+  if (!process.env.DB_CONNECTIONS_KEY) {
+    if (!missingKeyWarned) {
+      console.warn('DB_CONNECTIONS_KEY is not set, db-connections.json keeps plaintext passwords');
+      missingKeyWarned = true;
+    }
+    return connections;
+  }
+
+  return connections.map(c =>
+    c.password && !isEncrypted(c.password) ? { ...c, password: encryptPassword(c.password) } : c
+  );
+}
+
+// Read connections for lookups, migrating plaintext passwords on first read
+async function readConnections(): Promise<DbConnection[]> {
+  const connections = await loadConnections();
+  if (migratePlaintextPasswords(connections) === connections) {
+    return connections;
+  }
+
+  return withFileLock(async () => {
+    const current = await loadConnections();
+    const migrated = migratePlaintextPasswords(current);
+    if (migrated !== current) {
+      // No backup: it would keep the plaintext passwords around
+      await writeConnections(migrated, false);
+      console.log('Encrypted plaintext passwords in db-connections.json');
+    }
+    return migrated;
+  });
+}
+
+// Copy of the current connections for a change made under the file lock
+async function readConnectionsForUpdate(): Promise<DbConnection[]> {
+  return [...migratePlaintextPasswords(await loadConnections())];
+}
+
+// Shift db-connections.json.bak.1..N-1 up by one and copy the current file to .bak.1
+async function rotateBackups(): Promise<void> {
+  if (BACKUP_COUNT <= 0) {
+    return;
+  }
+
+  const ignoreMissing = (error: any) => {
+    if (error.code !== 'ENOENT') throw error;
+  };
+  for (let i = BACKUP_COUNT - 1; i >= 1; i--) {
+    await fs.rename(`${CONNECTIONS_FILE}.bak.${i}`, `${CONNECTIONS_FILE}.bak.${i + 1}`).catch(ignoreMissing);
+  }
+  await fs.copyFile(CONNECTIONS_FILE, `${CONNECTIONS_FILE}.bak.1`).catch(ignoreMissing);
+}
+
+// Write connections to JSON file via temp file + rename, so readers never see a partial file
+// Must be called under the file lock
+async function writeConnections(connections: DbConnection[], backup = true): Promise<void> {
+  const tempFile = `${CONNECTIONS_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(connections, null, 2), 'utf-8');
+  if (backup) {
+    await rotateBackups();
+  }
+  await fs.rename(tempFile, CONNECTIONS_FILE);
+  cachedConnections = connections;
 }
 
-// Write connections to JSON file
-async function writeConnections(connections: DbConnection[]): Promise<void> {
-  await fs.writeFile(CONNECTIONS_FILE, JSON.stringify(connections, null, 2), 'utf-8');
+// Drop the cache whenever db-connections.json changes, so manual edits apply without a restart
+// The directory is watched because every write replaces the file
+export function watchConnectionsFile(): void {
+  if (watcher) {
+    return;
+  }
+
+  const fileName = basename(CONNECTIONS_FILE);
+  watcher = watch(dirname(CONNECTIONS_FILE), (_event, changed) => {
+    if (changed === fileName) {
+      cachedConnections = null;
+    }
+  });
+  watcher.on('error', (error) => {
+    console.error('Error watching db-connections.json:', error);
+  });
+  watcher.unref();
 }
 
 // Get all connections (without passwords)
@@ -35,10 +189,15 @@ export async function getConnections(): Promise<SafeDbConnection[]> {
   return connections.map(toSafeConnection);
 }
 
-// Get connection by ID (with password)
+// Get connection by ID (with decrypted password)
+// Server-side only: the result must never be sent to the client
 export async function getConnectionById(id: number): Promise<DbConnection | null> {
   const connections = await readConnections();
-  return connections.find(c => c.id === id) || null;
+  const connection = connections.find(c => c.id === id);
+  if (!connection) {
+    return null;
+  }
+  return { ...connection, password: decryptPassword(connection.password) };
 }
 
 // Get active connection by role
@@ -50,152 +209,193 @@ export async function getActiveConnectionByRole(role: ConnectionRole): Promise<S
 
 // Create new connection
 export async function createConnection(data: InsertDbConnection & { isActive?: boolean }): Promise<SafeDbConnection> {
-  const connections = await readConnections();
+  return withFileLock(async () => {
+    const connections = await readConnectionsForUpdate();
 
-  // Generate new ID
-  const maxId = connections.length > 0 ? Math.max(...connections.map(c => c.id)) : 0;
-  const newId = maxId + 1;
-
-  // Create new connection object
-  const now = new Date();
-  const newConnection: DbConnection = {
-    id: newId,
-    name: data.name,
-    host: data.host,
-    port: data.port || 5432,
-    database: data.database,
-    username: data.username,
-    password: data.password,
-    ssl: data.ssl || null,
-    role: data.role || null,
-    tableName: data.tableName || null,
-    fieldMapping: data.fieldMapping || null,
-    isActive: data.isActive !== undefined ? data.isActive : false,
-    createdAt: now,
-    updatedAt: now,
-  };
+    // Generate new ID
+    const maxId = connections.length > 0 ? Math.max(...connections.map(c => c.id)) : 0;
+    const newId = maxId + 1;
+
+    // Create new connection object
+    const now = new Date();
+    const newConnection: DbConnection = {
+      id: newId,
+      name: data.name,
+      host: data.host,
+      port: data.port || 5432,
+      database: data.database,
+      username: data.username,
+      password: encryptPassword(data.password),
+      ssl: data.ssl || null,
+      role: data.role || null,
+      tableName: data.tableName || null,
+      fieldMapping: data.fieldMapping || null,
+      normalizationRules: null,
+      isActive: data.isActive !== undefined ? data.isActive : false,
+      createdAt: now,
+      updatedAt: now,
+    };
 
-  connections.push(newConnection);
-  await writeConnections(connections);
+    connections.push(newConnection);
+    await writeConnections(connections);
 
-  return toSafeConnection(newConnection);
+    return toSafeConnection(newConnection);
+  });
 }
 
 // Update connection
-export async function updateConnection(id: number, data: Partial<InsertDbConnection> & { isActive?: boolean }): Promise<SafeDbConnection | null> {
-  const connections = await readConnections();
-  const index = connections.findIndex(c => c.id === id);
+export async function updateConnection(
+  id: number,
+  data: Partial<InsertDbConnection> & { isActive?: boolean; normalizationRules?: NormalizationRules | null }
+): Promise<SafeDbConnection | null> {
+  return withFileLock(async () => {
+    const connections = await readConnectionsForUpdate();
+    const index = connections.findIndex(c => c.id === id);
 
-  if (index === -1) {
-    return null;
-  }
+    if (index === -1) {
+      return null;
+    }
 
-  // Update connection
-  connections[index] = {
-    ...connections[index],
-    ...data,
-    updatedAt: new Date(),
-  };
+    // Update connection
+    connections[index] = {
+      ...connections[index],
+      ...data,
+      ...(data.password !== undefined ? { password: encryptPassword(data.password) } : {}),
+      updatedAt: new Date(),
+    };
 
-  await writeConnections(connections);
+    await writeConnections(connections);
 
-  return toSafeConnection(connections[index]);
+    return toSafeConnection(connections[index]);
+  });
 }
 
-// Deactivate all connections with specified role except given ID
-export async function deactivateConnectionsByRole(role: ConnectionRole, exceptId?: number): Promise<void> {
-  const connections = await readConnections();
-  const updated = connections.map(c => {
-    if (c.role === role && c.id !== exceptId) {
-      return { ...c, isActive: false, updatedAt: new Date() };
+// Set role, table and mapping of a connection in one write
+// A connection given a role becomes the active one for it; others with that role are deactivated
+export async function configureConnection(
+  id: number,
+  config: Pick<InsertDbConnection, 'role' | 'tableName' | 'fieldMapping'>
+): Promise<SafeDbConnection | null> {
+  return withFileLock(async () => {
+    const connections = await readConnectionsForUpdate();
+    const index = connections.findIndex(c => c.id === id);
+
+    if (index === -1) {
+      return null;
     }
-    return c;
+
+    const now = new Date();
+    const updated = connections.map(c => {
+      if (c.id === id) {
+        return { ...c, ...config, isActive: config.role ? true : false, updatedAt: now };
+      }
+      if (config.role && c.role === config.role) {
+        return { ...c, isActive: false, updatedAt: now };
+      }
+      return c;
+    });
+
+    await writeConnections(updated);
+
+    return toSafeConnection(updated[index]);
   });
-  await writeConnections(updated);
 }
 
 // Delete connection
 export async function deleteConnection(id: number): Promise<boolean> {
-  const connections = await readConnections();
-  const filtered = connections.filter(c => c.id !== id);
+  return withFileLock(async () => {
+    const connections = await readConnectionsForUpdate();
+    const filtered = connections.filter(c => c.id !== id);
 
-  if (filtered.length === connections.length) {
-    return false; // Connection not found
-  }
+    if (filtered.length === connections.length) {
+      return false; // Connection not found
+    }
 
-  await writeConnections(filtered);
-  return true;
+    await writeConnections(filtered);
+    return true;
+  });
 }
 
-// Initialize with default connections
+// Initialize with default connections from DEFAULT_DB_* environment variables
 export async function initializeDefaultConnections(): Promise<void> {
-  const existing = await readConnections();
+  return withFileLock(async () => {
+    const existing = await readConnectionsForUpdate();
 
-  // Check if default connections already exist
-  if (existing.some(c => c.name.startsWith('По умолчанию'))) {
-    console.log('Default connections already exist, skipping...');
-    return;
-  }
+    // Check if default connections already exist
+    if (existing.some(c => c.name.startsWith('По умолчанию'))) {
+      console.log('Default connections already exist, skipping...');
+      return;
+    }
 
-  // External database credentials (parts_info)
-  const externalHost = '81.30.105.134';
-  const externalPort = 5404;
-  const externalDatabase = 'parts_info';
-  const externalUsername = 'admin';
-  const externalPassword = 'Password123';
-
-  const now = new Date();
-
-  // Create SMART connection
-  const smartConnection: DbConnection = {
-    id: 1,
-    name: 'По умолчанию (SMART)',
-    host: externalHost,
-    port: externalPort,
-    database: externalDatabase,
-    username: externalUsername,
-    password: externalPassword,
-    ssl: null,
-    role: 'smart',
-    tableName: 'public.smart',
-    fieldMapping: {
-      smart: 'smart',
-      articles: 'артикул',
-      name: 'наименование',
-      brand: 'бренд',
-      description: 'коннект_бренд',
-    },
-    isActive: true,
-    createdAt: now,
-    updatedAt: now,
-  };
+    // External database credentials (parts_info)
+    const externalHost = process.env.DEFAULT_DB_HOST;
+    const externalPort = parseInt(process.env.DEFAULT_DB_PORT || '5432', 10);
+    const externalDatabase = process.env.DEFAULT_DB_NAME;
+    const externalUsername = process.env.DEFAULT_DB_USER;
+    const externalPassword = process.env.DEFAULT_DB_PASSWORD || '';
 
-  // Create Inventory connection
-  const inventoryConnection: DbConnection = {
-    id: 2,
-    name: 'По умолчанию (Учёт)',
-    host: externalHost,
-    port: externalPort,
-    database: externalDatabase,
-    username: externalUsername,
-    password: externalPassword,
-    ssl: null,
-    role: 'inventory',
-    tableName: 'inventory.movements',
-    fieldMapping: {
-      id: 'id',
-      smart: 'smart',
-      article: 'article',
-      qtyDelta: 'qty_delta',
-      reason: 'reason',
-      note: 'note',
-      createdAt: 'created_at',
-    },
-    isActive: true,
-    createdAt: now,
-    updatedAt: now,
-  };
+    if (!externalHost || !externalDatabase || !externalUsername) {
+      console.log('DEFAULT_DB_HOST, DEFAULT_DB_NAME and DEFAULT_DB_USER are not set, skipping default connections');
+      return;
+    }
 
-  await writeConnections([smartConnection, inventoryConnection]);
-  console.log('Default connections created successfully');
+    const encryptedPassword = encryptPassword(externalPassword);
+
+    const now = new Date();
+
+    // Create SMART connection
+    const smartConnection: DbConnection = {
+      id: 1,
+      name: 'По умолчанию (SMART)',
+      host: externalHost,
+      port: externalPort,
+      database: externalDatabase,
+      username: externalUsername,
+      password: encryptedPassword,
+      ssl: null,
+      role: 'smart',
+      tableName: 'public.smart',
+      fieldMapping: {
+        smart: 'smart',
+        articles: 'артикул',
+        name: 'наименование',
+        brand: 'бренд',
+        description: 'коннект_бренд',
+      },
+      normalizationRules: null,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Create Inventory connection
+    const inventoryConnection: DbConnection = {
+      id: 2,
+      name: 'По умолчанию (Учёт)',
+      host: externalHost,
+      port: externalPort,
+      database: externalDatabase,
+      username: externalUsername,
+      password: encryptedPassword,
+      ssl: null,
+      role: 'inventory',
+      tableName: 'inventory.movements',
+      fieldMapping: {
+        id: 'id',
+        smart: 'smart',
+        article: 'article',
+        qtyDelta: 'qty_delta',
+        reason: 'reason',
+        note: 'note',
+        createdAt: 'created_at',
+      },
+      normalizationRules: null,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await writeConnections([smartConnection, inventoryConnection]);
+    console.log('Default connections created successfully');
+  });
 }
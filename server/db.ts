@@ -1,6 +1,8 @@
 import { Pool } from 'pg';
 import { drizzle } from 'drizzle-orm/node-postgres';
 import * as schema from "@shared/schema";
+import { replayAllocations } from "./lots";
+import { backfillBoxes } from "./boxes";
 
 // DATABASE_URL is now optional - connections are stored in JSON file
 // These DB instances are only used for backwards compatibility if needed
@@ -40,7 +42,10 @@ export async function ensureExternalDbSchema(connectionDetails: any) {
         ('purchase', 'Добавление нового товара'),
         ('sale', 'Продажа'),
         ('return', 'Возврат'),
-        ('writeoff', 'Списание')
+        ('writeoff', 'Списание'),
+        ('correction', 'Корректировка'),
+        ('transfer', 'Перемещение'),
+        ('box_move', 'Перемещение между коробками')
       ON CONFLICT (code) DO NOTHING
     `);
     
@@ -96,7 +101,14 @@ export async function ensureExternalDbSchema(connectionDetails: any) {
       { name: 'box_number', type: 'VARCHAR(50)' },
       { name: 'track_number', type: 'TEXT' },
       { name: 'shipping_method_id', type: 'INTEGER' },
-      { name: 'sale_status', type: 'VARCHAR(50)' }
+      { name: 'sale_status', type: 'VARCHAR(50)' },
+      { name: 'created_by', type: 'VARCHAR(100)' },
+      { name: 'corrects_movement_id', type: 'INTEGER' },
+      { name: 'warehouse_id', type: 'INTEGER' },
+      { name: 'paired_movement_id', type: 'INTEGER' },
+      { name: 'order_id', type: 'INTEGER' },
+      { name: 'supplier_id', type: 'INTEGER' },
+      { name: 'purchase_order_line_id', type: 'INTEGER' }
     ];
     
     for (const column of columns) {
@@ -106,6 +118,272 @@ export async function ensureExternalDbSchema(connectionDetails: any) {
       `);
     }
     
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movements_corrects_idx ON inventory.movements (corrects_movement_id)`);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movements_order_idx ON inventory.movements (order_id)`);
+    
+    // Create customers and orders tables (sales are linked to an order via order_id)
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.customers (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        phone VARCHAR(50),
+        email VARCHAR(255),
+        note TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.orders (
+        id SERIAL PRIMARY KEY,
+        customer_id INTEGER NOT NULL REFERENCES inventory.customers(id),
+        note TEXT,
+        created_by VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS orders_customer_idx ON inventory.orders (customer_id)`);
+    
+    // Create suppliers and purchase orders (purchases received against a line carry purchase_order_line_id)
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.suppliers (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        contact TEXT,
+        note TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.purchase_orders (
+        id SERIAL PRIMARY KEY,
+        supplier_id INTEGER NOT NULL REFERENCES inventory.suppliers(id),
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        note TEXT,
+        created_by VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        closed_at TIMESTAMP
+      )
+    `);
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.purchase_order_lines (
+        id SERIAL PRIMARY KEY,
+        purchase_order_id INTEGER NOT NULL REFERENCES inventory.purchase_orders(id),
+        smart VARCHAR NOT NULL,
+        article TEXT NOT NULL,
+        qty INTEGER NOT NULL CHECK (qty > 0),
+        price NUMERIC(10, 2)
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS purchase_order_lines_order_idx ON inventory.purchase_order_lines (purchase_order_id)`);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movements_po_line_idx ON inventory.movements (purchase_order_line_id)`);
+    
+    // Create warehouses table; movements recorded before warehouses existed go to the first one
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.warehouses (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`
+      INSERT INTO inventory.warehouses (name)
+      SELECT 'Основной склад'
+      WHERE NOT EXISTS (SELECT 1 FROM inventory.warehouses)
+    `);
+    await externalPool.query(`
+      UPDATE inventory.movements
+      SET warehouse_id = (SELECT MIN(id) FROM inventory.warehouses)
+      WHERE warehouse_id IS NULL
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movements_smart_warehouse_idx ON inventory.movements (smart, warehouse_id)`);
+    
+    // Create audit table for movement edits (old/new value per changed field)
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.movement_audit (
+        id SERIAL PRIMARY KEY,
+        movement_id INTEGER NOT NULL,
+        field VARCHAR(50) NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        changed_by VARCHAR(100),
+        changed_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movement_audit_movement_idx ON inventory.movement_audit (movement_id)`);
+    
+    // Create users table for login accounts
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(100) NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        display_name TEXT,
+        role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    
+    // Login sessions (connect-pg-simple layout)
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.sessions (
+        sid VARCHAR NOT NULL PRIMARY KEY,
+        sess JSON NOT NULL,
+        expire TIMESTAMP(6) NOT NULL
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS sessions_expire_idx ON inventory.sessions (expire)`);
+    
+    // Accounts created before roles existed: add column and make the oldest one admin
+    // so there is always someone able to manage users
+    await externalPool.query(`ALTER TABLE inventory.users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'viewer'`);
+    await externalPool.query(`
+      UPDATE inventory.users SET role = 'admin'
+      WHERE id = (SELECT MIN(id) FROM inventory.users)
+        AND NOT EXISTS (SELECT 1 FROM inventory.users WHERE role = 'admin')
+    `);
+    
+    // Create FIFO lot allocations table (which purchase lots each sale/writeoff consumed)
+    // On first run the table is created and backfilled from movement history atomically
+    const lotsTable = await externalPool.query(`SELECT to_regclass('inventory.lot_allocations') AS name`);
+    if (lotsTable.rows[0].name === null) {
+      const client = await externalPool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(`
+          CREATE TABLE inventory.lot_allocations (
+            id SERIAL PRIMARY KEY,
+            movement_id INTEGER NOT NULL,
+            purchase_id INTEGER NOT NULL,
+            qty INTEGER NOT NULL,
+            created_at TIMESTAMP DEFAULT NOW() NOT NULL
+          )
+        `);
+        await replayAllocations(client);
+        await client.query('COMMIT');
+        console.log('Lot allocations backfilled from movement history');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS lot_allocations_movement_idx ON inventory.lot_allocations (movement_id)`);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS lot_allocations_purchase_idx ON inventory.lot_allocations (purchase_id)`);
+    
+    // Create box registry; on first run it is seeded from box numbers already used by movements
+    const boxesTable = await externalPool.query(`SELECT to_regclass('inventory.boxes') AS name`);
+    if (boxesTable.rows[0].name === null) {
+      const client = await externalPool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(`
+          CREATE TABLE inventory.boxes (
+            id SERIAL PRIMARY KEY,
+            box_number VARCHAR(50) NOT NULL UNIQUE,
+            label TEXT,
+            capacity_note TEXT,
+            created_at TIMESTAMP DEFAULT NOW() NOT NULL
+          )
+        `);
+        await backfillBoxes(client);
+        await client.query('COMMIT');
+        console.log('Box registry created from existing box numbers');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS movements_box_idx ON inventory.movements (box_number, smart)`);
+    
+    // Create reservations table (stock held for customers before the sale)
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.reservations (
+        id SERIAL PRIMARY KEY,
+        smart VARCHAR NOT NULL,
+        article TEXT NOT NULL,
+        qty INTEGER NOT NULL CHECK (qty > 0),
+        warehouse_id INTEGER NOT NULL,
+        customer_note TEXT,
+        expires_at TIMESTAMP NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'active',
+        sale_movement_id INTEGER,
+        created_by VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        closed_at TIMESTAMP
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS reservations_active_idx ON inventory.reservations (smart, warehouse_id) WHERE status = 'active'`);
+    
+    // Supplier barcodes mapped to SMART codes for scanning
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.barcodes (
+        barcode VARCHAR(64) PRIMARY KEY,
+        smart VARCHAR NOT NULL,
+        note TEXT,
+        created_by VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS barcodes_smart_idx ON inventory.barcodes (smart)`);
+    
+    // Local copy of the SMART reference with normalized keys, refreshed from the SMART connection
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.smart_cache (
+        smart VARCHAR PRIMARY KEY,
+        articles TEXT[] NOT NULL DEFAULT '{}',
+        name TEXT,
+        brand TEXT,
+        description TEXT,
+        smart_key TEXT NOT NULL,
+        article_keys TEXT[] NOT NULL DEFAULT '{}',
+        synced_at TIMESTAMP NOT NULL
+      )
+    `);
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.smart_cache_sync (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        state VARCHAR(20) NOT NULL DEFAULT 'empty',
+        source_key TEXT,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        last_success_at TIMESTAMP,
+        inserted INTEGER NOT NULL DEFAULT 0,
+        updated INTEGER NOT NULL DEFAULT 0,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        error TEXT
+      )
+    `);
+    // Search index: one row per normalized SMART code and article of each cached SMART
+    await externalPool.query(`
+      CREATE TABLE IF NOT EXISTS inventory.smart_cache_keys (
+        smart VARCHAR NOT NULL REFERENCES inventory.smart_cache (smart) ON DELETE CASCADE,
+        key TEXT NOT NULL
+      )
+    `);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS smart_cache_keys_smart_idx ON inventory.smart_cache_keys (smart)`);
+    await externalPool.query(`CREATE INDEX IF NOT EXISTS smart_cache_keys_prefix_idx ON inventory.smart_cache_keys (key text_pattern_ops)`);
+    // Substring search needs pg_trgm; without it searches still work, only slower
+    try {
+      await externalPool.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+      await externalPool.query(`CREATE INDEX IF NOT EXISTS smart_cache_keys_trgm_idx ON inventory.smart_cache_keys USING gin (key gin_trgm_ops)`);
+    } catch (error) {
+      console.warn('pg_trgm is unavailable, SMART substring search will not be indexed:', error instanceof Error ? error.message : error);
+    }
+    // Caches filled before the index existed
+    await externalPool.query(`
+      INSERT INTO inventory.smart_cache_keys (smart, key)
+      SELECT DISTINCT c.smart, key
+      FROM inventory.smart_cache c, unnest(array_append(c.article_keys, c.smart_key)) AS key
+      WHERE key <> ''
+        AND NOT EXISTS (SELECT 1 FROM inventory.smart_cache_keys)
+    `);
+    await externalPool.query(`INSERT INTO inventory.smart_cache_sync (id) VALUES (1) ON CONFLICT (id) DO NOTHING`);
+    // A refresh interrupted by a restart never finished
+    await externalPool.query(`UPDATE inventory.smart_cache_sync SET state = 'error', error = 'Обновление прервано перезапуском' WHERE state = 'running'`);
+    
     // Create stock VIEW (grouped by SMART code only to aggregate across all articles)
     await externalPool.query(`
       CREATE OR REPLACE VIEW inventory.stock AS
@@ -117,6 +395,18 @@ export async function ensureExternalDbSchema(connectionDetails: any) {
       HAVING SUM(qty_delta) > 0
     `);
     
+    // Per-warehouse stock VIEW
+    await externalPool.query(`
+      CREATE OR REPLACE VIEW inventory.stock_by_warehouse AS
+      SELECT 
+        smart,
+        warehouse_id,
+        SUM(qty_delta) as total_qty
+      FROM inventory.movements
+      GROUP BY smart, warehouse_id
+      HAVING SUM(qty_delta) > 0
+    `);
+    
     console.log('External database schema updated successfully');
   } catch (error) {
     console.error('Failed to update external database schema:', error);
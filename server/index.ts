@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { setupAuth } from "./auth";
+import { closeAllPools } from "./pool-registry";
 
 const app = express();
 
@@ -16,6 +18,9 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
+// Sessions and login routes; all other /api routes require a logged-in user
+setupAuth(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -74,4 +79,16 @@ app.use((req, res, next) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // Stop accepting requests, then close the database pools before exiting
+  const shutdown = (signal: NodeJS.Signals) => {
+    log(`${signal} received, shutting down`);
+    server.close(() => {
+      closeAllPools()
+        .catch((error) => console.error('Error closing database pools:', error))
+        .finally(() => process.exit(0));
+    });
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
 })();
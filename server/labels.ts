@@ -0,0 +1,117 @@
+import type { BoxLabel, PartLabel } from '@shared/schema';
+
+// Bar/space widths of Code 128 symbols 0-106 (106 is the stop pattern)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Modules of blank space on each side of the bars
+const QUIET_ZONE = 10;
+
+// Bar/space widths of `value` in Code 128 set B, or null if it has characters
+// outside printable ASCII (Cyrillic codes are printed as text only)
+export function code128Widths(value: string): number[] | null {
+  if (!value || !/^[\x20-\x7e]+$/.test(value)) return null;
+
+  const codes = Array.from(value).map(char => char.charCodeAt(0) - 32);
+  const checksum = codes.reduce((sum, code, i) => sum + code * (i + 1), CODE128_START_B) % 103;
+  const symbols = [CODE128_START_B, ...codes, checksum, CODE128_STOP];
+
+  return symbols.flatMap(symbol => Array.from(CODE128_PATTERNS[symbol]).map(Number));
+}
+
+// Code 128 barcode as an inline SVG scaled to the label width
+function code128Svg(value: string): string {
+  const widths = code128Widths(value);
+  if (!widths) return '';
+
+  const total = widths.reduce((sum, width) => sum + width, 0) + QUIET_ZONE * 2;
+  let x = QUIET_ZONE;
+  const bars: string[] = [];
+  widths.forEach((width, i) => {
+    // Even positions are bars, odd ones spaces
+    if (i % 2 === 0) bars.push(`<rect x="${x}" y="0" width="${width}" height="40"/>`);
+    x += width;
+  });
+
+  return `<svg class="barcode" viewBox="0 0 ${total} 40" preserveAspectRatio="none" xmlns="http://www.w3.org/2000/svg">${bars.join('')}</svg>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Printable page of 58×40 mm labels; the browser's print dialog also saves it as PDF
+function renderPage(title: string, labels: string[]): string {
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 8mm; }
+  body { margin: 0; font-family: Arial, sans-serif; color: #000; }
+  .toolbar { padding: 8px; border-bottom: 1px solid #ccc; }
+  .sheet { display: flex; flex-wrap: wrap; gap: 2mm; padding: 2mm; }
+  .label { width: 58mm; height: 40mm; box-sizing: border-box; border: 1px dashed #bbb; padding: 2mm;
+           display: flex; flex-direction: column; overflow: hidden; break-inside: avoid; }
+  .code { font-family: monospace; font-weight: bold; font-size: 13pt; }
+  .article { font-family: monospace; font-size: 10pt; }
+  .meta { font-size: 8pt; line-height: 1.2; max-height: 3.6em; overflow: hidden; }
+  .barcode { width: 100%; height: 10mm; margin-top: auto; }
+  .contents { font-size: 7pt; line-height: 1.25; width: 100%; border-collapse: collapse; }
+  .contents td { padding: 0; }
+  .contents td:last-child { text-align: right; }
+  @media print { .toolbar { display: none; } .label { border-color: transparent; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Печать</button> ${labels.length} шт.</div>
+<div class="sheet">
+${labels.join('\n')}
+</div>
+</body>
+</html>`;
+}
+
+// Part labels: SMART code, main article, brand, name, box and a Code 128 barcode of the SMART code
+export function renderPartLabels(labels: PartLabel[]): string {
+  const html = labels.map(label => `<div class="label">
+  <div class="code">${escapeHtml(label.smart)}</div>
+  <div class="article">${escapeHtml(label.article)}</div>
+  <div class="meta">${[label.brand, label.name].filter(Boolean).map(value => escapeHtml(value!)).join(' · ')}</div>
+  ${label.boxNumber ? `<div class="meta">Коробка ${escapeHtml(label.boxNumber)}</div>` : ''}
+  ${code128Svg(label.smart)}
+</div>`);
+  return renderPage('Этикетки товаров', html);
+}
+
+// Box labels: box number, caption and contents, with a barcode of the box number
+export function renderBoxLabels(labels: BoxLabel[]): string {
+  const html = labels.map(label => `<div class="label">
+  <div class="code">${escapeHtml(label.boxNumber)}</div>
+  ${label.label ? `<div class="meta">${escapeHtml(label.label)}</div>` : ''}
+  <table class="contents">
+    ${label.contents.map(item => `<tr><td>${escapeHtml(item.smart)}${item.name ? ` ${escapeHtml(item.name)}` : ''}</td><td>${item.qty}</td></tr>`).join('')}
+  </table>
+  ${code128Svg(label.boxNumber)}
+</div>`);
+  return renderPage('Этикетки коробок', html);
+}
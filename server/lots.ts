@@ -0,0 +1,158 @@
+import type { Pool, PoolClient } from 'pg';
+
+type Queryable = Pool | PoolClient;
+
+export type SaleCost = {
+  qty: number;           // quantity covered by purchase lots
+  cost: number;          // total purchase cost of allocated units
+  firstLotDate: Date;    // creation date of the oldest consumed lot
+};
+
+// Return movements created from Sold Items carry the original sale ID in the note
+export function getReturnedSaleId(note: string | null | undefined): number | null {
+  if (!note) return null;
+  const match = note.match(/Возврат продажи #(\d+)/);
+  return match ? parseInt(match[1]) : null;
+}
+
+// Consume purchase lots first-in-first-out for an outgoing movement (sale/writeoff)
+// Returns the quantity that could not be covered by any purchase lot
+export async function allocateFifo(db: Queryable, movementId: number, smart: string, qty: number): Promise<number> {
+  // Lot size includes corrections posted against the purchase
+  const lots = await db.query(
+    `SELECT p.id, p.qty_delta + COALESCE(c.qty, 0) - COALESCE(SUM(a.qty), 0) AS remaining
+     FROM inventory.movements p
+     LEFT JOIN (
+       SELECT corrects_movement_id, SUM(qty_delta) AS qty
+       FROM inventory.movements
+       WHERE reason = 'correction' AND smart = $1
+       GROUP BY corrects_movement_id
+     ) c ON c.corrects_movement_id = p.id
+     LEFT JOIN inventory.lot_allocations a ON a.purchase_id = p.id
+     WHERE p.smart = $1 AND p.reason = 'purchase'
+     GROUP BY p.id, p.qty_delta, c.qty, p.created_at
+     HAVING p.qty_delta + COALESCE(c.qty, 0) - COALESCE(SUM(a.qty), 0) > 0
+     ORDER BY p.created_at, p.id`,
+    [smart]
+  );
+
+  let left = qty;
+  for (const lot of lots.rows) {
+    if (left <= 0) break;
+
+    const take = Math.min(left, parseInt(lot.remaining));
+    await db.query(
+      `INSERT INTO inventory.lot_allocations (movement_id, purchase_id, qty) VALUES ($1, $2, $3)`,
+      [movementId, lot.id, take]
+    );
+    left -= take;
+  }
+
+  return left;
+}
+
+// Put returned units back into the lots the sale consumed (most recently consumed lot first)
+export async function restoreLots(db: Queryable, returnId: number, saleId: number, qty: number): Promise<void> {
+  const allocations = await db.query(
+    `SELECT a.purchase_id, SUM(a.qty) AS qty
+     FROM inventory.lot_allocations a
+     JOIN inventory.movements p ON p.id = a.purchase_id
+     WHERE a.movement_id = $1
+     GROUP BY a.purchase_id, p.created_at
+     ORDER BY p.created_at DESC, a.purchase_id DESC`,
+    [saleId]
+  );
+
+  let left = qty;
+  for (const allocation of allocations.rows) {
+    if (left <= 0) break;
+
+    const give = Math.min(left, parseInt(allocation.qty));
+    await db.query(
+      `INSERT INTO inventory.lot_allocations (movement_id, purchase_id, qty) VALUES ($1, $2, $3)`,
+      [returnId, allocation.purchase_id, -give]
+    );
+    left -= give;
+  }
+}
+
+// Net quantity of a purchase lot currently consumed by sales/writeoffs
+export async function getAllocatedQty(db: Queryable, purchaseId: number): Promise<number> {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(qty), 0)::int AS qty FROM inventory.lot_allocations WHERE purchase_id = $1`,
+    [purchaseId]
+  );
+  return result.rows[0].qty;
+}
+
+// Record lot allocations for a freshly inserted movement
+export async function applyMovement(
+  db: Queryable,
+  movement: { id: number; smart: string; qtyDelta: number; reason: string; note: string | null }
+): Promise<void> {
+  if (movement.reason === 'sale' || movement.reason === 'writeoff') {
+    await allocateFifo(db, movement.id, movement.smart, Math.abs(movement.qtyDelta));
+    return;
+  }
+
+  if (movement.reason === 'return') {
+    const saleId = getReturnedSaleId(movement.note);
+    if (saleId !== null) {
+      await restoreLots(db, movement.id, saleId, movement.qtyDelta);
+    }
+  }
+}
+
+// Rebuild all allocations by replaying movements in chronological order
+// Used to backfill existing data when lot tracking is first enabled
+export async function replayAllocations(db: Queryable): Promise<void> {
+  await db.query(`DELETE FROM inventory.lot_allocations`);
+
+  const result = await db.query(
+    `SELECT id, smart, qty_delta, reason, note
+     FROM inventory.movements
+     WHERE reason IN ('sale', 'writeoff', 'return')
+     ORDER BY created_at, id`
+  );
+
+  for (const row of result.rows) {
+    await applyMovement(db, {
+      id: row.id,
+      smart: row.smart,
+      qtyDelta: row.qty_delta,
+      reason: row.reason,
+      note: row.note,
+    });
+  }
+}
+
+// Get allocated purchase cost for each outgoing movement
+export async function getSaleCosts(db: Queryable, movementIds: number[]): Promise<Map<number, SaleCost>> {
+  const costs = new Map<number, SaleCost>();
+  if (movementIds.length === 0) {
+    return costs;
+  }
+
+  const result = await db.query(
+    `SELECT
+       a.movement_id,
+       SUM(a.qty)::int AS qty,
+       SUM(a.qty * COALESCE(CAST(p.purchase_price AS NUMERIC), 0)) AS cost,
+       MIN(p.created_at) AS first_lot_date
+     FROM inventory.lot_allocations a
+     JOIN inventory.movements p ON p.id = a.purchase_id
+     WHERE a.movement_id = ANY($1)
+     GROUP BY a.movement_id`,
+    [movementIds]
+  );
+
+  for (const row of result.rows) {
+    costs.set(row.movement_id, {
+      qty: row.qty,
+      cost: parseFloat(row.cost),
+      firstLotDate: row.first_lot_date,
+    });
+  }
+
+  return costs;
+}
@@ -0,0 +1,144 @@
+import type { DbConnection, InventoryFieldMapping } from '@shared/schema';
+import * as poolRegistry from './pool-registry';
+import { resolveTable, type CheckedTable } from './query-builder';
+
+const NATIVE_TABLE = 'inventory.movements';
+
+const defaultMapping: InventoryFieldMapping = {
+  id: 'id',
+  smart: 'smart',
+  article: 'article',
+  qtyDelta: 'qty_delta',
+  reason: 'reason',
+  note: 'note',
+  createdAt: 'created_at',
+};
+
+// Columns only inventory.movements has; a mapped table exposes them as NULL
+const extensionColumns: Array<[string, string]> = [
+  ['purchase_price', 'numeric'],
+  ['sale_price', 'numeric'],
+  ['delivery_price', 'numeric'],
+  ['box_number', 'varchar'],
+  ['track_number', 'varchar'],
+  ['shipping_method_id', 'integer'],
+  ['sale_status', 'varchar'],
+  ['created_by', 'varchar'],
+  ['corrects_movement_id', 'integer'],
+  ['paired_movement_id', 'integer'],
+  ['order_id', 'integer'],
+  ['supplier_id', 'integer'],
+  ['purchase_order_line_id', 'integer'],
+];
+
+export type MovementSource = {
+  native: boolean;   // inventory.movements with every app column available
+  table: CheckedTable | null; // mapped table movements are written to, null when native
+  relation: string;  // FROM item exposing native column names; alias it where used
+  stock: string;     // FROM item: smart, total_qty (positive stock only)
+  stockByWarehouse: string; // FROM item: smart, warehouse_id, total_qty
+  mapping: InventoryFieldMapping;
+};
+
+export class UnsupportedMovementSourceError extends Error {
+  constructor(feature: string) {
+    super(`${feature} недоступно: подключённая таблица движений не содержит нужных колонок`);
+    this.name = 'UnsupportedMovementSourceError';
+  }
+}
+
+// Mapped columns of the table as the native names, extension columns as NULL
+// A mapped table has no warehouses, so its rows belong to the first warehouse
+function mappedSelectList(table: CheckedTable, mapping: InventoryFieldMapping): string {
+  const core = [
+    `${table.column(mapping.id)} AS id`,
+    `${table.column(mapping.smart)} AS smart`,
+    `${table.column(mapping.article)} AS article`,
+    `${table.column(mapping.qtyDelta)} AS qty_delta`,
+    `${table.column(mapping.reason)} AS reason`,
+    mapping.note ? `${table.column(mapping.note)} AS note` : `NULL::text AS note`,
+    `${table.column(mapping.createdAt)} AS created_at`,
+    `(SELECT MIN(id) FROM inventory.warehouses) AS warehouse_id`,
+  ];
+  const extension = extensionColumns.map(([name, type]) => `NULL::${type} AS ${name}`);
+  return [...core, ...extension].join(', ');
+}
+
+// Movements table and the column of every field, blank fields falling back to the default names
+export function resolveMovementMapping(conn: Pick<DbConnection, 'tableName' | 'fieldMapping'>): {
+  tableName: string;
+  mapping: InventoryFieldMapping;
+  native: boolean;
+} {
+  const configured = Object.fromEntries(
+    Object.entries((conn.fieldMapping as Partial<InventoryFieldMapping> | null) || {}).filter(([, column]) => column)
+  );
+  const mapping: InventoryFieldMapping = { ...defaultMapping, ...configured };
+  const tableName = conn.tableName || NATIVE_TABLE;
+
+  const native = tableName === NATIVE_TABLE &&
+    (Object.keys(defaultMapping) as Array<keyof InventoryFieldMapping>).every(key => mapping[key] === defaultMapping[key]);
+
+  return { tableName, mapping, native };
+}
+
+// Movements table and column names from the inventory connection's table/mapping
+// A mapped table and its columns are checked against information_schema before use
+export async function getMovementSource(conn: DbConnection): Promise<MovementSource> {
+  const { tableName, mapping, native } = resolveMovementMapping(conn);
+
+  if (native) {
+    return {
+      native,
+      table: null,
+      relation: NATIVE_TABLE,
+      stock: 'inventory.stock',
+      stockByWarehouse: 'inventory.stock_by_warehouse',
+      mapping,
+    };
+  }
+
+  const table = await resolveTable(poolRegistry.getPool(conn), tableName);
+  const relation = `(SELECT ${mappedSelectList(table, mapping)} FROM ${table.sql})`;
+  return {
+    native,
+    table,
+    relation,
+    stock: `(SELECT smart, SUM(qty_delta) AS total_qty FROM ${relation} mv GROUP BY smart HAVING SUM(qty_delta) > 0)`,
+    stockByWarehouse: `(SELECT smart, warehouse_id, SUM(qty_delta) AS total_qty FROM ${relation} mv GROUP BY smart, warehouse_id HAVING SUM(qty_delta) > 0)`,
+    mapping,
+  };
+}
+
+// Features that rely on app-only columns (boxes, lots, links between movements...)
+export function requireNativeMovements(source: MovementSource, feature: string): void {
+  if (!source.native) {
+    throw new UnsupportedMovementSourceError(feature);
+  }
+}
+
+// INSERT of the mapped columns into a mapped table, returning a row with native names
+// Prices, boxes and other app-only fields have nowhere to go and are dropped
+export function buildMappedInsert(
+  source: MovementSource,
+  movement: { smart: string; article: string; qtyDelta: number; reason: string; note?: string | null }
+): { text: string; values: unknown[] } {
+  const { mapping, table } = source;
+  if (!table) {
+    throw new Error('Mapped insert needs a mapped movements table');
+  }
+  const columns = [mapping.smart, mapping.article, mapping.qtyDelta, mapping.reason];
+  const values: unknown[] = [movement.smart, movement.article, movement.qtyDelta, movement.reason];
+  if (mapping.note) {
+    columns.push(mapping.note);
+    values.push(movement.note || null);
+  }
+
+  const placeholders = values.map((_, i) => `$${i + 1}`);
+  return {
+    text: `INSERT INTO ${table.sql} (${columns.map(c => table.column(c)).join(', ')}, ${table.column(mapping.createdAt)})
+           VALUES (${placeholders.join(', ')}, NOW())
+           RETURNING ${mappedSelectList(table, mapping)}`,
+    values,
+  };
+}
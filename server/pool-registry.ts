@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+import type { DbConnection, PoolStats } from '@shared/schema';
+
+type PoolEntry = {
+  pool: Pool;
+  fingerprint: string;
+};
+
+// Long-lived pools keyed by connection ID
+const pools = new Map<number, PoolEntry>();
+
+// Credentials that require a new pool when changed
+function getFingerprint(conn: DbConnection): string {
+  return JSON.stringify([conn.host, conn.port, conn.database, conn.username, conn.password, conn.ssl || null]);
+}
+
+function createPool(conn: DbConnection): Pool {
+  const pool = new Pool({
+    host: conn.host,
+    port: conn.port,
+    database: conn.database,
+    user: conn.username,
+    password: conn.password,
+    ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
+  });
+
+  // Idle clients can be dropped by the server; don't let that crash the process
+  pool.on('error', (error) => {
+    console.error(`Idle client error in pool for connection ${conn.id}:`, error);
+  });
+
+  return pool;
+}
+
+// Get pool for connection, rebuilding it if credentials changed since it was created
+export function getPool(conn: DbConnection): Pool {
+  const fingerprint = getFingerprint(conn);
+  const existing = pools.get(conn.id);
+
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing.pool;
+  }
+
+  if (existing) {
+    pools.delete(conn.id);
+    existing.pool.end().catch((error) => {
+      console.error(`Error closing stale pool for connection ${conn.id}:`, error);
+    });
+  }
+
+  const pool = createPool(conn);
+  pools.set(conn.id, { pool, fingerprint });
+  return pool;
+}
+
+// Close and forget pool for connection (e.g. after deletion)
+export async function closePool(id: number): Promise<void> {
+  const existing = pools.get(id);
+  if (!existing) {
+    return;
+  }
+
+  pools.delete(id);
+  await existing.pool.end();
+}
+
+// Close all pools (used on shutdown)
+export async function closeAllPools(): Promise<void> {
+  const ids = Array.from(pools.keys());
+  await Promise.all(ids.map(id => closePool(id)));
+}
+
+// Get pool statistics for connection
+export function getPoolStats(id: number): PoolStats {
+  const existing = pools.get(id);
+
+  if (!existing) {
+    return {
+      connectionId: id,
+      initialized: false,
+      totalCount: 0,
+      idleCount: 0,
+      waitingCount: 0,
+    };
+  }
+
+  return {
+    connectionId: id,
+    initialized: true,
+    totalCount: existing.pool.totalCount,
+    idleCount: existing.pool.idleCount,
+    waitingCount: existing.pool.waitingCount,
+  };
+}
@@ -0,0 +1,54 @@
+import type { Pool, PoolClient } from 'pg';
+
+type Queryable = Pool | PoolClient;
+
+export type OrderLineState = {
+  purchaseOrderId: number;
+  supplierId: number;
+  status: string;
+  smart: string;
+  remaining: number; // ordered minus already received
+};
+
+// Line with its order's supplier/status and the quantity still expected
+export async function getLineState(db: Queryable, lineId: number): Promise<OrderLineState | null> {
+  const result = await db.query(
+    `SELECT l.purchase_order_id, o.supplier_id, o.status, l.smart,
+       (l.qty - COALESCE((
+         SELECT SUM(m.qty_delta) FROM inventory.movements m
+         WHERE m.purchase_order_line_id = l.id AND m.reason = 'purchase'
+       ), 0))::int AS remaining
+     FROM inventory.purchase_order_lines l
+     JOIN inventory.purchase_orders o ON o.id = l.purchase_order_id
+     WHERE l.id = $1`,
+    [lineId]
+  );
+  if (result.rows.length === 0) return null;
+  const row = result.rows[0];
+  return {
+    purchaseOrderId: row.purchase_order_id,
+    supplierId: row.supplier_id,
+    status: row.status,
+    smart: row.smart,
+    remaining: row.remaining,
+  };
+}
+
+// Mark an open order as received once every line is fully received
+// Partially received orders stay open
+export async function completeIfReceived(db: Queryable, purchaseOrderId: number): Promise<void> {
+  await db.query(
+    `UPDATE inventory.purchase_orders o
+     SET status = 'received', closed_at = NOW()
+     WHERE o.id = $1 AND o.status = 'open'
+       AND NOT EXISTS (
+         SELECT 1 FROM inventory.purchase_order_lines l
+         WHERE l.purchase_order_id = o.id
+           AND l.qty > COALESCE((
+             SELECT SUM(m.qty_delta) FROM inventory.movements m
+             WHERE m.purchase_order_line_id = l.id AND m.reason = 'purchase'
+           ), 0)
+       )`,
+    [purchaseOrderId]
+  );
+}
@@ -0,0 +1,159 @@
+import type { Pool, PoolClient } from 'pg';
+import type { NormalizationRules } from '@shared/schema';
+import { delimiterPattern, transliterationMap, confusableCharacters, foldConfusions, maxSuggestionDistance } from '@shared/normalization';
+
+type Queryable = Pool | PoolClient;
+
+// How long a table's column list is trusted before information_schema is asked again
+const COLUMN_CACHE_TTL_MS = 60_000;
+
+export class InvalidIdentifierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidIdentifierError';
+  }
+}
+
+export type TableColumn = {
+  name: string;
+  type: string;     // information_schema data_type, e.g. ARRAY
+  udtName: string;  // underlying type, e.g. _text
+};
+
+// Table whose name and columns were found in information_schema
+// Only `sql` and `column()` may be interpolated into queries
+export type CheckedTable = {
+  name: string;   // as configured, for messages
+  sql: string;    // "schema"."table"
+  columns: Map<string, TableColumn>;
+  column(name: string): string;
+};
+
+type CacheEntry = { columns: Map<string, TableColumn>; expiresAt: number };
+
+// Per pool, so a rebuilt pool (new credentials) starts with an empty cache
+const columnCache = new WeakMap<Queryable, Map<string, CacheEntry>>();
+
+// Double-quoted identifier; embedded quotes are doubled, so any name is safe
+export function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// "schema.table" or "table" (public schema) as configured in a connection
+export function parseTableName(tableName: string): { schema: string; table: string } {
+  const parts = tableName.trim().split('.').map(part => part.trim());
+  if (parts.length > 2 || parts.some(part => part.length === 0)) {
+    throw new InvalidIdentifierError(`Некорректное имя таблицы: ${tableName}`);
+  }
+  return parts.length === 2
+    ? { schema: parts[0], table: parts[1] }
+    : { schema: 'public', table: parts[0] };
+}
+
+// Columns of the table in ordinal order, empty if the table does not exist
+export async function getTableColumns(db: Queryable, tableName: string): Promise<TableColumn[]> {
+  const { schema, table } = parseTableName(tableName);
+  const result = await db.query(`
+    SELECT column_name as name, data_type as type, udt_name
+    FROM information_schema.columns
+    WHERE table_schema = $1 AND table_name = $2
+    ORDER BY ordinal_position
+  `, [schema, table]);
+
+  return result.rows.map((row: any) => ({ name: row.name, type: row.type, udtName: row.udt_name }));
+}
+
+// Look the table up in information_schema and return its quoted name and column accessor
+// refresh: skip the cache, for checks of a mapping that is about to be saved
+export async function resolveTable(db: Queryable, tableName: string, options: { refresh?: boolean } = {}): Promise<CheckedTable> {
+  let tables = columnCache.get(db);
+  if (!tables) {
+    tables = new Map();
+    columnCache.set(db, tables);
+  }
+
+  let entry = tables.get(tableName);
+  if (!entry || options.refresh || entry.expiresAt < Date.now()) {
+    const columns = await getTableColumns(db, tableName);
+    if (columns.length === 0) {
+      tables.delete(tableName);
+      throw new InvalidIdentifierError(`Таблица ${tableName} не найдена`);
+    }
+    entry = {
+      columns: new Map(columns.map(column => [column.name, column])),
+      expiresAt: Date.now() + COLUMN_CACHE_TTL_MS,
+    };
+    tables.set(tableName, entry);
+  }
+
+  const { schema, table } = parseTableName(tableName);
+  const columns = entry.columns;
+  return {
+    name: tableName,
+    sql: `${quoteIdent(schema)}.${quoteIdent(table)}`,
+    columns,
+    column(name: string): string {
+      if (!columns.has(name)) {
+        throw new InvalidIdentifierError(`Колонка "${name}" не найдена в таблице ${tableName}`);
+      }
+      return quoteIdent(name);
+    },
+  };
+}
+
+// Single-quoted string literal; embedded quotes are doubled
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// SQL expression normalizing `expression` exactly like normalizeArticle with the same rules
+export function normalizeSqlExpression(expression: string, rules: NormalizationRules): string {
+  let sql = `UPPER(${expression})`;
+
+  const pattern = delimiterPattern(rules.delimiters);
+  if (pattern) {
+    sql = `REGEXP_REPLACE(${sql}, ${quoteLiteral(pattern)}, '', 'g')`;
+  }
+
+  const { from, to } = transliterationMap(rules);
+  if (from) {
+    sql = `TRANSLATE(${sql}, ${quoteLiteral(from)}, ${quoteLiteral(to)})`;
+  }
+
+  if (rules.letterOToZero) {
+    sql = `REPLACE(${sql}, 'O', '0')`;
+  }
+  if (rules.stripLeadingZeros) {
+    sql = `LTRIM(${sql}, '0')`;
+  }
+
+  return sql;
+}
+
+// WHERE condition selecting keys that may be within maxSuggestionDistance of the query
+// A key within k edits contains one of k+1 pieces of the query unchanged, so only
+// keys of a close length containing a piece (look-alikes folded) are candidates.
+// `key` is an SQL expression of a normalized key; parameters start at $firstParam
+export function suggestionCandidateFilter(
+  key: string,
+  normalizedQuery: string,
+  firstParam: number
+): { sql: string; values: unknown[] } {
+  const query = foldConfusions(normalizedQuery);
+  const maxDistance = maxSuggestionDistance(query.length);
+
+  const pieceCount = Math.min(maxDistance + 1, query.length);
+  const patterns: string[] = [];
+  for (let i = 0; i < pieceCount; i++) {
+    const piece = query.slice(Math.floor(i * query.length / pieceCount), Math.floor((i + 1) * query.length / pieceCount));
+    patterns.push(`%${piece.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+
+  const { from, to } = confusableCharacters;
+  const p = firstParam;
+  return {
+    sql: `length(${key}) BETWEEN $${p} AND $${p + 1}
+      AND TRANSLATE(${key}, ${quoteLiteral(from)}, ${quoteLiteral(to)}) LIKE ANY($${p + 2})`,
+    values: [query.length - maxDistance, query.length + maxDistance, patterns],
+  };
+}
@@ -0,0 +1,36 @@
+import type { Pool, PoolClient } from 'pg';
+
+type Queryable = Pool | PoolClient;
+
+// How often expired reservations are released in the background
+export const RELEASE_INTERVAL_MS = 60 * 1000;
+
+// Units of a SMART code held by active, unexpired reservations in a warehouse
+// The reservation being converted into a sale is excluded so it doesn't block itself
+export async function getReservedQty(
+  db: Queryable,
+  smart: string,
+  warehouseId: number,
+  excludeReservationId: number | null = null
+): Promise<number> {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(qty), 0)::int AS qty
+     FROM inventory.reservations
+     WHERE smart = $1 AND warehouse_id = $2
+       AND status = 'active' AND expires_at > NOW()
+       AND ($3::int IS NULL OR id <> $3)`,
+    [smart, warehouseId, excludeReservationId]
+  );
+  return result.rows[0].qty;
+}
+
+// Mark reservations past their expiry as expired. Returns how many were released
+// Stock checks already ignore expired rows, this only keeps statuses up to date
+export async function releaseExpired(db: Queryable): Promise<number> {
+  const result = await db.query(
+    `UPDATE inventory.reservations
+     SET status = 'expired', closed_at = NOW()
+     WHERE status = 'active' AND expires_at <= NOW()`
+  );
+  return result.rowCount ?? 0;
+}
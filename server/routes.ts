@@ -1,17 +1,57 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage, InsufficientStockError } from "./storage";
+import { storage, InsufficientStockError, InvalidCorrectionError, InvalidBoxError, InvalidBarcodeError, InvalidReservationError, InvalidConnectionUpdateError, MovementDocumentLineError, type MovementUpdate } from "./storage";
 import { ensureExternalDbSchema } from "./db";
-import { insertMovementSchema } from "@shared/schema";
-import { normalizeArticle } from "@shared/normalization";
-import type { BulkImportRow } from "@shared/schema";
+import { insertMovementSchema, insertUserSchema, updateUserSchema, insertWarehouseSchema, transferSchema, insertBoxSchema, updateBoxSchema, boxMoveSchema, insertReservationSchema, convertReservationSchema, reservationStatuses, insertCustomerSchema, insertSupplierSchema, insertPurchaseOrderSchema, receivePurchaseOrderSchema, updateDbConnectionSchema, smartMappingPreviewSchema, normalizationRulesSchema, normalizationTestSchema, insertBarcodeSchema, scanBatchSchema, movementDocumentSchema } from "@shared/schema";
+import type { ReservationStatus } from "@shared/schema";
+import { normalizeArticle, classifyMatch, matchTypeRank } from "@shared/normalization";
+import { canRecordReason, hasRole } from "@shared/permissions";
+import type { BulkImportRow, ArticleSearchResult, Smart } from "@shared/schema";
 import multer from "multer";
 import * as XLSX from "xlsx";
 import * as connectionsStorage from "./connections-storage";
+import { bootstrapAdminUser, requireRole, hashPassword } from "./auth";
+import { RELEASE_INTERVAL_MS } from "./reservations";
+import { UnsupportedMovementSourceError } from "./movement-source";
+import { SMART_CACHE_REFRESH_MS } from "./smart-cache";
+import { renderPartLabels, renderBoxLabels } from "./labels";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Movements or boxes one label request may cover (ids travel in the query string)
+const MAX_LABEL_ITEMS = 1000;
+
+// A rejected line of a movement document or scan batch names the line; short stock
+// gets the same 409 details as a single movement
+function sendMovementDocumentError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof MovementDocumentLineError) {
+    const lineError = error.lineError;
+    if (lineError instanceof InsufficientStockError) {
+      return res.status(409).json({
+        error: error.message,
+        line: error.line,
+        details: {
+          article: lineError.article,
+          smart: lineError.smart,
+          currentStock: lineError.currentStock,
+          requestedQty: lineError.requestedQty
+        }
+      });
+    }
+    return res.status(400).json({ error: error.message, line: error.line });
+  }
+  
+  if (error instanceof Error) {
+    res.status(400).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: fallback });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Pick up edits of db-connections.json made outside the app
+  connectionsStorage.watchConnectionsFile();
+
   // Create default connections if they don't exist
   await storage.createDefaultConnections();
 
@@ -37,6 +77,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('Failed to ensure external DB schema:', error);
   }
 
+  // Create first login account if none exist
+  try {
+    await bootstrapAdminUser();
+  } catch (error) {
+    console.error('Failed to bootstrap admin user:', error);
+  }
+
+  // Release expired reservations in the background
+  setInterval(() => {
+    storage.releaseExpiredReservations().catch((error) => {
+      console.error('Failed to release expired reservations:', error);
+    });
+  }, RELEASE_INTERVAL_MS).unref();
+
+  // Keep the local SMART copy fresh: once on start, then on schedule
+  const refreshSmartCache = () => {
+    storage.refreshSmartCache().catch((error) => {
+      console.error('Failed to refresh SMART cache:', error instanceof Error ? error.message : error);
+    });
+  };
+  refreshSmartCache();
+  setInterval(refreshSmartCache, SMART_CACHE_REFRESH_MS).unref();
+
   // Search articles by normalized input
   app.get("/api/articles/search", async (req, res) => {
     try {
@@ -45,12 +108,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Query parameter is required" });
       }
 
-      const normalized = normalizeArticle(query);
-      const matches = await storage.searchSmart(normalized);
+      // A registered barcode resolves to its SMART code directly
+      const barcodeMatch = await storage.getSmartByBarcode(query.trim());
+
+      const rules = await storage.getNormalizationRules();
+      const normalized = normalizeArticle(query, rules);
+      const matches = barcodeMatch ? [barcodeMatch] : await storage.searchSmart(normalized);
+      // Nothing matched: offer near misses instead, closest first
+      const suggestions = matches.length === 0 ? await storage.suggestSmart(normalized) : [];
       
       // Get total stock by SMART code (aggregated across all article variants)
       // Use batch method to get all stock levels in one DB query
-      const smartCodes = matches.map(m => m.smart);
+      const smartCodes = [...matches, ...suggestions].map(m => m.smart);
       const stockMap = await storage.getTotalStockBySmartBatch(smartCodes);
       
       // Normalize brand and description to always be arrays (or undefined)
@@ -62,14 +131,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return undefined;
       };
       
-      const results = matches.map(match => ({
+      const toResult = (match: Smart, articles: string[]) => ({
         smart: match.smart,
-        articles: Array.isArray(match.articles) ? match.articles : [],
+        articles,
         brand: toArray(match.brand),
         description: toArray(match.description),
-        name: match.name,
+        name: match.name || undefined,
         currentStock: stockMap.get(match.smart) || 0,
-      }));
+      });
+      
+      if (suggestions.length > 0) {
+        const results: ArticleSearchResult[] = suggestions.map(suggestion => ({
+          ...toResult(suggestion, Array.isArray(suggestion.articles) ? suggestion.articles : []),
+          matchType: 'suggestion',
+          matchedArticle: suggestion.matchedArticle,
+        }));
+        return res.json(results);
+      }
+      
+      const results: ArticleSearchResult[] = matches.map(match => {
+        const articles = Array.isArray(match.articles) ? match.articles : [];
+        return {
+          ...toResult(match, articles),
+          ...(barcodeMatch
+            ? { matchType: 'barcode' as const, matchedArticle: null }
+            : classifyMatch(match.smart, articles, normalized, rules)),
+        };
+      });
+      
+      // Strongest match first; within the same kind, items in stock come first
+      results.sort((a, b) =>
+        matchTypeRank[a.matchType] - matchTypeRank[b.matchType] ||
+        Number(b.currentStock > 0) - Number(a.currentStock > 0) ||
+        a.smart.localeCompare(b.smart)
+      );
 
       res.json(results);
     } catch (error) {
@@ -96,10 +191,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create movement
-  app.post("/api/movements", async (req, res) => {
+  app.post("/api/movements", requireRole('storekeeper'), async (req, res) => {
     try {
       const validatedData = insertMovementSchema.parse(req.body);
       
+      if (!canRecordReason(req.user?.role, validatedData.reason)) {
+        return res.status(403).json({ error: "Недостаточно прав для этого типа движения" });
+      }
+      
       // Validate quantity direction based on reason type
       // Note: 'return' movements are created automatically via sold items page, not this endpoint
       if (validatedData.reason === 'purchase' && validatedData.qtyDelta <= 0) {
@@ -112,7 +211,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Для продажи/списания количество должно быть отрицательным" });
       }
       
-      const movement = await storage.createMovement(validatedData);
+      const movement = await storage.createMovement({
+        ...validatedData,
+        createdBy: req.user?.username || null,
+      });
       res.status(201).json(movement);
     } catch (error) {
       console.error("Create movement error:", error);
@@ -153,6 +255,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get edit history of a movement (MUST come before /api/movements/:smart/:article)
+  app.get("/api/movements/:id/audit", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const audit = await storage.getMovementAudit(id);
+      res.json(audit);
+    } catch (error) {
+      console.error("Get movement audit error:", error);
+      res.status(500).json({ error: "Failed to get movement audit" });
+    }
+  });
+
   // Get movements by SMART and article
   app.get("/api/movements/:smart/:article", async (req, res) => {
     try {
@@ -165,13 +283,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get stock levels with pagination
+  // Get stock levels with pagination (optionally for one warehouse)
   app.get("/api/stock", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
+      const warehouseId = parseInt(req.query.warehouseId as string) || undefined;
       
-      const stock = await storage.getStockLevels(limit, offset);
+      const stock = await storage.getStockLevels(limit, offset, warehouseId);
       res.json(stock);
     } catch (error) {
       console.error("Get stock error:", error);
@@ -179,6 +298,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get stock of a SMART code per warehouse (MUST come before /api/stock/:smart/:article)
+  app.get("/api/stock/:smart/warehouses", async (req, res) => {
+    try {
+      const stock = await storage.getWarehouseStockBySmart(req.params.smart);
+      res.json(stock);
+    } catch (error) {
+      console.error("Get warehouse stock error:", error);
+      res.status(500).json({ error: "Failed to get warehouse stock" });
+    }
+  });
+
   // Get purchases by SMART code (MUST come before /api/stock/:smart/:article)
   app.get("/api/stock/:smart/purchases", async (req, res) => {
     try {
@@ -192,7 +322,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get sales analytics by SMART code (MUST come before /api/stock/:smart/:article)
-  app.get("/api/stock/:smart/sales", async (req, res) => {
+  app.get("/api/stock/:smart/sales", requireRole('manager'), async (req, res) => {
     try {
       const { smart } = req.params;
       const [sales, purchases] = await Promise.all([
@@ -200,30 +330,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         storage.getPurchasesBySmart(smart)
       ]);
       
+      // Cost of each sale comes from the purchase lots it consumed (FIFO)
+      const saleCosts = await storage.getSaleCosts(sales.map(sale => sale.id));
+      
       // Calculate metrics for each sale
       const salesWithMetrics = sales.map(sale => {
-        // Find closest previous purchase for this sale
-        // IMPORTANT: Match by article first, then by time to get correct purchase price
-        const closestPurchase = purchases
-          .filter(p => p.article === sale.article && new Date(p.createdAt) < new Date(sale.createdAt))
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
-        
-        const purchasePrice = parseFloat(closestPurchase?.purchasePrice || '0');
+        const saleCost = saleCosts.get(sale.id);
+        const purchasePrice = saleCost && saleCost.qty > 0 ? saleCost.cost / saleCost.qty : 0;
         const salePrice = parseFloat(sale.salePrice || '0');
         const deliveryPrice = parseFloat(sale.deliveryPrice || '0');
         const quantity = Math.abs(sale.qtyDelta);
         
-        // Calculate profit (sale price - purchase price - delivery) × quantity
-        const profit = (salePrice - purchasePrice - deliveryPrice) * quantity;
+        // Calculate profit (sale price - delivery) × quantity - allocated purchase cost
+        const profit = (salePrice - deliveryPrice) * quantity - (saleCost?.cost || 0);
         
         // Calculate profit margin percentage for this sale
-        const profitMarginPercent = purchasePrice > 0 
-          ? ((salePrice - purchasePrice - deliveryPrice) / purchasePrice) * 100 
+        const profitMarginPercent = saleCost && saleCost.cost > 0
+          ? (profit / saleCost.cost) * 100 
           : 0;
         
-        // Calculate days from purchase to sale
-        const daysFromPurchase = closestPurchase 
-          ? Math.round((new Date(sale.createdAt).getTime() - new Date(closestPurchase.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+        // Calculate days from the oldest consumed lot to sale
+        const daysFromPurchase = saleCost 
+          ? Math.round((new Date(sale.createdAt).getTime() - new Date(saleCost.firstLotDate).getTime()) / (1000 * 60 * 60 * 24))
           : null;
         
         return {
@@ -237,7 +365,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Calculate summary metrics
       const totalSold = salesWithMetrics.reduce((sum, sale) => sum + Math.abs(sale.qtyDelta), 0);
-      const totalPurchased = purchases.reduce((sum, purchase) => sum + purchase.qtyDelta, 0);
+      const totalPurchased = purchases.reduce((sum, purchase) => sum + purchase.correctedQty, 0);
       const sellThroughRate = totalPurchased > 0 ? (totalSold / totalPurchased) * 100 : 0;
       
       const salesWithDays = salesWithMetrics.filter(s => s.daysFromPurchase !== null);
@@ -249,9 +377,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const averageProfitPerUnit = totalSold > 0 ? totalProfit / totalSold : 0;
       
       // Calculate true profit margin: (total profit / total cost) × 100
-      // Total cost = sum of (purchase price × quantity) for all sales
-      const totalPurchaseCost = salesWithMetrics.reduce((sum, sale) => {
-        return sum + (sale.purchasePriceUsed * Math.abs(sale.qtyDelta));
+      // Total cost = FIFO-allocated purchase cost of all sales
+      const totalPurchaseCost = sales.reduce((sum, sale) => {
+        return sum + (saleCosts.get(sale.id)?.cost || 0);
       }, 0);
       
       const averageProfitMarginPercent = totalPurchaseCost > 0
@@ -293,12 +421,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update movement (purchase price, note, quantity, box number)
-  app.patch("/api/movements/:id", async (req, res) => {
+  // Quantity changes are posted as linked correction movements
+  app.patch("/api/movements/:id", requireRole('manager'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { purchasePrice, note, qtyDelta, boxNumber } = req.body;
       
-      const updates: Partial<{purchasePrice: string | null; note: string | null; qtyDelta: number; boxNumber: string | null}> = {};
+      const updates: MovementUpdate = {};
       
       if (purchasePrice !== undefined) {
         updates.purchasePrice = purchasePrice;
@@ -309,7 +438,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       if (qtyDelta !== undefined) {
-        if (!Number.isFinite(qtyDelta) || qtyDelta <= 0) {
+        if (!Number.isInteger(qtyDelta) || qtyDelta <= 0) {
           return res.status(400).json({ error: "Quantity must be a positive number" });
         }
         updates.qtyDelta = qtyDelta;
@@ -319,10 +448,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.boxNumber = boxNumber;
       }
       
-      const updatedMovement = await storage.updateMovement(id, updates);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "No fields to update" });
+      }
+      
+      const updatedMovement = await storage.updateMovement(id, updates, req.user?.username || null);
       res.json(updatedMovement);
     } catch (error) {
       console.error("Update movement error:", error);
+      
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ 
+          error: error.message,
+          details: {
+            article: error.article,
+            smart: error.smart,
+            currentStock: error.currentStock,
+            requestedQty: error.requestedQty
+          }
+        });
+      }
+      
+      if (error instanceof InvalidCorrectionError || error instanceof InvalidBoxError || error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
+      if (error instanceof Error && error.message === 'Movement not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      
       res.status(500).json({ error: "Failed to update movement" });
     }
   });
@@ -338,6 +492,565 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get warehouses
+  app.get("/api/warehouses", async (req, res) => {
+    try {
+      const warehouses = await storage.getWarehouses();
+      res.json(warehouses);
+    } catch (error) {
+      console.error("Get warehouses error:", error);
+      res.status(500).json({ error: "Failed to get warehouses" });
+    }
+  });
+
+  // Create warehouse
+  app.post("/api/warehouses", requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = insertWarehouseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Name is required" });
+      }
+      
+      const warehouse = await storage.createWarehouse(parsed.data.name);
+      res.status(201).json(warehouse);
+    } catch (error: any) {
+      console.error("Create warehouse error:", error);
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: "Склад с таким названием уже существует" });
+      }
+      res.status(500).json({ error: "Failed to create warehouse" });
+    }
+  });
+
+  // Move stock between warehouses
+  app.post("/api/transfers", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = transferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid transfer data" });
+      }
+      
+      const transfer = await storage.createTransfer(parsed.data, req.user?.username || null);
+      res.status(201).json(transfer);
+    } catch (error) {
+      console.error("Create transfer error:", error);
+      
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ 
+          error: error.message,
+          details: {
+            article: error.article,
+            smart: error.smart,
+            currentStock: error.currentStock,
+            requestedQty: error.requestedQty
+          }
+        });
+      }
+      
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create transfer" });
+      }
+    }
+  });
+
+  // Get boxes with total units in each
+  app.get("/api/boxes", async (req, res) => {
+    try {
+      const boxes = await storage.getBoxes();
+      res.json(boxes);
+    } catch (error) {
+      console.error("Get boxes error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get boxes" });
+    }
+  });
+
+  // Register box
+  app.post("/api/boxes", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = insertBoxSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Box number is required" });
+      }
+      
+      const box = await storage.createBox(parsed.data);
+      res.status(201).json(box);
+    } catch (error: any) {
+      console.error("Create box error:", error);
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: "Коробка с таким номером уже существует" });
+      }
+      res.status(500).json({ error: "Failed to create box" });
+    }
+  });
+
+  // Update box label and capacity note
+  app.patch("/api/boxes/:id", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const parsed = updateBoxSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid box data" });
+      }
+      
+      const box = await storage.updateBox(id, parsed.data);
+      if (!box) {
+        return res.status(404).json({ error: "Box not found" });
+      }
+      res.json(box);
+    } catch (error) {
+      console.error("Update box error:", error);
+      res.status(500).json({ error: "Failed to update box" });
+    }
+  });
+
+  // What's in box: units per SMART code computed from movements
+  app.get("/api/boxes/:boxNumber/contents", async (req, res) => {
+    try {
+      const contents = await storage.getBoxContents(req.params.boxNumber);
+      res.json(contents);
+    } catch (error) {
+      console.error("Get box contents error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get box contents" });
+    }
+  });
+
+  // Barcode aliases, optionally of one SMART code
+  app.get("/api/barcodes", async (req, res) => {
+    try {
+      const smart = typeof req.query.smart === 'string' ? req.query.smart : undefined;
+      const barcodes = await storage.getBarcodes(smart);
+      res.json(barcodes);
+    } catch (error) {
+      console.error("Get barcodes error:", error);
+      res.status(500).json({ error: "Failed to get barcodes" });
+    }
+  });
+
+  app.post("/api/barcodes", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = insertBarcodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid barcode data" });
+      }
+      
+      const barcode = await storage.createBarcode(parsed.data, req.user?.username || null);
+      res.status(201).json(barcode);
+    } catch (error: any) {
+      console.error("Create barcode error:", error);
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: "Этот штрихкод уже привязан к SMART коду" });
+      }
+      if (error instanceof InvalidBarcodeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create barcode" });
+    }
+  });
+
+  app.delete("/api/barcodes/:barcode", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteBarcode(req.params.barcode);
+      if (!deleted) {
+        return res.status(404).json({ error: "Barcode not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete barcode error:", error);
+      res.status(500).json({ error: "Failed to delete barcode" });
+    }
+  });
+
+  // Record the lines of a scan session; all lines are written together or none are
+  app.post("/api/movements/scan-batch", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = scanBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid scan batch" });
+      }
+      
+      if (!canRecordReason(req.user?.role, parsed.data.reason)) {
+        return res.status(403).json({ error: "Недостаточно прав для этого типа движения" });
+      }
+      
+      const movements = await storage.createScanBatch(parsed.data, req.user?.username || null);
+      res.status(201).json({ movements });
+    } catch (error) {
+      console.error("Scan batch error:", error);
+      sendMovementDocumentError(res, error, "Failed to record scanned movements");
+    }
+  });
+
+  // Record a multi-line document; all lines are written together or none are
+  app.post("/api/movements/documents", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = movementDocumentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({
+          error: issue?.message || "Invalid movement document",
+          line: issue?.path[0] === 'lines' && typeof issue.path[1] === 'number' ? issue.path[1] : null,
+        });
+      }
+      
+      if (!canRecordReason(req.user?.role, parsed.data.reason)) {
+        return res.status(403).json({ error: "Недостаточно прав для этого типа движения" });
+      }
+      
+      const movements = await storage.createMovementDocument(parsed.data, req.user?.username || null);
+      res.status(201).json({ movements });
+    } catch (error) {
+      console.error("Movement document error:", error);
+      sendMovementDocumentError(res, error, "Failed to record movement document");
+    }
+  });
+
+  // Move units from one box to another
+  app.post("/api/boxes/move", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = boxMoveSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid box move data" });
+      }
+      
+      const move = await storage.moveBetweenBoxes(parsed.data, req.user?.username || null);
+      res.status(201).json(move);
+    } catch (error) {
+      console.error("Move between boxes error:", error);
+      
+      if (error instanceof InvalidBoxError || error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
+      res.status(500).json({ error: "Failed to move between boxes" });
+    }
+  });
+
+  // Get reservations, optionally by status
+  app.get("/api/reservations", async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !reservationStatuses.includes(status as ReservationStatus)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      
+      const reservations = await storage.getReservations(status as ReservationStatus | undefined);
+      res.json(reservations);
+    } catch (error) {
+      console.error("Get reservations error:", error);
+      res.status(500).json({ error: "Failed to get reservations" });
+    }
+  });
+
+  // Reserve stock for a customer
+  app.post("/api/reservations", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = insertReservationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid reservation data" });
+      }
+      
+      const reservation = await storage.createReservation(parsed.data, req.user?.username || null);
+      res.status(201).json(reservation);
+    } catch (error) {
+      console.error("Create reservation error:", error);
+      
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ 
+          error: error.message,
+          details: {
+            article: error.article,
+            smart: error.smart,
+            currentStock: error.currentStock,
+            requestedQty: error.requestedQty
+          }
+        });
+      }
+      
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create reservation" });
+      }
+    }
+  });
+
+  // Release reservation without selling
+  app.post("/api/reservations/:id/release", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const reservation = await storage.releaseReservation(id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.json(reservation);
+    } catch (error) {
+      console.error("Release reservation error:", error);
+      
+      if (error instanceof InvalidReservationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
+      res.status(500).json({ error: "Failed to release reservation" });
+    }
+  });
+
+  // Convert reservation into a sale awaiting shipment
+  app.post("/api/reservations/:id/convert", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const parsed = convertReservationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid sale data" });
+      }
+      
+      const movement = await storage.convertReservation(id, parsed.data, req.user?.username || null);
+      if (!movement) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.status(201).json(movement);
+    } catch (error) {
+      console.error("Convert reservation error:", error);
+      
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ 
+          error: error.message,
+          details: {
+            article: error.article,
+            smart: error.smart,
+            currentStock: error.currentStock,
+            requestedQty: error.requestedQty
+          }
+        });
+      }
+      
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to convert reservation" });
+      }
+    }
+  });
+
+  // Get customers
+  app.get("/api/customers", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const customers = await storage.getCustomers();
+      res.json(customers);
+    } catch (error) {
+      console.error("Get customers error:", error);
+      res.status(500).json({ error: "Failed to get customers" });
+    }
+  });
+
+  // Create customer
+  app.post("/api/customers", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const parsed = insertCustomerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid customer data" });
+      }
+      
+      const customer = await storage.createCustomer(parsed.data);
+      res.status(201).json(customer);
+    } catch (error) {
+      console.error("Create customer error:", error);
+      res.status(500).json({ error: "Failed to create customer" });
+    }
+  });
+
+  // Get customer with orders, purchase history and lifetime totals
+  app.get("/api/customers/:id", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const customer = await storage.getCustomerDetails(id);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      
+      // Profit is visible to managers only, like in sales analytics
+      if (!hasRole(req.user?.role, 'manager')) {
+        delete customer.lifetimeProfit;
+      }
+      res.json(customer);
+    } catch (error) {
+      console.error("Get customer error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get customer" });
+    }
+  });
+
+  // Get orders with customer contact and totals
+  app.get("/api/orders", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const orders = await storage.getOrders();
+      res.json(orders);
+    } catch (error) {
+      console.error("Get orders error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get orders" });
+    }
+  });
+
+  // Get suppliers
+  app.get("/api/suppliers", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Get suppliers error:", error);
+      res.status(500).json({ error: "Failed to get suppliers" });
+    }
+  });
+
+  // Create supplier
+  app.post("/api/suppliers", requireRole('manager'), async (req, res) => {
+    try {
+      const parsed = insertSupplierSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Name is required" });
+      }
+      
+      const supplier = await storage.createSupplier(parsed.data);
+      res.status(201).json(supplier);
+    } catch (error: any) {
+      console.error("Create supplier error:", error);
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: "Поставщик с таким названием уже существует" });
+      }
+      res.status(500).json({ error: "Failed to create supplier" });
+    }
+  });
+
+  // Get purchase orders with received quantities
+  app.get("/api/purchase-orders", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const orders = await storage.getPurchaseOrders();
+      res.json(orders);
+    } catch (error) {
+      console.error("Get purchase orders error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get purchase orders" });
+    }
+  });
+
+  // Get purchase order by ID
+  app.get("/api/purchase-orders/:id", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const order = await storage.getPurchaseOrderById(id);
+      if (!order) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Get purchase order error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get purchase order" });
+    }
+  });
+
+  // Create purchase order
+  app.post("/api/purchase-orders", requireRole('manager'), async (req, res) => {
+    try {
+      const parsed = insertPurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid purchase order data" });
+      }
+      
+      const order = await storage.createPurchaseOrder(parsed.data, req.user?.username || null);
+      res.status(201).json(order);
+    } catch (error) {
+      console.error("Create purchase order error:", error);
+      
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create purchase order" });
+      }
+    }
+  });
+
+  // Receive goods against a purchase order (all or part of the expected quantities)
+  app.post("/api/purchase-orders/:id/receive", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const parsed = receivePurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid receipt data" });
+      }
+      
+      const movements = await storage.receivePurchaseOrder(id, parsed.data, req.user?.username || null);
+      res.status(201).json(movements);
+    } catch (error) {
+      console.error("Receive purchase order error:", error);
+      
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to receive purchase order" });
+      }
+    }
+  });
+
+  // Close partially received purchase order
+  app.post("/api/purchase-orders/:id/close", requireRole('manager'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const order = await storage.closePurchaseOrder(id);
+      if (!order) {
+        return res.status(404).json({ error: "Open purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Close purchase order error:", error);
+      res.status(500).json({ error: "Failed to close purchase order" });
+    }
+  });
+
   // Get shipping methods
   app.get("/api/shipping-methods", async (req, res) => {
     try {
@@ -350,7 +1063,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create shipping method
-  app.post("/api/shipping-methods", async (req, res) => {
+  app.post("/api/shipping-methods", requireRole('manager'), async (req, res) => {
     try {
       const { name } = req.body;
       if (!name || typeof name !== 'string') {
@@ -366,7 +1079,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete shipping method
-  app.delete("/api/shipping-methods/:id", async (req, res) => {
+  app.delete("/api/shipping-methods/:id", requireRole('manager'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -382,7 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update movement sale status
-  app.patch("/api/movements/:id/status", async (req, res) => {
+  app.patch("/api/movements/:id/status", requireRole('storekeeper'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -394,32 +1107,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid status. Must be 'awaiting_shipment' or 'shipped'" });
       }
       
-      const movement = await storage.updateMovementSaleStatus(id, status);
+      const movement = await storage.updateMovementSaleStatus(id, status, req.user?.username || null);
       res.json(movement);
     } catch (error) {
       console.error("Update movement status error:", error);
+      
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
       res.status(500).json({ error: "Failed to update movement status" });
     }
   });
 
   // Mark sale as shipped
-  app.patch("/api/movements/:id/ship", async (req, res) => {
+  app.patch("/api/movements/:id/ship", requireRole('storekeeper'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID" });
       }
       
-      const movement = await storage.updateMovementSaleStatus(id, 'shipped');
+      const movement = await storage.updateMovementSaleStatus(id, 'shipped', req.user?.username || null);
       res.json(movement);
     } catch (error) {
       console.error("Mark as shipped error:", error);
+      
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      
       res.status(500).json({ error: "Failed to mark as shipped" });
     }
   });
 
   // Get sold out items (zero stock but had sales)
-  app.get("/api/sold-out", async (req, res) => {
+  app.get("/api/sold-out", requireRole('manager'), async (req, res) => {
     try {
       const items = await storage.getSoldOutItems();
       res.json(items);
@@ -430,7 +1153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get top parts ranking
-  app.get("/api/top-parts", async (req, res) => {
+  app.get("/api/top-parts", requireRole('manager'), async (req, res) => {
     try {
       const mode = req.query.mode as 'profit' | 'sales' | 'combined';
       if (!mode || !['profit', 'sales', 'combined'].includes(mode)) {
@@ -446,7 +1169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Return sold item to inventory
-  app.post("/api/movements/:id/return", async (req, res) => {
+  app.post("/api/movements/:id/return", requireRole('storekeeper'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -473,10 +1196,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         purchasePrice: null,
         salePrice: null,
         deliveryPrice: null,
-        boxNumber: null,
+        warehouseId: saleMovement.warehouseId, // back to the warehouse it was sold from
+        orderId: saleMovement.orderId,
+        boxNumber: saleMovement.boxNumber, // back into the box it was picked from
         trackNumber: null,
         shippingMethodId: null,
         saleStatus: null,
+        createdBy: req.user?.username || null,
       });
       
       res.status(201).json(returnMovement);
@@ -505,7 +1231,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk import
-  app.post("/api/bulk-import", upload.single('file'), async (req, res) => {
+  app.post("/api/bulk-import", requireRole('storekeeper'), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -559,7 +1285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Process bulk import
-      const result = await storage.processBulkImport(rows);
+      const result = await storage.processBulkImport(rows, req.user ? { username: req.user.username, role: req.user.role } : null);
       res.json(result);
     } catch (error) {
       console.error("Bulk import error:", error);
@@ -568,7 +1294,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Download import template
-  app.get("/api/import-template", (req, res) => {
+  app.get("/api/import-template", requireRole('storekeeper'), (req, res) => {
     const templateData = [
       { article: 'ABC-123', qty_delta: 10, reason: 'purchase', note: 'Example purchase', smart: '' },
       { article: 'DEF-456', qty_delta: -5, reason: 'sale', note: 'Example sale', smart: 'SMART-00123' },
@@ -585,6 +1311,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send(buffer);
   });
 
+  // Printable part labels for movements: ?movements=1,2,3[&perUnit=1]
+  app.get("/api/labels/parts", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const ids = String(req.query.movements || '')
+        .split(',')
+        .map(id => parseInt(id, 10))
+        .filter(id => !isNaN(id));
+      if (ids.length === 0 || ids.length > MAX_LABEL_ITEMS) {
+        return res.status(400).json({ error: `Укажите от 1 до ${MAX_LABEL_ITEMS} движений` });
+      }
+      
+      const labels = await storage.getPartLabels(ids, req.query.perUnit === '1');
+      res.type('html').send(renderPartLabels(labels));
+    } catch (error) {
+      console.error("Part labels error:", error);
+      res.status(500).json({ error: "Failed to render part labels" });
+    }
+  });
+
+  // Printable box labels with contents: ?boxes=A-01,A-02
+  app.get("/api/labels/boxes", requireRole('storekeeper'), async (req, res) => {
+    try {
+      const boxNumbers = String(req.query.boxes || '')
+        .split(',')
+        .map(boxNumber => boxNumber.trim())
+        .filter(Boolean);
+      if (boxNumbers.length === 0 || boxNumbers.length > MAX_LABEL_ITEMS) {
+        return res.status(400).json({ error: `Укажите от 1 до ${MAX_LABEL_ITEMS} коробок` });
+      }
+      
+      const labels = await storage.getBoxLabels(boxNumbers);
+      res.type('html').send(renderBoxLabels(labels));
+    } catch (error) {
+      console.error("Box labels error:", error);
+      if (error instanceof UnsupportedMovementSourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to render box labels" });
+    }
+  });
+
   // Dashboard stats
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
@@ -611,7 +1378,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Database connections management
+  // User management (admin only)
+  app.get("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ error: "Failed to get users" });
+    }
+  });
+
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid user data" });
+      }
+      
+      const { password, ...data } = parsed.data;
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Пользователь с таким именем уже существует" });
+      }
+      
+      const user = await storage.createUser({
+        ...data,
+        passwordHash: await hashPassword(password),
+      });
+      res.status(201).json(user);
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid user data" });
+      }
+      
+      // Admins can't demote themselves, otherwise nobody may be left to manage users
+      const { password, ...data } = parsed.data;
+      if (id === req.user?.id && data.role !== undefined && data.role !== 'admin') {
+        return res.status(400).json({ error: "Нельзя понизить собственную роль" });
+      }
+      
+      const user = await storage.updateUser(id, {
+        ...data,
+        passwordHash: password ? await hashPassword(password) : undefined,
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(user);
+    } catch (error) {
+      console.error("Update user error:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // Database connections management (admin only)
+  app.use("/api/db-connections", requireRole('admin'));
+
   app.get("/api/db-connections", async (req, res) => {
     try {
       const connections = await storage.getDbConnections();
@@ -638,6 +1473,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit credentials of a saved connection; blank password keeps the stored one
+  app.patch("/api/db-connections/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = updateDbConnectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid connection data" });
+      }
+
+      const connection = await storage.updateDbConnection(id, parsed.data);
+      // Password is already removed by storage layer
+      res.json(connection);
+    } catch (error) {
+      console.error("Update DB connection error:", error);
+      if (error instanceof InvalidConnectionUpdateError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof Error && error.message === 'Connection not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update database connection" });
+    }
+  });
+
   app.delete("/api/db-connections/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -678,6 +1541,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dry run of the SMART search against a proposed table/mapping; nothing is saved
+  app.post("/api/db-connections/:id/preview-mapping", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = smartMappingPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid mapping" });
+      }
+
+      const preview = await storage.previewSmartMapping(id, parsed.data);
+      res.json(preview);
+    } catch (error) {
+      console.error("Preview mapping error:", error);
+      if (error instanceof Error && error.message === 'Connection not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to preview mapping" });
+    }
+  });
+
+  // Article normalization rules of a SMART connection; null restores the defaults
+  app.put("/api/db-connections/:id/normalization-rules", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = normalizationRulesSchema.nullable().safeParse(req.body.rules);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid rules" });
+      }
+
+      const connection = await storage.updateNormalizationRules(id, parsed.data);
+      res.json(connection);
+    } catch (error) {
+      console.error("Update normalization rules error:", error);
+      if (error instanceof Error && error.message === 'Connection not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update normalization rules" });
+    }
+  });
+
+  // Normalize a sample input with unsaved rules, in TypeScript and in SQL
+  app.post("/api/db-connections/:id/normalization-rules/test", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = normalizationTestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid rules" });
+      }
+
+      const result = await storage.testNormalization(id, parsed.data.rules, parsed.data.input);
+      res.json(result);
+    } catch (error) {
+      console.error("Test normalization error:", error);
+      if (error instanceof Error && error.message === 'Connection not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to test normalization" });
+    }
+  });
+
   app.post("/api/db-connections/:id/configure", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -690,6 +1625,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fieldMapping,
       });
       
+      // A newly configured inventory database gets its tables and first account right
+      // away; on startup this only happens for the connection active at that time
+      if (role === 'inventory') {
+        const fullConn = await connectionsStorage.getConnectionById(id);
+        if (fullConn) {
+          await ensureExternalDbSchema(fullConn);
+        }
+        await bootstrapAdminUser();
+      }
+      
       res.json(result);
     } catch (error) {
       console.error("Configure connection error:", error);
@@ -701,6 +1646,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/db-connections/:id/pool-stats", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const stats = await storage.getDbConnectionPoolStats(id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Get pool stats error:", error);
+      if (error instanceof Error && error.message === 'Connection not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to get pool stats" });
+    }
+  });
+
   app.get("/api/db-connections/:id/columns", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -738,6 +1701,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Local SMART cache: sync state and row count
+  app.get("/api/smart-cache", requireRole('admin'), async (req, res) => {
+    try {
+      const status = await storage.getSmartCacheStatus();
+      res.json(status);
+    } catch (error) {
+      console.error("Get SMART cache status error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to get SMART cache status" });
+      }
+    }
+  });
+
+  // Refresh the local SMART cache now; waits for a refresh already running
+  app.post("/api/smart-cache/refresh", requireRole('admin'), async (req, res) => {
+    try {
+      const status = await storage.refreshSmartCache();
+      res.json(status);
+    } catch (error) {
+      console.error("Refresh SMART cache error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to refresh SMART cache" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
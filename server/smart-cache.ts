@@ -0,0 +1,258 @@
+import type { Pool, PoolClient } from 'pg';
+import type { DbConnection, NormalizationRules, Smart, SmartCacheStatus } from '@shared/schema';
+import { normalizeArticle } from '@shared/normalization';
+import { suggestionCandidateFilter, type CheckedTable } from './query-builder';
+
+type Queryable = Pool | PoolClient;
+
+// How often the local SMART copy is refreshed in the background
+export const SMART_CACHE_REFRESH_MS = (parseInt(process.env.SMART_CACHE_REFRESH_MINUTES || '', 10) || 60) * 60 * 1000;
+
+// Rows read from the SMART table per query while refreshing
+const FETCH_BATCH_SIZE = 5000;
+
+// Most SMART codes one search returns; short queries can match a large part of the table
+const SEARCH_LIMIT = 200;
+
+// Shortest query the trigram index can serve as a substring match
+const TRIGRAM_MIN_LENGTH = 3;
+
+// Most SMART codes checked for typo suggestions; the caller ranks them by distance
+export const SUGGESTION_CANDIDATES = 1000;
+
+export type SmartColumns = {
+  smart: string;
+  articles: string;
+  name: string;
+  brand: string;
+  description: string;
+};
+
+// Identifies the table/mapping/rules the cache was filled from, so a reconfigured
+// SMART connection is not answered from a copy of another table or with stale keys
+export function getSourceKey(conn: DbConnection): string {
+  return JSON.stringify([conn.id, conn.tableName, conn.fieldMapping, conn.normalizationRules || null]);
+}
+
+function mapCacheRow(row: any): Smart {
+  return {
+    smart: row.smart,
+    articles: row.articles,
+    name: row.name,
+    brand: row.brand,
+    description: row.description,
+  };
+}
+
+// Source key of the last successful refresh, null if the cache was never filled
+export async function getSyncedSourceKey(db: Queryable): Promise<string | null> {
+  const result = await db.query(
+    `SELECT source_key FROM inventory.smart_cache_sync WHERE id = 1 AND last_success_at IS NOT NULL`
+  );
+  return result.rows[0]?.source_key ?? null;
+}
+
+// Search on inventory.smart_cache_keys, one row per normalized SMART code or article
+// Substring matches use the trigram index; queries too short for a trigram match by prefix
+// Exact and prefix hits are picked before the limit so substring noise can't crowd them out
+export async function searchCache(db: Queryable, normalizedArticle: string): Promise<Smart[]> {
+  const escaped = normalizedArticle.replace(/[\\%_]/g, '\\$&');
+  const pattern = normalizedArticle.length >= TRIGRAM_MIN_LENGTH ? `%${escaped}%` : `${escaped}%`;
+  const result = await db.query(
+    `SELECT c.smart, c.articles, c.name, c.brand, c.description
+     FROM (
+       SELECT k.smart, MIN(CASE WHEN k.key = $2 THEN 0 WHEN k.key LIKE $3 THEN 1 ELSE 2 END) AS rank
+       FROM inventory.smart_cache_keys k
+       WHERE k.key LIKE $1
+       GROUP BY k.smart
+       ORDER BY rank, k.smart
+       LIMIT ${SEARCH_LIMIT}
+     ) m
+     JOIN inventory.smart_cache c ON c.smart = m.smart
+     ORDER BY m.rank, c.smart`,
+    [pattern, normalizedArticle, `${escaped}%`]
+  );
+  return result.rows.map(mapCacheRow);
+}
+
+// SMART records with a key that may be within a few edits of the query, unranked
+export async function suggestCandidates(db: Queryable, normalizedArticle: string): Promise<Smart[]> {
+  const filter = suggestionCandidateFilter('k.key', normalizedArticle, 1);
+  const result = await db.query(
+    `SELECT c.smart, c.articles, c.name, c.brand, c.description
+     FROM inventory.smart_cache c
+     WHERE c.smart IN (
+       SELECT k.smart FROM inventory.smart_cache_keys k
+       WHERE ${filter.sql}
+       LIMIT ${SUGGESTION_CANDIDATES}
+     )`,
+    filter.values
+  );
+  return result.rows.map(mapCacheRow);
+}
+
+export async function getCachedSmart(db: Queryable, smart: string): Promise<Smart | undefined> {
+  const result = await db.query(
+    `SELECT smart, articles, name, brand, description FROM inventory.smart_cache WHERE smart = $1`,
+    [smart]
+  );
+  return result.rows.length > 0 ? mapCacheRow(result.rows[0]) : undefined;
+}
+
+export async function getCachedNames(db: Queryable, smarts: string[]): Promise<Map<string, string | null>> {
+  const result = await db.query(
+    `SELECT smart, name FROM inventory.smart_cache WHERE smart = ANY($1)`,
+    [smarts]
+  );
+  return new Map(result.rows.map((row: any) => [row.smart, row.name]));
+}
+
+export async function getStatus(db: Queryable, activeSourceKey: string | null): Promise<SmartCacheStatus> {
+  const result = await db.query(
+    `SELECT s.*, (SELECT COUNT(*)::int FROM inventory.smart_cache) AS row_count
+     FROM inventory.smart_cache_sync s
+     WHERE s.id = 1`
+  );
+  const row = result.rows[0];
+  return {
+    state: row?.state || 'empty',
+    startedAt: row?.started_at || null,
+    finishedAt: row?.finished_at || null,
+    lastSuccessAt: row?.last_success_at || null,
+    rowCount: row?.row_count || 0,
+    inserted: row?.inserted || 0,
+    updated: row?.updated || 0,
+    deleted: row?.deleted || 0,
+    error: row?.error || null,
+    matchesActiveSource: !!row?.last_success_at && row.source_key === activeSourceKey,
+    refreshIntervalMinutes: SMART_CACHE_REFRESH_MS / 60000,
+  };
+}
+
+// Copy the SMART table into inventory.smart_cache with normalized keys
+// The copy is staged and merged in one transaction: readers see the old rows until it
+// commits, and only rows that changed are written
+export async function refresh(
+  inventory: Pool,
+  source: Pool,
+  table: CheckedTable,
+  columns: SmartColumns,
+  rules: NormalizationRules,
+  sourceKey: string
+): Promise<{ inserted: number; updated: number; deleted: number }> {
+  await inventory.query(
+    `UPDATE inventory.smart_cache_sync SET state = 'running', started_at = NOW(), error = NULL WHERE id = 1`
+  );
+
+  const client = await inventory.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `CREATE TEMP TABLE smart_cache_incoming (
+        smart TEXT, articles TEXT[], name TEXT, brand TEXT, description TEXT,
+        smart_key TEXT, article_keys TEXT[]
+      ) ON COMMIT DROP`
+    );
+
+    // Keyset pagination keeps each remote query small on large reference tables
+    let lastSmart: string | null = null;
+    for (;;) {
+      const batch: any = await source.query(
+        `SELECT ${table.column(columns.smart)}::text AS smart,
+           ${table.column(columns.articles)} AS articles,
+           ${table.column(columns.name)} AS name,
+           ${table.column(columns.brand)} AS brand,
+           ${table.column(columns.description)} AS description
+         FROM ${table.sql}
+         WHERE ${table.column(columns.smart)} IS NOT NULL
+           AND ($1::text IS NULL OR ${table.column(columns.smart)}::text > $1)
+         ORDER BY ${table.column(columns.smart)}::text
+         LIMIT ${FETCH_BATCH_SIZE}`,
+        [lastSmart]
+      );
+      if (batch.rows.length === 0) break;
+
+      const rows = batch.rows.map((row: any) => {
+        const articles: string[] = Array.isArray(row.articles) ? row.articles.filter(Boolean) : [];
+        return {
+          smart: row.smart,
+          articles,
+          name: row.name,
+          brand: row.brand,
+          description: row.description,
+          smart_key: normalizeArticle(row.smart, rules),
+          article_keys: articles.map(article => normalizeArticle(article, rules)),
+        };
+      });
+      await client.query(
+        `INSERT INTO smart_cache_incoming
+         SELECT * FROM json_populate_recordset(NULL::smart_cache_incoming, $1)`,
+        [JSON.stringify(rows)]
+      );
+
+      lastSmart = batch.rows[batch.rows.length - 1].smart;
+      if (batch.rows.length < FETCH_BATCH_SIZE) break;
+    }
+
+    // Search keys of changed rows are replaced in the same statement
+    const merged = await client.query(
+      `WITH merged AS (
+         INSERT INTO inventory.smart_cache AS c (smart, articles, name, brand, description, smart_key, article_keys, synced_at)
+         SELECT DISTINCT ON (smart) smart, articles, name, brand, description, smart_key, article_keys, NOW()
+         FROM smart_cache_incoming
+         ORDER BY smart
+         ON CONFLICT (smart) DO UPDATE SET
+           articles = EXCLUDED.articles,
+           name = EXCLUDED.name,
+           brand = EXCLUDED.brand,
+           description = EXCLUDED.description,
+           smart_key = EXCLUDED.smart_key,
+           article_keys = EXCLUDED.article_keys,
+           synced_at = EXCLUDED.synced_at
+         WHERE (c.articles, c.name, c.brand, c.description, c.smart_key, c.article_keys)
+           IS DISTINCT FROM (EXCLUDED.articles, EXCLUDED.name, EXCLUDED.brand, EXCLUDED.description, EXCLUDED.smart_key, EXCLUDED.article_keys)
+         RETURNING c.smart, c.smart_key, c.article_keys, (xmax = 0) AS inserted
+       ),
+       cleared AS (
+         DELETE FROM inventory.smart_cache_keys k USING merged m WHERE k.smart = m.smart
+       ),
+       keyed AS (
+         INSERT INTO inventory.smart_cache_keys (smart, key)
+         SELECT DISTINCT m.smart, key
+         FROM merged m, unnest(array_append(m.article_keys, m.smart_key)) AS key
+         WHERE key <> ''
+       )
+       SELECT COUNT(*) FILTER (WHERE inserted)::int AS inserted,
+              COUNT(*) FILTER (WHERE NOT inserted)::int AS updated
+       FROM merged`
+    );
+    const { inserted, updated } = merged.rows[0];
+
+    // Keys of removed rows go with them (ON DELETE CASCADE)
+    const removed = await client.query(
+      `DELETE FROM inventory.smart_cache c
+       WHERE NOT EXISTS (SELECT 1 FROM smart_cache_incoming i WHERE i.smart = c.smart)`
+    );
+    const deleted = removed.rowCount ?? 0;
+
+    await client.query(
+      `UPDATE inventory.smart_cache_sync
+       SET state = 'ok', finished_at = NOW(), last_success_at = NOW(), source_key = $1,
+           inserted = $2, updated = $3, deleted = $4, error = NULL
+       WHERE id = 1`,
+      [sourceKey, inserted, updated, deleted]
+    );
+    await client.query('COMMIT');
+
+    return { inserted, updated, deleted };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    await inventory.query(
+      `UPDATE inventory.smart_cache_sync SET state = 'error', finished_at = NOW(), error = $1 WHERE id = 1`,
+      [error instanceof Error ? error.message : String(error)]
+    );
+    throw error;
+  } finally {
+    client.release();
+  }
+}
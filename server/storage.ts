@@ -1,6 +1,6 @@
 import { eq, sql, and, ilike } from "drizzle-orm";
 import { partsDb, inventoryDb } from "./db";
-import { smart, reasons, movements, dbConnections, shippingMethods } from "@shared/schema";
+import { smart, reasons, movements, dbConnections, shippingMethods, normalizationRulesSchema, scanReasons } from "@shared/schema";
 import type {
   Smart,
   Reason,
@@ -10,8 +10,16 @@ import type {
   ArticleSearchResult,
   BulkImportRow,
   BulkImportResult,
+  DbConnection,
   SafeDbConnection,
   InsertDbConnection,
+  UpdateDbConnection,
+  SmartMappingPreviewRequest,
+  SmartMappingPreview,
+  SmartCacheStatus,
+  SmartSuggestion,
+  NormalizationRules,
+  NormalizationTestResult,
   DbConnectionTest,
   DbTablesResult,
   ConfigureConnectionPayload,
@@ -19,11 +27,66 @@ import type {
   ShippingMethod,
   InsertShippingMethod,
   SoldOutItem,
-  TopPart
+  TopPart,
+  PoolStats,
+  MovementAudit,
+  PurchaseMovement,
+  Warehouse,
+  WarehouseStock,
+  TransferPayload,
+  TransferResult,
+  Box,
+  InsertBox,
+  Barcode,
+  InsertBarcode,
+  PartLabel,
+  BoxLabel,
+  ScanBatch,
+  MovementDocument,
+  UpdateBox,
+  BoxSummary,
+  BoxContentItem,
+  BoxMovePayload,
+  Reservation,
+  ReservationStatus,
+  InsertReservation,
+  ConvertReservationPayload,
+  CreateMovementPayload,
+  Customer,
+  InsertCustomer,
+  OrderSummary,
+  CustomerDetails,
+  Supplier,
+  InsertSupplier,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderDetails,
+  InsertPurchaseOrder,
+  ReceivePurchaseOrderPayload,
+  User,
+  SafeUser,
+  UserRole
 } from "@shared/schema";
-import { normalizeArticle } from "@shared/normalization";
-import { Pool } from "pg";
+import { normalizeArticle, defaultNormalizationRules, suggestionMatch } from "@shared/normalization";
+import { canRecordReason } from "@shared/permissions";
+import { Pool, type PoolClient } from "pg";
 import * as connectionsStorage from "./connections-storage";
+import * as poolRegistry from "./pool-registry";
+import * as lots from "./lots";
+import * as boxes from "./boxes";
+import * as reservations from "./reservations";
+import * as purchaseOrders from "./purchase-orders";
+import * as smartCache from "./smart-cache";
+import { getMovementSource, requireNativeMovements, buildMappedInsert, resolveMovementMapping, UnsupportedMovementSourceError, type MovementSource } from "./movement-source";
+import { resolveTable, getTableColumns, normalizeSqlExpression, suggestionCandidateFilter, InvalidIdentifierError, type CheckedTable } from "./query-builder";
+import type { SaleCost } from "./lots";
+
+// "Did you mean" entries returned for a search / listed per bulk import row
+const SUGGESTION_LIMIT = 10;
+const BULK_IMPORT_SUGGESTIONS = 3;
+
+// Per-unit part labels printed for one movement at most
+const MAX_LABELS_PER_MOVEMENT = 100;
 
 export class InsufficientStockError extends Error {
   constructor(
@@ -37,23 +100,365 @@ export class InsufficientStockError extends Error {
   }
 }
 
+export class InvalidBoxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBoxError';
+  }
+}
+
+export class InvalidBarcodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBarcodeError';
+  }
+}
+
+// A line of a movement document failed; nothing from the document was recorded
+export class MovementDocumentLineError extends Error {
+  constructor(public line: number, public lineError: unknown) {
+    super(`Строка ${line + 1}: ${lineError instanceof Error ? lineError.message : String(lineError)}`);
+    this.name = 'MovementDocumentLineError';
+  }
+}
+
+export class InvalidCorrectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCorrectionError';
+  }
+}
+
+export class InvalidReservationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReservationError';
+  }
+}
+
+export class InvalidConnectionUpdateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidConnectionUpdateError';
+  }
+}
+
+// Column names for SMART fields, falling back to the default names
+function resolveSmartFields(fieldMapping: any) {
+  return {
+    smart: fieldMapping.smart || 'smart',
+    articles: fieldMapping.articles || 'articles',
+    name: fieldMapping.name || 'name',
+    brand: fieldMapping.brand || 'brand',
+    description: fieldMapping.description || 'description',
+  };
+}
+
+// Table and resolved columns a connection with a role reads, or null when there is
+// nothing to check (no role, or the app's own movements table, created on configure)
+function getRequiredColumns(connection: Pick<DbConnection, 'role' | 'tableName' | 'fieldMapping'>): { tableName: string; columns: string[] } | null {
+  if (connection.role === 'smart' && connection.tableName) {
+    const fields = resolveSmartFields(connection.fieldMapping || {});
+    return { tableName: connection.tableName, columns: Array.from(new Set(Object.values(fields))) };
+  }
+  if (connection.role === 'inventory') {
+    const { tableName, mapping, native } = resolveMovementMapping(connection);
+    if (native) return null;
+    const columns = Object.values(mapping).filter((column): column is string => !!column);
+    return { tableName, columns: Array.from(new Set(columns)) };
+  }
+  return null;
+}
+
+// Mapped SMART columns under the names mapSmartRow expects
+function smartSelectList(table: CheckedTable, fieldMapping: any): string {
+  const fields = resolveSmartFields(fieldMapping);
+  return `
+      ${table.column(fields.smart)} as smart,
+      ${table.column(fields.articles)} as articles,
+      ${table.column(fields.name)} as name,
+      ${table.column(fields.brand)} as brand,
+      ${table.column(fields.description)} as description`;
+}
+
+// Normalization rules stored on a SMART connection, or the defaults
+function getConnectionRules(conn: DbConnection): NormalizationRules {
+  const parsed = normalizationRulesSchema.safeParse(conn.normalizationRules);
+  return parsed.success ? parsed.data : defaultNormalizationRules;
+}
+
+// SMART search by code or article variant, $1 is the normalized article
+// Shared by searchSmart and the mapping preview so the preview runs the real query
+// Identifiers come from a table checked against information_schema and are quoted;
+// the normalization SQL is generated from the connection's rules
+function buildSmartSearchQuery(table: CheckedTable, fieldMapping: any, rules: NormalizationRules, limit?: number): string {
+  const fields = resolveSmartFields(fieldMapping);
+  return `
+    SELECT ${smartSelectList(table, fieldMapping)}
+    FROM ${table.sql}
+    WHERE 
+      -- Search by SMART code
+      ${normalizeSqlExpression(table.column(fields.smart), rules)} LIKE '%' || $1 || '%'
+      OR
+      -- Search by article variants
+      EXISTS (
+        SELECT 1 FROM unnest(${table.column(fields.articles)}) as article
+        WHERE ${normalizeSqlExpression('article', rules)} LIKE '%' || $1 || '%'
+      )
+    ${limit ? `LIMIT ${limit}` : ''}
+  `;
+}
+
+// SMART records with a SMART code or article that may be within a few edits of $1..$3,
+// for suggestions when the cache can't be used; candidates are ranked by the caller
+function buildSmartSuggestionQuery(
+  table: CheckedTable,
+  fieldMapping: any,
+  rules: NormalizationRules,
+  normalizedArticle: string
+): { text: string; values: unknown[] } {
+  const fields = resolveSmartFields(fieldMapping);
+  const filter = suggestionCandidateFilter('n.key', normalizedArticle, 1);
+  return {
+    text: `
+      SELECT ${smartSelectList(table, fieldMapping)}
+      FROM ${table.sql}
+      WHERE EXISTS (
+        SELECT 1
+        FROM unnest(array_append(${table.column(fields.articles)}, ${table.column(fields.smart)}::text)) AS v(value),
+          LATERAL (SELECT ${normalizeSqlExpression('v.value', rules)} AS key) n
+        WHERE ${filter.sql}
+      )
+      LIMIT ${smartCache.SUGGESTION_CANDIDATES}
+    `,
+    values: filter.values,
+  };
+}
+
+function mapSmartRow(row: any): Smart {
+  return {
+    smart: row.smart,
+    articles: row.articles,
+    name: row.name,
+    brand: row.brand,
+    description: row.description,
+  };
+}
+
+// Map snake_case movement row to camelCase
+function mapMovementRow(row: any): Movement {
+  return {
+    id: row.id,
+    smart: row.smart,
+    article: row.article,
+    qtyDelta: row.qty_delta,
+    reason: row.reason,
+    note: row.note,
+    purchasePrice: row.purchase_price,
+    salePrice: row.sale_price,
+    deliveryPrice: row.delivery_price,
+    warehouseId: row.warehouse_id,
+    boxNumber: row.box_number,
+    trackNumber: row.track_number,
+    shippingMethodId: row.shipping_method_id,
+    saleStatus: row.sale_status,
+    createdBy: row.created_by,
+    correctsMovementId: row.corrects_movement_id,
+    pairedMovementId: row.paired_movement_id,
+    orderId: row.order_id,
+    supplierId: row.supplier_id,
+    purchaseOrderLineId: row.purchase_order_line_id,
+    createdAt: row.created_at,
+  };
+}
+
+// Map snake_case audit row to camelCase
+function mapAuditRow(row: any): MovementAudit {
+  return {
+    id: row.id,
+    movementId: row.movement_id,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    changedBy: row.changed_by,
+    changedAt: row.changed_at,
+  };
+}
+
+type AuditedField = 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber' | 'saleStatus';
+
+// Editable fields of a movement; a new qtyDelta is posted as a correction movement
+export type MovementUpdate = Partial<Pick<Movement, 'purchasePrice' | 'note' | 'boxNumber' | 'qtyDelta'>>;
+
+async function insertAuditRow(
+  db: PoolClient,
+  movementId: number,
+  field: AuditedField,
+  oldValue: string | null,
+  newValue: string | null,
+  changedBy: string | null
+): Promise<void> {
+  await db.query(
+    `INSERT INTO inventory.movement_audit (movement_id, field, old_value, new_value, changed_by)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [movementId, field, oldValue, newValue, changedBy]
+  );
+}
+
+// Insert one audit row per field whose value actually changed
+async function recordAudit(
+  db: PoolClient,
+  before: Movement,
+  after: Movement,
+  fields: AuditedField[],
+  changedBy: string | null
+): Promise<void> {
+  for (const field of fields) {
+    const oldValue = before[field] === null || before[field] === undefined ? null : String(before[field]);
+    const newValue = after[field] === null || after[field] === undefined ? null : String(after[field]);
+    if (oldValue === newValue) continue;
+    
+    await insertAuditRow(db, after.id, field, oldValue, newValue, changedBy);
+  }
+}
+
+// Map snake_case box row to camelCase
+function mapBoxRow(row: any): Box {
+  return {
+    id: row.id,
+    boxNumber: row.box_number,
+    label: row.label,
+    capacityNote: row.capacity_note,
+    createdAt: row.created_at,
+  };
+}
+
+function mapBarcodeRow(row: any): Barcode {
+  return {
+    barcode: row.barcode,
+    smart: row.smart,
+    note: row.note,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+// Map snake_case customer row to camelCase
+function mapCustomerRow(row: any): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    email: row.email,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+// Map order row joined with customer contact and sale totals
+function mapOrderSummaryRow(row: any): OrderSummary {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    note: row.note,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    customerName: row.customer_name,
+    customerPhone: row.customer_phone,
+    customerEmail: row.customer_email,
+    itemCount: row.item_count,
+    total: parseFloat(row.total),
+  };
+}
+
+// Map snake_case supplier row to camelCase
+function mapSupplierRow(row: any): Supplier {
+  return {
+    id: row.id,
+    name: row.name,
+    contact: row.contact,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+// Map snake_case purchase order row to camelCase
+function mapPurchaseOrderRow(row: any): PurchaseOrder {
+  return {
+    id: row.id,
+    supplierId: row.supplier_id,
+    status: row.status,
+    note: row.note,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    closedAt: row.closed_at,
+  };
+}
+
+// Map snake_case purchase order line row to camelCase
+function mapPurchaseOrderLineRow(row: any): PurchaseOrderLine {
+  return {
+    id: row.id,
+    purchaseOrderId: row.purchase_order_id,
+    smart: row.smart,
+    article: row.article,
+    qty: row.qty,
+    price: row.price,
+  };
+}
+
+// Map snake_case reservation row to camelCase
+function mapReservationRow(row: any): Reservation {
+  return {
+    id: row.id,
+    smart: row.smart,
+    article: row.article,
+    qty: row.qty,
+    warehouseId: row.warehouse_id,
+    customerNote: row.customer_note,
+    expiresAt: row.expires_at,
+    status: row.status,
+    saleMovementId: row.sale_movement_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    closedAt: row.closed_at,
+  };
+}
+
+// Map snake_case user row to camelCase
+function mapUserRow(row: any): User {
+  return {
+    id: row.id,
+    username: row.username,
+    passwordHash: row.password_hash,
+    displayName: row.display_name,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
 export interface IStorage {
   // SMART reference operations
   searchSmart(normalizedArticle: string): Promise<Smart[]>;
+  suggestSmart(normalizedArticle: string): Promise<SmartSuggestion[]>;
   getSmartByCode(smart: string): Promise<Smart | undefined>;
   
   // Movement operations
-  createMovement(movement: InsertMovement): Promise<Movement>;
+  createMovement(movement: CreateMovementPayload): Promise<Movement>;
+  createMovementDocument(document: MovementDocument, createdBy?: string | null): Promise<Movement[]>;
   getMovements(limit?: number, offset?: number): Promise<Movement[]>;
   getMovementById(id: number): Promise<Movement | undefined>;
   getMovementsBySmartAndArticle(smart: string, article: string): Promise<Movement[]>;
-  getPurchasesBySmart(smart: string): Promise<Movement[]>;
+  getPurchasesBySmart(smart: string): Promise<PurchaseMovement[]>;
   getSalesBySmart(smart: string): Promise<Movement[]>;
-  updateMovement(id: number, updates: Partial<Pick<Movement, 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber'>>): Promise<Movement>;
-  updateMovementSaleStatus(id: number, status: 'awaiting_shipment' | 'shipped'): Promise<Movement>;
+  getSaleCosts(movementIds: number[]): Promise<Map<number, SaleCost>>;
+  updateMovement(id: number, updates: MovementUpdate, changedBy?: string | null): Promise<Movement>;
+  updateMovementSaleStatus(id: number, status: 'awaiting_shipment' | 'shipped', changedBy?: string | null): Promise<Movement>;
+  getMovementAudit(movementId: number): Promise<MovementAudit[]>;
   
   // Stock operations
-  getStockLevels(limit?: number, offset?: number): Promise<StockLevel[]>;
+  getStockLevels(limit?: number, offset?: number, warehouseId?: number): Promise<StockLevel[]>;
+  getWarehouseStockBySmart(smart: string): Promise<WarehouseStock[]>;
   getStockBySmartAndArticle(smart: string, article: string): Promise<StockLevel | undefined>;
   getTotalStockBySmart(smart: string): Promise<number>;
   getTotalStockBySmartBatch(smartCodes: string[]): Promise<Map<string, number>>;
@@ -70,36 +475,91 @@ export interface IStorage {
   createShippingMethod(method: InsertShippingMethod): Promise<ShippingMethod>;
   deleteShippingMethod(id: number): Promise<void>;
   
+  // Warehouses
+  getWarehouses(): Promise<Warehouse[]>;
+  createWarehouse(name: string): Promise<Warehouse>;
+  createTransfer(transfer: TransferPayload, createdBy?: string | null): Promise<TransferResult>;
+  
+  // Boxes
+  getBoxes(): Promise<BoxSummary[]>;
+  createBox(box: InsertBox): Promise<Box>;
+  updateBox(id: number, updates: UpdateBox): Promise<Box | undefined>;
+  getBoxContents(boxNumber: string): Promise<BoxContentItem[]>;
+  moveBetweenBoxes(move: BoxMovePayload, createdBy?: string | null): Promise<TransferResult>;
+  
+  // Barcodes and scanning
+  getBarcodes(smart?: string): Promise<Barcode[]>;
+  createBarcode(barcode: InsertBarcode, createdBy?: string | null): Promise<Barcode>;
+  deleteBarcode(barcode: string): Promise<boolean>;
+  getSmartByBarcode(barcode: string): Promise<Smart | undefined>;
+  createScanBatch(batch: ScanBatch, createdBy?: string | null): Promise<Movement[]>;
+  
+  // Labels
+  getPartLabels(movementIds: number[], perUnit: boolean): Promise<PartLabel[]>;
+  getBoxLabels(boxNumbers: string[]): Promise<BoxLabel[]>;
+  
+  // Reservations
+  getReservations(status?: ReservationStatus): Promise<Reservation[]>;
+  createReservation(reservation: InsertReservation, createdBy?: string | null): Promise<Reservation>;
+  releaseReservation(id: number): Promise<Reservation | undefined>;
+  convertReservation(id: number, sale: ConvertReservationPayload, createdBy?: string | null): Promise<Movement | undefined>;
+  releaseExpiredReservations(): Promise<number>;
+  
+  // Customers and orders
+  getCustomers(): Promise<Customer[]>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  getCustomerDetails(id: number): Promise<CustomerDetails | undefined>;
+  getOrders(): Promise<OrderSummary[]>;
+  
+  // Suppliers and purchase orders
+  getSuppliers(): Promise<Supplier[]>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  getPurchaseOrders(): Promise<PurchaseOrderDetails[]>;
+  getPurchaseOrderById(id: number): Promise<PurchaseOrderDetails | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrder, createdBy?: string | null): Promise<PurchaseOrderDetails>;
+  receivePurchaseOrder(id: number, receipt: ReceivePurchaseOrderPayload, createdBy?: string | null): Promise<Movement[]>;
+  closePurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  
   // Bulk import
-  processBulkImport(rows: BulkImportRow[]): Promise<BulkImportResult>;
+  processBulkImport(rows: BulkImportRow[], actor?: { username: string; role: UserRole } | null): Promise<BulkImportResult>;
+  
+  // Users
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserById(id: number): Promise<SafeUser | undefined>;
+  getUserCount(): Promise<number>;
+  getUsers(): Promise<SafeUser[]>;
+  createUser(user: { username: string; passwordHash: string; displayName?: string | null; role?: UserRole }): Promise<SafeUser>;
+  updateUser(id: number, updates: { passwordHash?: string; displayName?: string | null; role?: UserRole }): Promise<SafeUser | undefined>;
   
   // Database connections (password never returned)
   getDbConnections(): Promise<SafeDbConnection[]>;
   createDbConnection(connection: InsertDbConnection): Promise<SafeDbConnection>;
+  updateDbConnection(id: number, changes: UpdateDbConnection): Promise<SafeDbConnection>;
   deleteDbConnection(id: number): Promise<void>;
   testDbConnection(connection: InsertDbConnection): Promise<DbConnectionTest>;
+  getDbConnectionPoolStats(id: number): Promise<PoolStats>;
   getDbTables(connectionId: number): Promise<DbTablesResult>;
   configureConnection(payload: ConfigureConnectionPayload): Promise<SafeDbConnection>;
+  previewSmartMapping(connectionId: number, preview: SmartMappingPreviewRequest): Promise<SmartMappingPreview>;
   getActiveConnection(role: ConnectionRole): Promise<SafeDbConnection | null>;
   getTableColumns(connectionId: number, tableName: string): Promise<Array<{name: string, type: string}>>;
   createDefaultConnections(): Promise<void>;
+  
+  // Local SMART cache
+  refreshSmartCache(): Promise<SmartCacheStatus>;
+  getSmartCacheStatus(): Promise<SmartCacheStatus>;
+  
+  // Article normalization
+  getNormalizationRules(): Promise<NormalizationRules>;
+  updateNormalizationRules(connectionId: number, rules: NormalizationRules | null): Promise<SafeDbConnection>;
+  testNormalization(connectionId: number, rules: NormalizationRules, input: string): Promise<NormalizationTestResult>;
 }
 
 export class DatabaseStorage implements IStorage {
-  // Helper method to create external DB pool
-  private createExternalPool(conn: any): Pool {
-    return new Pool({
-      host: conn.host,
-      port: conn.port,
-      database: conn.database,
-      user: conn.username,
-      password: conn.password,
-      ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
-    });
-  }
+  // Refresh in progress, shared by the scheduler and the admin route
+  private smartCacheRefresh: Promise<SmartCacheStatus> | null = null;
 
   async searchSmart(normalizedArticle: string): Promise<Smart[]> {
-    let pool: Pool | null = null;
     try {
       // Get active SMART connection
       const activeConn = await this.getActiveConnection('smart');
@@ -117,70 +577,85 @@ export class DatabaseStorage implements IStorage {
       }
       const fieldMapping = (conn.fieldMapping as any) || {};
       
-      // Connect to external DB
-      pool = this.createExternalPool(conn);
-      
-      // Get field names from mapping or use defaults
-      const smartField = fieldMapping.smart || 'smart';
-      const articlesField = fieldMapping.articles || 'articles';
-      const nameField = fieldMapping.name || 'name';
-      const brandField = fieldMapping.brand || 'brand';
-      const descField = fieldMapping.description || 'description';
+      const cachePool = await this.getSmartCachePool(conn);
+      if (cachePool) {
+        try {
+          return await smartCache.searchCache(cachePool, normalizedArticle);
+        } catch (error) {
+          console.error('SMART cache search failed, querying SMART database:', error);
+        }
+      }
       
-      // Parse table name (schema.table or just table)
-      const tableName = conn.tableName || 'public.smart';
+      // Connect to external DB
+      const pool = poolRegistry.getPool(conn);
       
-      // Build and execute search query with normalization
-      // Note: Using template literals for identifiers (validated from DB schema)
-      // Supports searching by SMART code OR by article number
-      const query = `
-        SELECT 
-          "${smartField}" as smart,
-          "${articlesField}" as articles,
-          "${nameField}" as name,
-          "${brandField}" as brand,
-          "${descField}" as description
-        FROM ${tableName}
-        WHERE 
-          -- Search by SMART code
-          TRANSLATE(
-            UPPER(REGEXP_REPLACE("${smartField}", '[\\s\\-_./]', '', 'g')),
-            'АВЕКМНОРСТУХЁ',
-            'ABEKMHOPCTYXE'
-          ) LIKE '%' || $1 || '%'
-          OR
-          -- Search by article variants
-          EXISTS (
-            SELECT 1 FROM unnest("${articlesField}") as article
-            WHERE TRANSLATE(
-              UPPER(REGEXP_REPLACE(article, '[\\s\\-_./]', '', 'g')),
-              'АВЕКМНОРСТУХЁ',
-              'ABEKMHOPCTYXE'
-            ) LIKE '%' || $1 || '%'
-          )
-      `;
+      const table = await resolveTable(pool, conn.tableName || 'public.smart');
       
-      const result = await pool.query(query, [normalizedArticle]);
+      const result = await pool.query(buildSmartSearchQuery(table, fieldMapping, getConnectionRules(conn)), [normalizedArticle]);
       
-      return result.rows.map((row: any) => ({
-        smart: row.smart,
-        articles: row.articles,
-        name: row.name,
-        brand: row.brand,
-        description: row.description,
-      }));
+      return result.rows.map(mapSmartRow);
     } catch (error) {
       console.error('Error searching SMART:', error);
       throw new Error('Failed to search SMART database');
-    } finally {
-      if (pool) {
-        await pool.end();
+    }
+  }
+
+  // "Did you mean": SMART records within a few edits of an article that matched nothing,
+  // closest first. Look-alike characters (8/B, 0/O, 1/I...) count as equal
+  async suggestSmart(normalizedArticle: string): Promise<SmartSuggestion[]> {
+    if (!normalizedArticle) return [];
+    
+    try {
+      const activeConn = await this.getActiveConnection('smart');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const rules = getConnectionRules(conn);
+      
+      let candidates: Smart[] | null = null;
+      const cachePool = await this.getSmartCachePool(conn);
+      if (cachePool) {
+        try {
+          candidates = await smartCache.suggestCandidates(cachePool, normalizedArticle);
+        } catch (error) {
+          console.error('SMART cache suggestions failed, querying SMART database:', error);
+        }
+      }
+      
+      if (!candidates) {
+        const pool = poolRegistry.getPool(conn);
+        const table = await resolveTable(pool, conn.tableName || 'public.smart');
+        const query = buildSmartSuggestionQuery(table, (conn.fieldMapping as any) || {}, rules, normalizedArticle);
+        const result = await pool.query(query.text, query.values);
+        candidates = result.rows.map(mapSmartRow);
+      }
+      
+      const suggestions: SmartSuggestion[] = [];
+      for (const candidate of candidates) {
+        const articles = Array.isArray(candidate.articles) ? candidate.articles : [];
+        const match = suggestionMatch(candidate.smart, articles, normalizedArticle, rules);
+        if (match) {
+          suggestions.push({ ...candidate, ...match });
+        }
       }
+      
+      return suggestions
+        .sort((a, b) => a.distance - b.distance || a.smart.localeCompare(b.smart))
+        .slice(0, SUGGESTION_LIMIT);
+    } catch (error) {
+      console.error('Error suggesting SMART codes:', error);
+      throw new Error('Failed to suggest SMART codes');
     }
   }
 
   async getSmartByCode(smartCode: string): Promise<Smart | undefined> {
-    let pool: Pool | null = null;
     try {
       // Get active SMART connection
       const activeConn = await this.getActiveConnection('smart');
@@ -198,29 +673,28 @@ export class DatabaseStorage implements IStorage {
       }
       const fieldMapping = (conn.fieldMapping as any) || {};
       
-      // Connect to external DB
-      pool = this.createExternalPool(conn);
+      // Codes added since the last refresh are not cached yet, so a miss asks the SMART database
+      const cachePool = await this.getSmartCachePool(conn);
+      if (cachePool) {
+        try {
+          const cached = await smartCache.getCachedSmart(cachePool, smartCode);
+          if (cached) return cached;
+        } catch (error) {
+          console.error('SMART cache lookup failed, querying SMART database:', error);
+        }
+      }
       
-      // Get field names from mapping or use defaults
-      const smartField = fieldMapping.smart || 'smart';
-      const articlesField = fieldMapping.articles || 'articles';
-      const nameField = fieldMapping.name || 'name';
-      const brandField = fieldMapping.brand || 'brand';
-      const descField = fieldMapping.description || 'description';
+      // Connect to external DB
+      const pool = poolRegistry.getPool(conn);
       
-      // Parse table name (schema.table or just table)
-      const tableName = conn.tableName || 'public.smart';
+      const table = await resolveTable(pool, conn.tableName || 'public.smart');
+      const fields = resolveSmartFields(fieldMapping);
       
       // Build and execute query
       const query = `
-        SELECT 
-          "${smartField}" as smart,
-          "${articlesField}" as articles,
-          "${nameField}" as name,
-          "${brandField}" as brand,
-          "${descField}" as description
-        FROM ${tableName}
-        WHERE "${smartField}" = $1
+        SELECT ${smartSelectList(table, fieldMapping)}
+        FROM ${table.sql}
+        WHERE ${table.column(fields.smart)} = $1
         LIMIT 1
       `;
       
@@ -238,33 +712,108 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting SMART by code:', error);
       throw new Error('Failed to get SMART code');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
-  private async getCurrentStock(pool: Pool, smart: string, article: string): Promise<number> {
+  private async getCurrentStock(pool: Pool | PoolClient, source: MovementSource, smart: string, article: string, warehouseId: number): Promise<number> {
     // Stock is now grouped by SMART code only, not by article
-    // Check total stock for the SMART code regardless of article
+    // Check stock for the SMART code in the given warehouse regardless of article
     const result = await pool.query(
       `SELECT COALESCE(SUM(qty_delta), 0)::int as total_qty
-       FROM inventory.movements
-       WHERE smart = $1`,
-      [smart]
+       FROM ${source.relation} movements
+       WHERE smart = $1 AND warehouse_id = $2`,
+      [smart, warehouseId]
     );
     return result.rows[0]?.total_qty || 0;
   }
 
-  async createMovement(movement: InsertMovement): Promise<Movement> {
-    // Retry logic for serialization failures
+  // Order given explicitly must exist; otherwise a customer opens a new order
+  private async resolveOrderId(pool: Pool | PoolClient, movement: CreateMovementPayload): Promise<number | null> {
+    if (movement.orderId) {
+      const result = await pool.query(`SELECT id FROM inventory.orders WHERE id = $1`, [movement.orderId]);
+      if (result.rows.length === 0) {
+        throw new Error('Заказ не найден');
+      }
+      return result.rows[0].id;
+    }
+    
+    if (movement.customerId && movement.reason === 'sale') {
+      const customer = await pool.query(`SELECT id FROM inventory.customers WHERE id = $1`, [movement.customerId]);
+      if (customer.rows.length === 0) {
+        throw new Error('Клиент не найден');
+      }
+      const result = await pool.query(
+        `INSERT INTO inventory.orders (customer_id, created_by) VALUES ($1, $2) RETURNING id`,
+        [movement.customerId, movement.createdBy || null]
+      );
+      return result.rows[0].id;
+    }
+    
+    return null;
+  }
+
+  // Stock on hand minus units held by active reservations
+  private async getAvailableStock(
+    pool: Pool | PoolClient,
+    source: MovementSource,
+    smart: string,
+    article: string,
+    warehouseId: number,
+    excludeReservationId: number | null = null
+  ): Promise<number> {
+    const onHand = await this.getCurrentStock(pool, source, smart, article, warehouseId);
+    const reserved = await reservations.getReservedQty(pool, smart, warehouseId, excludeReservationId);
+    return onHand - reserved;
+  }
+
+  private async assertBoxExists(pool: Pool | PoolClient, boxNumber: string): Promise<void> {
+    if (!(await boxes.boxExists(pool, boxNumber))) {
+      throw new InvalidBoxError(`Коробка ${boxNumber} не найдена в реестре`);
+    }
+  }
+
+  // Box for an outgoing movement recorded without one: none while the units outside boxes
+  // cover it, otherwise the oldest box in the warehouse holding all of them
+  // A quantity that only several boxes together hold needs a movement per box
+  private async pickOutgoingBox(client: PoolClient, smart: string, warehouseId: number, available: number, qty: number): Promise<string | null> {
+    const boxed = await boxes.getBoxesWithSmart(client, smart, warehouseId);
+    const boxedQty = boxed.reduce((sum, box) => sum + box.qty, 0);
+    if (available - boxedQty >= qty) {
+      return null;
+    }
+
+    const box = boxed.find(candidate => candidate.qty >= qty);
+    if (!box) {
+      const list = boxed.map(candidate => `${candidate.boxNumber} (${candidate.qty} шт)`).join(', ');
+      throw new InvalidBoxError(`Товар лежит в нескольких коробках: ${list}. Укажите коробку и проведите количество из каждой отдельно`);
+    }
+    return box.boxNumber;
+  }
+
+  // Check that the warehouse exists, or fall back to the first one when none is given
+  private async resolveWarehouseId(pool: Pool | PoolClient, warehouseId: number | null | undefined): Promise<number> {
+    const result = warehouseId
+      ? await pool.query(`SELECT id FROM inventory.warehouses WHERE id = $1`, [warehouseId])
+      : await pool.query(`SELECT id FROM inventory.warehouses ORDER BY id LIMIT 1`);
+    
+    if (result.rows.length === 0) {
+      throw new Error('Склад не найден');
+    }
+    return result.rows[0].id;
+  }
+
+  async createMovement(movement: CreateMovementPayload): Promise<Movement> {
+    return this.retrySerializable(() => this.createMovementAttempt(movement), 'create movement');
+  }
+
+  // Retry a SERIALIZABLE transaction when it loses to a concurrent one
+  private async retrySerializable<T>(attemptFn: () => Promise<T>, action: string): Promise<T> {
     const maxRetries = 3;
     let lastError: any;
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        return await this.createMovementAttempt(movement);
+        return await attemptFn();
       } catch (error: any) {
         // Check if this is a serialization error
         const isSerializationError = 
@@ -285,11 +834,12 @@ export class DatabaseStorage implements IStorage {
     }
     
     // All retries exhausted
-    throw new Error(`Failed to create movement after ${maxRetries} attempts due to concurrent access: ${lastError?.message}`);
+    throw new Error(`Failed to ${action} after ${maxRetries} attempts due to concurrent access: ${lastError?.message}`);
   }
 
-  private async createMovementAttempt(movement: InsertMovement): Promise<Movement> {
-    let pool: Pool | null = null;
+  // reservationId: reservation being converted into this sale; its units are
+  // not counted as reserved and it is closed in the same transaction
+  private async createMovementAttempt(movement: CreateMovementPayload, reservationId: number | null = null): Promise<Movement> {
     try {
       // Verify SMART code exists
       const smartRecord = await this.getSmartByCode(movement.smart);
@@ -311,227 +861,374 @@ export class DatabaseStorage implements IStorage {
         throw new Error('Inventory connection not found');
       }
       
-      // Connect to external DB
-      pool = this.createExternalPool(conn);
+      const source = await getMovementSource(conn);
+      
+      // Transaction needs a dedicated client from the shared pool
+      const client = await poolRegistry.getPool(conn).connect();
       
       // Start transaction with SERIALIZABLE isolation for stock validation
       // This prevents race conditions where two concurrent transactions both read
       // the same stock level and both insert, potentially creating negative stock
-      await pool.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
-      
       try {
-        // Check for duplicate return within transaction to prevent race conditions
-        if (movement.reason === 'return' && movement.note && movement.note.includes('Возврат продажи #')) {
-          const match = movement.note.match(/Возврат продажи #(\d+)/);
-          if (match) {
-            const saleId = match[1];
-            const duplicateCheck = await pool.query(
-              `SELECT id FROM inventory.movements WHERE reason = 'return' AND note = $1 LIMIT 1`,
-              [`Возврат продажи #${saleId}`]
-            );
-            if (duplicateCheck.rows.length > 0) {
-              throw new Error('Товар уже возвращен на склад');
-            }
-          }
-        }
-        
-        // Get current stock for this article+smart combination
-        const currentStock = await this.getCurrentStock(pool, movement.smart, movement.article);
-        
-        // Validate stock based on operation type
-        const isDecrease = movement.reason === 'sale' || movement.reason === 'writeoff';
-        const isNegativeAdjust = movement.reason === 'adjust' && movement.qtyDelta < 0;
-        
-        if (isDecrease || isNegativeAdjust) {
-          const requestedQty = Math.abs(movement.qtyDelta);
-          
-          if (currentStock < requestedQty) {
-            throw new InsufficientStockError(
-              movement.article,
-              movement.smart,
-              currentStock,
-              requestedQty
-            );
-          }
-        }
-        
-        // Insert movement into external DB with new fields
-        const result = await pool.query(
-          `INSERT INTO inventory.movements (
-            smart, article, qty_delta, reason, note,
-            purchase_price, sale_price, delivery_price,
-            box_number, track_number, shipping_method_id, sale_status,
-            created_at
-          )
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
-           RETURNING *`,
-          [
-            movement.smart, 
-            movement.article, 
-            movement.qtyDelta, 
-            movement.reason, 
-            movement.note,
-            movement.purchasePrice || null,
-            movement.salePrice || null,
-            movement.deliveryPrice || null,
-            movement.boxNumber || null,
-            movement.trackNumber || null,
-            movement.shippingMethodId || null,
-            movement.saleStatus || null
-          ]
-        );
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        const created = await this.insertMovement(client, source, movement, reservationId);
         
         // Commit transaction
-        await pool.query('COMMIT');
+        await client.query('COMMIT');
         
-        // Map snake_case to camelCase
-        const row = result.rows[0];
-        return {
-          id: row.id,
-          smart: row.smart,
-          article: row.article,
-          qtyDelta: row.qty_delta,
-          reason: row.reason,
-          note: row.note,
-          purchasePrice: row.purchase_price,
-          salePrice: row.sale_price,
-          deliveryPrice: row.delivery_price,
-          boxNumber: row.box_number,
-          trackNumber: row.track_number,
-          shippingMethodId: row.shipping_method_id,
-          saleStatus: row.sale_status,
-          createdAt: row.created_at,
-        };
+        return created;
       } catch (txError) {
         // Rollback transaction on error
-        await pool.query('ROLLBACK');
+        await client.query('ROLLBACK');
         throw txError;
+      } finally {
+        client.release();
       }
     } catch (error) {
       console.error('Error creating movement:', error);
       throw error;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
-  async getMovements(limit = 50, offset = 0): Promise<Movement[]> {
-    let pool: Pool | null = null;
+  // All lines of the document in one SERIALIZABLE transaction with the checks of a
+  // single movement; later lines see the stock left by earlier ones
+  async createMovementDocument(document: MovementDocument, createdBy: string | null = null): Promise<Movement[]> {
     try {
-      // Get active inventory connection
-      const activeConn = await this.getActiveConnection('inventory');
-      
-      if (!activeConn) {
-        console.log('No active inventory connection found');
-        return [];
+      // SMART codes live in another database, so they are checked before the transaction
+      const checked = new Set<string>();
+      for (let i = 0; i < document.lines.length; i++) {
+        const smartCode = document.lines[i].smart;
+        if (checked.has(smartCode)) continue;
+        if (!(await this.getSmartByCode(smartCode))) {
+          throw new MovementDocumentLineError(i, new Error(`SMART code ${smartCode} not found in reference database`));
+        }
+        checked.add(smartCode);
       }
-      
-      // Get full connection details (including password)
-      const conn = await connectionsStorage.getConnectionById(activeConn.id);
 
-      if (!conn) {
-        return [];
-      }
-      
-      // Connect to external DB
-      pool = this.createExternalPool(conn);
-      
-      // Query movements from external DB
-      const result = await pool.query(
-        `SELECT * FROM inventory.movements 
-         ORDER BY created_at DESC 
-         LIMIT $1 OFFSET $2`,
-        [limit, offset]
-      );
-      
-      // Map snake_case to camelCase
-      return result.rows.map(row => ({
-        id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
-        createdAt: row.created_at,
-      }));
+      return await this.inSerializableTransaction(async (client, source) => {
+        const created: Movement[] = [];
+        let orderId = document.orderId || null;
+        
+        for (let i = 0; i < document.lines.length; i++) {
+          const line = document.lines[i];
+          try {
+            const movement = await this.insertMovement(client, source, {
+              smart: line.smart,
+              article: line.article,
+              qtyDelta: line.qtyDelta,
+              reason: document.reason,
+              note: line.note || document.note || null,
+              purchasePrice: line.purchasePrice || null,
+              salePrice: line.salePrice || null,
+              deliveryPrice: line.deliveryPrice || null,
+              warehouseId: document.warehouseId || null,
+              boxNumber: line.boxNumber || null,
+              trackNumber: document.trackNumber || null,
+              shippingMethodId: document.shippingMethodId || null,
+              saleStatus: document.reason === 'sale' ? 'awaiting_shipment' : null,
+              orderId,
+              customerId: orderId ? null : document.customerId || null,
+              supplierId: document.supplierId || null,
+              createdBy,
+            });
+            created.push(movement);
+            
+            // The first sale line opens the customer's order, the rest join it
+            if (movement.orderId) {
+              orderId = movement.orderId;
+            }
+          } catch (lineError: any) {
+            // Serialization failures retry the whole document
+            if (lineError?.code === '40001') throw lineError;
+            throw new MovementDocumentLineError(i, lineError);
+          }
+        }
+        
+        return created;
+      }, 'create movement document');
     } catch (error) {
-      console.error('Error getting movements:', error);
-      throw new Error('Failed to get movements');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
+      console.error('Error creating movement document:', error);
+      throw error;
     }
   }
 
-  async getMovementById(id: number): Promise<Movement | undefined> {
-    let pool: Pool | null = null;
-    try {
-      // Get active inventory connection
+  // Run `work` in one SERIALIZABLE transaction on the inventory database, retried when it
+  // loses to a concurrent one; whatever it writes is committed together or not at all
+  private async inSerializableTransaction<T>(
+    work: (client: PoolClient, source: MovementSource) => Promise<T>,
+    action: string
+  ): Promise<T> {
+    return this.retrySerializable(async () => {
       const activeConn = await this.getActiveConnection('inventory');
       
       if (!activeConn) {
-        return undefined;
+        throw new Error('No active inventory connection configured');
       }
       
-      // Get full connection details (including password)
       const conn = await connectionsStorage.getConnectionById(activeConn.id);
 
       if (!conn) {
-        return undefined;
+        throw new Error('Inventory connection not found');
       }
       
-      // Connect to external DB
-      pool = this.createExternalPool(conn);
-      
-      // Query movement by ID from external DB
-      const result = await pool.query(
-        `SELECT * FROM inventory.movements WHERE id = $1`,
-        [id]
-      );
-      
-      if (result.rows.length === 0) {
-        return undefined;
+      const source = await getMovementSource(conn);
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        const result = await work(client, source);
+        await client.query('COMMIT');
+        return result;
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
       }
-      
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
-        createdAt: row.created_at,
-      };
+    }, action);
+  }
+
+  // Checks and insert of one movement inside the caller's SERIALIZABLE transaction:
+  // stock (reserved units excluded), box, purchase order line, order, FIFO lots
+  private async insertMovement(
+    client: PoolClient,
+    source: MovementSource,
+    movement: CreateMovementPayload,
+    reservationId: number | null = null
+  ): Promise<Movement> {
+    // A mapped movements table only stores the core fields
+    if (!source.native) {
+      if (movement.boxNumber?.trim()) requireNativeMovements(source, 'Учёт по коробкам');
+      if (movement.purchaseOrderLineId) requireNativeMovements(source, 'Приёмка по заказу поставщику');
+      if (movement.orderId || movement.customerId) requireNativeMovements(source, 'Привязка продажи к заказу');
+    }
+    
+    // Check for duplicate return within transaction to prevent race conditions
+    if (movement.reason === 'return') {
+      const saleId = lots.getReturnedSaleId(movement.note);
+      if (saleId !== null) {
+        const duplicateCheck = await client.query(
+          `SELECT id FROM ${source.relation} movements WHERE reason = 'return' AND note = $1 LIMIT 1`,
+          [`Возврат продажи #${saleId}`]
+        );
+        if (duplicateCheck.rows.length > 0) {
+          throw new Error('Товар уже возвращен на склад');
+        }
+      }
+    }
+    
+    if (reservationId !== null) {
+      const reservation = await client.query(
+        `SELECT status, expires_at FROM inventory.reservations WHERE id = $1 FOR UPDATE`,
+        [reservationId]
+      );
+      if (reservation.rows[0]?.status !== 'active' || new Date(reservation.rows[0].expires_at) <= new Date()) {
+        throw new InvalidReservationError('Резерв уже закрыт или истёк');
+      }
+    }
+    
+    // Get stock available for this SMART code in the target warehouse (reserved units excluded)
+    const warehouseId = await this.resolveWarehouseId(client, movement.warehouseId);
+    if (!source.native && warehouseId !== await this.resolveWarehouseId(client, null)) {
+      requireNativeMovements(source, 'Учёт по складам');
+    }
+    const currentStock = await this.getAvailableStock(client, source, movement.smart, movement.article, warehouseId, reservationId);
+    
+    // Validate stock based on operation type
+    const isDecrease = movement.reason === 'sale' || movement.reason === 'writeoff';
+    const isNegativeAdjust = movement.reason === 'adjust' && movement.qtyDelta < 0;
+    
+    if (isDecrease || isNegativeAdjust) {
+      const requestedQty = Math.abs(movement.qtyDelta);
+      
+      if (currentStock < requestedQty) {
+        throw new InsufficientStockError(
+          movement.article,
+          movement.smart,
+          currentStock,
+          requestedQty
+        );
+      }
+    }
+    
+    // Box must be registered, and units taken out of a box must be in it
+    let boxNumber = movement.boxNumber?.trim() || null;
+    if (!boxNumber && isDecrease && source.native) {
+      boxNumber = await this.pickOutgoingBox(client, movement.smart, warehouseId, currentStock, Math.abs(movement.qtyDelta));
+    } else if (boxNumber) {
+      await this.assertBoxExists(client, boxNumber);
+      
+      if (isDecrease) {
+        const inBox = await boxes.getBoxQty(client, boxNumber, movement.smart);
+        if (inBox < Math.abs(movement.qtyDelta)) {
+          throw new InvalidBoxError(`В коробке ${boxNumber} недостаточно товара: ${inBox} шт`);
+        }
+      }
+    }
+    
+    // Purchases received against an order line take its supplier and can't exceed what is still expected
+    let supplierId: number | null = null;
+    let purchaseOrderLineId: number | null = null;
+    let purchaseOrderId: number | null = null;
+    if (movement.reason === 'purchase') {
+      supplierId = movement.supplierId || null;
+      purchaseOrderLineId = movement.purchaseOrderLineId || null;
+    }
+    if (purchaseOrderLineId !== null) {
+      const line = await purchaseOrders.getLineState(client, purchaseOrderLineId);
+      if (!line || line.smart !== movement.smart) {
+        throw new Error('Позиция заказа поставщику не найдена');
+      }
+      if (line.status !== 'open') {
+        throw new Error(`Заказ поставщику #${line.purchaseOrderId} уже закрыт`);
+      }
+      if (movement.qtyDelta > line.remaining) {
+        throw new Error(`По позиции заказа осталось принять ${line.remaining} шт`);
+      }
+      supplierId = line.supplierId;
+      purchaseOrderId = line.purchaseOrderId;
+    }
+    
+    // Sales join an existing order or open a new one for the customer;
+    // returns stay in the order of the sale they return
+    let orderId: number | null = null;
+    if (movement.reason === 'sale' || movement.reason === 'return') {
+      orderId = await this.resolveOrderId(client, movement);
+    }
+    
+    // Insert movement into external DB with new fields
+    // (a mapped table only receives the core fields)
+    let result;
+    if (source.native) {
+      result = await client.query(
+        `INSERT INTO inventory.movements (
+          smart, article, qty_delta, reason, note,
+          purchase_price, sale_price, delivery_price,
+          box_number, track_number, shipping_method_id, sale_status,
+          created_by, warehouse_id, order_id, supplier_id, purchase_order_line_id, created_at
+        )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())
+         RETURNING *`,
+        [
+          movement.smart, 
+          movement.article, 
+          movement.qtyDelta, 
+          movement.reason, 
+          movement.note,
+          movement.purchasePrice || null,
+          movement.salePrice || null,
+          movement.deliveryPrice || null,
+          boxNumber,
+          movement.trackNumber || null,
+          movement.shippingMethodId || null,
+          movement.saleStatus || null,
+          movement.createdBy || null,
+          warehouseId,
+          orderId,
+          supplierId,
+          purchaseOrderLineId
+        ]
+      );
+    } else {
+      result = await client.query(buildMappedInsert(source, movement));
+    }
+    
+    // Consume or restore FIFO purchase lots within the same transaction
+    // (lots need purchase prices, so a mapped table has none)
+    const created = mapMovementRow(result.rows[0]);
+    if (source.native) {
+      await lots.applyMovement(client, created);
+    }
+    
+    if (purchaseOrderId !== null) {
+      await purchaseOrders.completeIfReceived(client, purchaseOrderId);
+    }
+    
+    if (reservationId !== null) {
+      await client.query(
+        `UPDATE inventory.reservations
+         SET status = 'converted', sale_movement_id = $1, closed_at = NOW()
+         WHERE id = $2`,
+        [created.id, reservationId]
+      );
+    }
+    
+    return created;
+  }
+
+  async getMovements(limit = 50, offset = 0): Promise<Movement[]> {
+    try {
+      // Get active inventory connection
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        console.log('No active inventory connection found');
+        return [];
+      }
+      
+      // Get full connection details (including password)
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      
+      // Connect to external DB
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      // Query movements from external DB
+      const result = await pool.query(
+        `SELECT * FROM ${source.relation} movements 
+         ORDER BY created_at DESC 
+         LIMIT $1 OFFSET $2`,
+        [limit, offset]
+      );
+      
+      return result.rows.map(mapMovementRow);
+    } catch (error) {
+      console.error('Error getting movements:', error);
+      throw new Error('Failed to get movements');
+    }
+  }
+
+  async getMovementById(id: number): Promise<Movement | undefined> {
+    try {
+      // Get active inventory connection
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      // Get full connection details (including password)
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      
+      // Connect to external DB
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      // Query movement by ID from external DB
+      const result = await pool.query(
+        `SELECT * FROM ${source.relation} movements WHERE id = $1`,
+        [id]
+      );
+      
+      if (result.rows.length === 0) {
+        return undefined;
+      }
+      
+      return mapMovementRow(result.rows[0]);
     } catch (error) {
       console.error('Error getting movement by ID:', error);
       throw new Error('Failed to get movement');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async getMovementsBySmartAndArticle(smartCode: string, article: string): Promise<Movement[]> {
-    let pool: Pool | null = null;
     try {
       // Get active inventory connection
       const activeConn = await this.getActiveConnection('inventory');
@@ -546,44 +1243,24 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
       
       const result = await pool.query(
-        `SELECT * FROM inventory.movements 
+        `SELECT * FROM ${source.relation} movements 
          WHERE smart = $1 AND article = $2
          ORDER BY created_at DESC`,
         [smartCode, article]
       );
       
-      // Map snake_case to camelCase
-      return result.rows.map(row => ({
-        id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
-        createdAt: row.created_at,
-      }));
+      return result.rows.map(mapMovementRow);
     } catch (error) {
       console.error('Error getting movements by SMART and article:', error);
       throw new Error('Failed to get movements');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
-  async getStockLevels(limit = 50, offset = 0): Promise<StockLevel[]> {
-    let pool: Pool | null = null;
+  async getStockLevels(limit = 50, offset = 0, warehouseId?: number): Promise<StockLevel[]> {
     try {
       // Get active inventory connection
       const activeConn = await this.getActiveConnection('inventory');
@@ -598,16 +1275,32 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
       
-      // Get stock aggregates from inventory view (grouped by SMART only)
-      const result = await pool.query(
-        `SELECT smart, total_qty
-         FROM inventory.stock
-         ORDER BY smart
-         LIMIT $1 OFFSET $2`,
-        [limit, offset]
-      );
+      // Get stock aggregates from inventory view (grouped by SMART only,
+      // or by SMART and warehouse when filtering by warehouse)
+      const result = warehouseId
+        ? await pool.query(
+            `SELECT s.smart, s.total_qty, s.warehouse_id,
+               (SELECT COALESCE(SUM(r.qty), 0)::int FROM inventory.reservations r
+                WHERE r.smart = s.smart AND r.warehouse_id = s.warehouse_id
+                  AND r.status = 'active' AND r.expires_at > NOW()) AS reserved_qty
+             FROM ${source.stockByWarehouse} s
+             WHERE s.warehouse_id = $3
+             ORDER BY s.smart
+             LIMIT $1 OFFSET $2`,
+            [limit, offset, warehouseId]
+          )
+        : await pool.query(
+            `SELECT s.smart, s.total_qty,
+               (SELECT COALESCE(SUM(r.qty), 0)::int FROM inventory.reservations r
+                WHERE r.smart = s.smart AND r.status = 'active' AND r.expires_at > NOW()) AS reserved_qty
+             FROM ${source.stock} s
+             ORDER BY s.smart
+             LIMIT $1 OFFSET $2`,
+            [limit, offset]
+          );
       
       // Enrich with SMART reference data from active connection
       const enriched = await Promise.all(
@@ -616,6 +1309,8 @@ export class DatabaseStorage implements IStorage {
           return {
             smart: row.smart,
             totalQty: row.total_qty,
+            reservedQty: row.reserved_qty,
+            warehouseId: row.warehouse_id ?? undefined,
             brand: smartData?.brand || undefined,
             description: smartData?.description || undefined,
             name: smartData?.name || undefined,
@@ -627,10 +1322,49 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting stock levels:', error);
       throw new Error('Failed to get stock levels');
-    } finally {
-      if (pool) {
-        await pool.end();
+    }
+  }
+
+  async getWarehouseStockBySmart(smartCode: string): Promise<WarehouseStock[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
       }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      const result = await pool.query(
+        `SELECT s.warehouse_id, w.name, s.total_qty, COALESCE(r.qty, 0)::int AS reserved_qty
+         FROM ${source.stockByWarehouse} s
+         JOIN inventory.warehouses w ON w.id = s.warehouse_id
+         LEFT JOIN (
+           SELECT warehouse_id, SUM(qty) AS qty
+           FROM inventory.reservations
+           WHERE smart = $1 AND status = 'active' AND expires_at > NOW()
+           GROUP BY warehouse_id
+         ) r ON r.warehouse_id = s.warehouse_id
+         WHERE s.smart = $1
+         ORDER BY w.id`,
+        [smartCode]
+      );
+      
+      return result.rows.map(row => ({
+        warehouseId: row.warehouse_id,
+        warehouseName: row.name,
+        totalQty: parseInt(row.total_qty),
+        reservedQty: row.reserved_qty,
+      }));
+    } catch (error) {
+      console.error('Error getting warehouse stock:', error);
+      throw new Error('Failed to get warehouse stock');
     }
   }
 
@@ -650,7 +1384,6 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTotalStockBySmart(smartCode: string): Promise<number> {
-    let pool: Pool | null = null;
     try {
       // Get active inventory connection
       const activeConn = await this.getActiveConnection('inventory');
@@ -665,12 +1398,13 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return 0;
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
       
       // View already groups by SMART, so just get the total_qty directly
       const result = await pool.query(
         `SELECT total_qty
-         FROM inventory.stock
+         FROM ${source.stock} stock
          WHERE smart = $1`,
         [smartCode]
       );
@@ -679,15 +1413,10 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting total stock by SMART:', error);
       throw new Error('Failed to get total stock');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async getTotalStockBySmartBatch(smartCodes: string[]): Promise<Map<string, number>> {
-    let pool: Pool | null = null;
     const stockMap = new Map<string, number>();
     
     try {
@@ -709,12 +1438,13 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return stockMap;
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
       
       // Get stock for all SMART codes in one query
       const result = await pool.query(
         `SELECT smart, total_qty
-         FROM inventory.stock
+         FROM ${source.stock} stock
          WHERE smart = ANY($1)`,
         [smartCodes]
       );
@@ -736,15 +1466,10 @@ export class DatabaseStorage implements IStorage {
       console.error('Error getting total stock by SMART batch:', error);
       // Return partial results or empty map instead of throwing
       return stockMap;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async getReasons(): Promise<Reason[]> {
-    let pool: Pool | null = null;
     try {
       // Get active inventory connection
       const activeConn = await this.getActiveConnection('inventory');
@@ -759,7 +1484,7 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const result = await pool.query(
         `SELECT code, title FROM inventory.reasons ORDER BY code`
@@ -769,15 +1494,10 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting reasons:', error);
       throw new Error('Failed to get reasons');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async getShippingMethods(): Promise<ShippingMethod[]> {
-    let pool: Pool | null = null;
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -790,7 +1510,7 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const result = await pool.query(
         `SELECT id, name, created_at FROM inventory.shipping_methods ORDER BY name`
@@ -804,15 +1524,10 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting shipping methods:', error);
       throw new Error('Failed to get shipping methods');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async createShippingMethod(method: InsertShippingMethod): Promise<ShippingMethod> {
-    let pool: Pool | null = null;
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -825,7 +1540,7 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         throw new Error('Inventory connection not found');
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const result = await pool.query(
         `INSERT INTO inventory.shipping_methods (name) 
@@ -843,15 +1558,10 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error creating shipping method:', error);
       throw error;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
   async deleteShippingMethod(id: number): Promise<void> {
-    let pool: Pool | null = null;
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -864,7 +1574,7 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         throw new Error('Inventory connection not found');
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       await pool.query(
         `DELETE FROM inventory.shipping_methods WHERE id = $1`,
@@ -873,15 +1583,10 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error deleting shipping method:', error);
       throw error;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
-  async getPurchasesBySmart(smartCode: string): Promise<Movement[]> {
-    let pool: Pool | null = null;
+  async getWarehouses(): Promise<Warehouse[]> {
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -894,194 +1599,238 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const result = await pool.query(
-        `SELECT * FROM inventory.movements 
-         WHERE smart = $1 AND reason = 'purchase'
-         ORDER BY created_at DESC`,
-        [smartCode]
+        `SELECT id, name, created_at FROM inventory.warehouses ORDER BY id`
       );
       
-      return result.rows.map((row: any) => ({
+      return result.rows.map(row => ({
         id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
+        name: row.name,
         createdAt: row.created_at,
       }));
     } catch (error) {
-      console.error('Error getting purchases by SMART:', error);
-      throw new Error('Failed to get purchases');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
+      console.error('Error getting warehouses:', error);
+      throw new Error('Failed to get warehouses');
     }
   }
 
-  async getSalesBySmart(smartCode: string): Promise<Movement[]> {
-    let pool: Pool | null = null;
+  async createWarehouse(name: string): Promise<Warehouse> {
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
       if (!activeConn) {
-        return [];
+        throw new Error('No active inventory connection configured');
       }
       
       const conn = await connectionsStorage.getConnectionById(activeConn.id);
 
       if (!conn) {
-        return [];
+        throw new Error('Inventory connection not found');
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const result = await pool.query(
-        `SELECT * FROM inventory.movements 
-         WHERE smart = $1 AND reason = 'sale'
-         ORDER BY created_at DESC`,
-        [smartCode]
+        `INSERT INTO inventory.warehouses (name) 
+         VALUES ($1) 
+         RETURNING *`,
+        [name]
       );
       
-      return result.rows.map((row: any) => ({
+      const row = result.rows[0];
+      return {
         id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
+        name: row.name,
         createdAt: row.created_at,
-      }));
+      };
     } catch (error) {
-      console.error('Error getting sales by SMART:', error);
-      throw new Error('Failed to get sales');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
+      console.error('Error creating warehouse:', error);
+      throw error;
     }
   }
 
-  async getSoldOutItems(): Promise<SoldOutItem[]> {
-    let pool: Pool | null = null;
-    let smartPool: Pool | null = null;
+  // Transfer is posted as an outgoing movement from one warehouse and an incoming
+  // movement to the other, linked to each other, in one SERIALIZABLE transaction
+  async createTransfer(transfer: TransferPayload, createdBy: string | null = null): Promise<TransferResult> {
+    return this.retrySerializable(() => this.createTransferAttempt(transfer, createdBy), 'create transfer');
+  }
+
+  private async createTransferAttempt(transfer: TransferPayload, createdBy: string | null): Promise<TransferResult> {
     try {
+      const smartRecord = await this.getSmartByCode(transfer.smart);
+      if (!smartRecord) {
+        throw new Error(`SMART code ${transfer.smart} not found in reference database`);
+      }
+      
       const activeConn = await this.getActiveConnection('inventory');
       
       if (!activeConn) {
-        return [];
+        throw new Error('No active inventory connection configured');
       }
       
       const conn = await connectionsStorage.getConnectionById(activeConn.id);
 
       if (!conn) {
-        return [];
+        throw new Error('Inventory connection not found');
       }
-      pool = this.createExternalPool(conn);
       
-      // Get items with zero stock but had sales
-      const result = await pool.query(`
-        WITH stock_summary AS (
-          SELECT 
-            smart,
-            SUM(qty_delta) as current_stock
-          FROM inventory.movements
-          GROUP BY smart
-          HAVING SUM(qty_delta) = 0
-        ),
-        sales_summary AS (
-          SELECT 
-            m.smart,
-            AVG(CAST(m.sale_price AS NUMERIC)) as avg_sale_price,
-            MAX(m.created_at) as last_sale_date,
-            COUNT(*) as total_sales
-          FROM inventory.movements m
-          WHERE m.reason = 'sale'
-          GROUP BY m.smart
-        )
-        SELECT 
-          ss.smart,
-          COALESCE(sal.avg_sale_price, 0) as avg_sale_price,
-          sal.last_sale_date,
-          COALESCE(sal.total_sales, 0) as total_sales
-        FROM stock_summary ss
-        INNER JOIN sales_summary sal ON ss.smart = sal.smart
-        ORDER BY sal.last_sale_date DESC
-      `);
+      const source = await getMovementSource(conn);
+      requireNativeMovements(source, 'Перемещение между складами');
       
-      // Get SMART names from external DB
-      const smartConn = await this.getActiveConnection('smart');
-      if (smartConn) {
-        const smartConnData = await connectionsStorage.getConnectionById(smartConn.id);
-
-        if (smartConnData) {
-          smartPool = this.createExternalPool(smartConnData);
-          const fieldMapping = (smartConnData.fieldMapping as any) || {};
-          const smartField = fieldMapping.smart || 'smart';
-          const nameField = fieldMapping.name || 'name';
-          const tableName = smartConnData.tableName || 'smart';
-          
-          const smartCodes = result.rows.map((r: any) => r.smart);
-          if (smartCodes.length > 0) {
-            const namesResult = await smartPool.query(
-              `SELECT ${smartField} as smart, ${nameField} as name 
-               FROM ${tableName} 
-               WHERE ${smartField} = ANY($1)`,
-              [smartCodes]
-            );
-            
-            const namesMap = new Map(namesResult.rows.map((r: any) => [r.smart, r.name]));
-            
-            return result.rows.map((row: any) => ({
-              smart: row.smart,
-              name: namesMap.get(row.smart),
-              avgSalePrice: parseFloat(row.avg_sale_price),
-              lastSaleDate: row.last_sale_date,
-              totalSales: parseInt(row.total_sales),
-            }));
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        const fromId = await this.resolveWarehouseId(client, transfer.fromWarehouseId);
+        const toId = await this.resolveWarehouseId(client, transfer.toWarehouseId);
+        
+        const currentStock = await this.getAvailableStock(client, source, transfer.smart, transfer.article, fromId);
+        if (currentStock < transfer.qty) {
+          throw new InsufficientStockError(transfer.article, transfer.smart, currentStock, transfer.qty);
+        }
+        
+        const fromBox = transfer.fromBoxNumber?.trim() || null;
+        const toBox = transfer.toBoxNumber?.trim() || null;
+        if (fromBox) {
+          await this.assertBoxExists(client, fromBox);
+          const inBox = await boxes.getBoxQty(client, fromBox, transfer.smart);
+          if (inBox < transfer.qty) {
+            throw new InvalidBoxError(`В коробке ${fromBox} недостаточно товара: ${inBox} шт`);
           }
         }
+        if (toBox) {
+          await this.assertBoxExists(client, toBox);
+        }
+        
+        const insertLeg = (qtyDelta: number, warehouseId: number, boxNumber: string | null, pairedId: number | null) => client.query(
+          `INSERT INTO inventory.movements (
+            smart, article, qty_delta, reason, note, warehouse_id, box_number, paired_movement_id, created_by, created_at
+          )
+           VALUES ($1, $2, $3, 'transfer', $4, $5, $6, $7, $8, NOW())
+           RETURNING *`,
+          [transfer.smart, transfer.article, qtyDelta, transfer.note || null, warehouseId, boxNumber, pairedId, createdBy]
+        );
+        
+        const outgoingResult = await insertLeg(-transfer.qty, fromId, fromBox, null);
+        const incomingResult = await insertLeg(transfer.qty, toId, toBox, outgoingResult.rows[0].id);
+        const linkedResult = await client.query(
+          `UPDATE inventory.movements SET paired_movement_id = $1 WHERE id = $2 RETURNING *`,
+          [incomingResult.rows[0].id, outgoingResult.rows[0].id]
+        );
+        
+        await client.query('COMMIT');
+        
+        return {
+          outgoing: mapMovementRow(linkedResult.rows[0]),
+          incoming: mapMovementRow(incomingResult.rows[0]),
+        };
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error creating transfer:', error);
+      throw error;
+    }
+  }
+
+  async getBoxes(): Promise<BoxSummary[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
       }
       
-      return result.rows.map((row: any) => ({
-        smart: row.smart,
-        name: undefined,
-        avgSalePrice: parseFloat(row.avg_sale_price),
-        lastSaleDate: row.last_sale_date,
-        totalSales: parseInt(row.total_sales),
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт по коробкам');
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT b.*, COALESCE(SUM(m.qty_delta), 0)::int AS total_qty
+         FROM inventory.boxes b
+         LEFT JOIN inventory.movements m ON m.box_number = b.box_number
+         GROUP BY b.id
+         ORDER BY b.box_number`
+      );
+      
+      return result.rows.map(row => ({
+        ...mapBoxRow(row),
+        totalQty: row.total_qty,
       }));
     } catch (error) {
-      console.error('Error getting sold out items:', error);
-      throw new Error('Failed to get sold out items');
-    } finally {
-      if (pool) {
-        await pool.end();
+      console.error('Error getting boxes:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get boxes');
+    }
+  }
+
+  async createBox(box: InsertBox): Promise<Box> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
       }
-      if (smartPool) {
-        await smartPool.end();
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
       }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `INSERT INTO inventory.boxes (box_number, label, capacity_note) 
+         VALUES ($1, $2, $3) 
+         RETURNING *`,
+        [box.boxNumber.trim(), box.label || null, box.capacityNote || null]
+      );
+      
+      return mapBoxRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating box:', error);
+      throw error;
     }
   }
 
-  async getTopParts(mode: 'profit' | 'sales' | 'combined'): Promise<TopPart[]> {
-    let pool: Pool | null = null;
-    let smartPool: Pool | null = null;
+  async updateBox(id: number, updates: UpdateBox): Promise<Box | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      // Box number itself is immutable: movements reference it
+      const result = await pool.query(
+        `UPDATE inventory.boxes 
+         SET label = COALESCE($1, label), capacity_note = COALESCE($2, capacity_note)
+         WHERE id = $3
+         RETURNING *`,
+        [updates.label ?? null, updates.capacityNote ?? null, id]
+      );
+      
+      return result.rows.length > 0 ? mapBoxRow(result.rows[0]) : undefined;
+    } catch (error) {
+      console.error('Error updating box:', error);
+      throw new Error('Failed to update box');
+    }
+  }
+
+  async getBoxContents(boxNumber: string): Promise<BoxContentItem[]> {
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -1094,149 +1843,1744 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         return [];
       }
-      pool = this.createExternalPool(conn);
+      requireNativeMovements(await getMovementSource(conn), 'Учёт по коробкам');
+      const pool = poolRegistry.getPool(conn);
       
-      // Calculate top parts with different metrics
-      const result = await pool.query(`
-        WITH sales_data AS (
-          SELECT 
-            m.smart,
-            m.article,
-            SUM(ABS(m.qty_delta)) as total_sales_qty,
-            AVG(CAST(m.sale_price AS NUMERIC)) as avg_sale_price,
-            AVG(CAST(m.delivery_price AS NUMERIC)) as avg_delivery_price
-          FROM inventory.movements m
-          WHERE m.reason = 'sale'
-          GROUP BY m.smart, m.article
-        ),
-        purchase_data AS (
-          SELECT 
-            m.smart,
-            m.article,
-            m.created_at as purchase_date,
-            CAST(m.purchase_price AS NUMERIC) as purchase_price,
-            m.qty_delta as purchase_qty
-          FROM inventory.movements m
-          WHERE m.reason = 'purchase'
-        ),
-        profit_calc AS (
-          SELECT 
-            s.smart,
-            s.total_sales_qty,
-            s.avg_sale_price,
-            (
-              SELECT AVG(p.purchase_price)
-              FROM purchase_data p
-              WHERE p.smart = s.smart AND p.article = s.article
-              ORDER BY p.purchase_date DESC
-              LIMIT 10
-            ) as avg_purchase_price,
-            COALESCE(s.avg_delivery_price, 0) as avg_delivery_price
-          FROM sales_data s
-        ),
-        stock_calc AS (
-          SELECT 
-            smart,
-            SUM(qty_delta) as current_stock
-          FROM inventory.movements
-          GROUP BY smart
-        )
-        SELECT 
-          p.smart,
-          COALESCE(p.avg_sale_price - p.avg_purchase_price - p.avg_delivery_price, 0) as avg_profit,
-          COALESCE(p.total_sales_qty, 0) as total_sales,
-          CASE 
-            WHEN p.avg_purchase_price > 0 THEN 
-              ((p.avg_sale_price - p.avg_purchase_price - p.avg_delivery_price) / p.avg_purchase_price * 100)
-            ELSE 0
-          END as profit_margin,
-          COALESCE(s.current_stock, 0) as current_stock
-        FROM profit_calc p
-        LEFT JOIN stock_calc s ON p.smart = s.smart
-        WHERE p.avg_purchase_price IS NOT NULL
-      `);
+      const contents = await boxes.getBoxContents(pool, boxNumber);
       
-      // Calculate combined score for each item
-      const items = result.rows.map((row: any) => {
-        const avgProfit = parseFloat(row.avg_profit);
-        const totalSales = parseInt(row.total_sales);
-        const profitMargin = parseFloat(row.profit_margin);
-        const currentStock = parseInt(row.current_stock);
+      // Enrich with SMART reference data from active connection
+      return await Promise.all(
+        contents.map(async (item) => {
+          const smartData = await this.getSmartByCode(item.smart);
+          return {
+            smart: item.smart,
+            name: smartData?.name || undefined,
+            qty: item.qty,
+          };
+        })
+      );
+    } catch (error) {
+      console.error('Error getting box contents:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get box contents');
+    }
+  }
+
+  // Box move is posted like a transfer: paired 'box_move' movements out of one box
+  // and into the other, so box contents stay computable from movements
+  async moveBetweenBoxes(move: BoxMovePayload, createdBy: string | null = null): Promise<TransferResult> {
+    return this.retrySerializable(() => this.moveBetweenBoxesAttempt(move, createdBy), 'move between boxes');
+  }
+
+  private async moveBetweenBoxesAttempt(move: BoxMovePayload, createdBy: string | null): Promise<TransferResult> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      
+      requireNativeMovements(await getMovementSource(conn), 'Перемещение между коробками');
+      
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        await this.assertBoxExists(client, move.fromBoxNumber);
+        await this.assertBoxExists(client, move.toBoxNumber);
         
-        // Weighted formula: (sales × 0.5) + (profit × 0.5)
-        // Normalize sales (max 100) and profit (max 1000) for fair weighting
-        const normalizedSales = Math.min(totalSales / 10, 100);
-        const normalizedProfit = Math.min(avgProfit / 10, 100);
-        const combinedScore = (normalizedSales * 0.5) + (normalizedProfit * 0.5);
+        const inBox = await boxes.getBoxQty(client, move.fromBoxNumber, move.smart);
+        if (inBox < move.qty) {
+          throw new InvalidBoxError(`В коробке ${move.fromBoxNumber} недостаточно товара: ${inBox} шт`);
+        }
+        
+        // Both legs use article and warehouse of the latest movement that put units into the box
+        const source = await client.query(
+          `SELECT article, warehouse_id FROM inventory.movements
+           WHERE box_number = $1 AND smart = $2 AND qty_delta > 0
+           ORDER BY created_at DESC, id DESC
+           LIMIT 1`,
+          [move.fromBoxNumber, move.smart]
+        );
+        const { article, warehouse_id: warehouseId } = source.rows[0];
+        
+        const insertLeg = (qtyDelta: number, boxNumber: string, pairedId: number | null) => client.query(
+          `INSERT INTO inventory.movements (
+            smart, article, qty_delta, reason, note, warehouse_id, box_number, paired_movement_id, created_by, created_at
+          )
+           VALUES ($1, $2, $3, 'box_move', $4, $5, $6, $7, $8, NOW())
+           RETURNING *`,
+          [move.smart, article, qtyDelta, move.note || null, warehouseId, boxNumber, pairedId, createdBy]
+        );
+        
+        const outgoingResult = await insertLeg(-move.qty, move.fromBoxNumber, null);
+        const incomingResult = await insertLeg(move.qty, move.toBoxNumber, outgoingResult.rows[0].id);
+        const linkedResult = await client.query(
+          `UPDATE inventory.movements SET paired_movement_id = $1 WHERE id = $2 RETURNING *`,
+          [incomingResult.rows[0].id, outgoingResult.rows[0].id]
+        );
+        
+        await client.query('COMMIT');
         
         return {
-          smart: row.smart,
-          name: undefined,
-          avgProfit,
-          totalSales,
-          profitMargin,
-          currentStock,
-          combinedScore,
+          outgoing: mapMovementRow(linkedResult.rows[0]),
+          incoming: mapMovementRow(incomingResult.rows[0]),
         };
-      });
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error moving between boxes:', error);
+      throw error;
+    }
+  }
+
+  async getBarcodes(smart?: string): Promise<Barcode[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
       
-      // Sort based on mode
-      let sortedItems: any[];
-      if (mode === 'profit') {
-        sortedItems = items.sort((a, b) => b.avgProfit - a.avgProfit);
-      } else if (mode === 'sales') {
-        sortedItems = items.sort((a, b) => b.totalSales - a.totalSales);
-      } else {
-        sortedItems = items.sort((a, b) => b.combinedScore! - a.combinedScore!);
+      if (!activeConn) {
+        return [];
       }
       
-      // Get SMART names from external DB
-      const smartConn = await this.getActiveConnection('smart');
-      if (smartConn) {
-        const smartConnData = await connectionsStorage.getConnectionById(smartConn.id);
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
 
-        if (smartConnData) {
-          smartPool = this.createExternalPool(smartConnData);
-          const fieldMapping = (smartConnData.fieldMapping as any) || {};
-          const smartField = fieldMapping.smart || 'smart';
-          const nameField = fieldMapping.name || 'name';
-          const tableName = smartConnData.tableName || 'smart';
-          
-          const smartCodes = sortedItems.map((item) => item.smart);
-          if (smartCodes.length > 0) {
-            const namesResult = await smartPool.query(
-              `SELECT ${smartField} as smart, ${nameField} as name 
-               FROM ${tableName} 
-               WHERE ${smartField} = ANY($1)`,
-              [smartCodes]
-            );
-            
-            const namesMap = new Map(namesResult.rows.map((r: any) => [r.smart, r.name]));
-            
-            return sortedItems.map((item) => ({
-              ...item,
-              name: namesMap.get(item.smart),
-            }));
-          }
-        }
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.barcodes
+         WHERE $1::varchar IS NULL OR smart = $1
+         ORDER BY smart, barcode`,
+        [smart || null]
+      );
+      
+      return result.rows.map(mapBarcodeRow);
+    } catch (error) {
+      console.error('Error getting barcodes:', error);
+      throw new Error('Failed to get barcodes');
+    }
+  }
+
+  async createBarcode(barcode: InsertBarcode, createdBy: string | null = null): Promise<Barcode> {
+    try {
+      const smartRecord = await this.getSmartByCode(barcode.smart);
+      if (!smartRecord) {
+        throw new InvalidBarcodeError(`SMART код ${barcode.smart} не найден`);
+      }
+      
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `INSERT INTO inventory.barcodes (barcode, smart, note, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [barcode.barcode.trim(), smartRecord.smart, barcode.note || null, createdBy]
+      );
+      
+      return mapBarcodeRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating barcode:', error);
+      throw error;
+    }
+  }
+
+  async deleteBarcode(barcode: string): Promise<boolean> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`DELETE FROM inventory.barcodes WHERE barcode = $1`, [barcode]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting barcode:', error);
+      throw new Error('Failed to delete barcode');
+    }
+  }
+
+  // SMART record a scanned barcode alias points to
+  async getSmartByBarcode(barcode: string): Promise<Smart | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT smart FROM inventory.barcodes WHERE barcode = $1`, [barcode]);
+      if (result.rows.length === 0) {
+        return undefined;
+      }
+      
+      return await this.getSmartByCode(result.rows[0].smart);
+    } catch (error) {
+      console.error('Error resolving barcode:', error);
+      throw new Error('Failed to resolve barcode');
+    }
+  }
+
+  // A scan session is recorded as a movement document: all lines in one transaction,
+  // so a rejected line (MovementDocumentLineError) leaves nothing of the session posted
+  async createScanBatch(batch: ScanBatch, createdBy: string | null = null): Promise<Movement[]> {
+    const sign = scanReasons[batch.reason];
+    return this.createMovementDocument({
+      reason: batch.reason,
+      note: batch.note || null,
+      warehouseId: batch.warehouseId || null,
+      lines: batch.lines.map(line => ({
+        smart: line.smart,
+        article: line.article,
+        qtyDelta: sign * line.qty,
+        boxNumber: batch.boxNumber || null,
+      })),
+    }, createdBy);
+  }
+
+  // Part stickers for movements, in the order given; perUnit prints one per unit moved
+  async getPartLabels(movementIds: number[], perUnit: boolean): Promise<PartLabel[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      const result = await pool.query(
+        `SELECT id, smart, article, qty_delta, box_number FROM ${source.relation} movements WHERE id = ANY($1)`,
+        [movementIds]
+      );
+      const movementsById = new Map(result.rows.map((row: any) => [row.id, row]));
+      
+      const smartRecords = new Map<string, Smart | undefined>();
+      const labels: PartLabel[] = [];
+      for (const id of movementIds) {
+        const movement: any = movementsById.get(id);
+        if (!movement) continue;
+        
+        if (!smartRecords.has(movement.smart)) {
+          smartRecords.set(movement.smart, await this.getSmartByCode(movement.smart));
+        }
+        const smartRecord = smartRecords.get(movement.smart);
+        const articles = Array.isArray(smartRecord?.articles) ? smartRecord!.articles : [];
+        
+        const label: PartLabel = {
+          smart: movement.smart,
+          article: articles[0] || movement.article,
+          brand: smartRecord?.brand || null,
+          name: smartRecord?.name || null,
+          boxNumber: movement.box_number,
+        };
+        const copies = perUnit ? Math.min(Math.abs(movement.qty_delta), MAX_LABELS_PER_MOVEMENT) : 1;
+        for (let i = 0; i < copies; i++) {
+          labels.push(label);
+        }
+      }
+      
+      return labels;
+    } catch (error) {
+      console.error('Error getting part labels:', error);
+      throw new Error('Failed to get part labels');
+    }
+  }
+
+  // Box stickers with current contents; unknown box numbers are skipped
+  async getBoxLabels(boxNumbers: string[]): Promise<BoxLabel[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.boxes WHERE box_number = ANY($1)`,
+        [boxNumbers]
+      );
+      const boxesByNumber = new Map(result.rows.map((row: any) => [row.box_number, mapBoxRow(row)]));
+      
+      const labels: BoxLabel[] = [];
+      for (const boxNumber of boxNumbers) {
+        const box = boxesByNumber.get(boxNumber);
+        if (!box) continue;
+        
+        labels.push({
+          boxNumber: box.boxNumber,
+          label: box.label,
+          contents: await this.getBoxContents(box.boxNumber),
+        });
+      }
+      
+      return labels;
+    } catch (error) {
+      console.error('Error getting box labels:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get box labels');
+    }
+  }
+
+  async getReservations(status?: ReservationStatus): Promise<Reservation[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      // Don't show reservations as active after they expired, even between background runs
+      await reservations.releaseExpired(pool);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.reservations
+         WHERE ($1::varchar IS NULL OR status = $1)
+         ORDER BY (status = 'active') DESC, expires_at, id`,
+        [status || null]
+      );
+      
+      return result.rows.map(mapReservationRow);
+    } catch (error) {
+      console.error('Error getting reservations:', error);
+      throw new Error('Failed to get reservations');
+    }
+  }
+
+  async createReservation(reservation: InsertReservation, createdBy: string | null = null): Promise<Reservation> {
+    return this.retrySerializable(() => this.createReservationAttempt(reservation, createdBy), 'create reservation');
+  }
+
+  private async createReservationAttempt(reservation: InsertReservation, createdBy: string | null): Promise<Reservation> {
+    try {
+      const smartRecord = await this.getSmartByCode(reservation.smart);
+      if (!smartRecord) {
+        throw new Error(`SMART code ${reservation.smart} not found in reference database`);
+      }
+      
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      
+      const source = await getMovementSource(conn);
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        const warehouseId = await this.resolveWarehouseId(client, reservation.warehouseId);
+        const available = await this.getAvailableStock(client, source, reservation.smart, reservation.article, warehouseId);
+        if (available < reservation.qty) {
+          throw new InsufficientStockError(reservation.article, reservation.smart, available, reservation.qty);
+        }
+        
+        const result = await client.query(
+          `INSERT INTO inventory.reservations (
+            smart, article, qty, warehouse_id, customer_note, expires_at, created_by
+          )
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [
+            reservation.smart,
+            reservation.article,
+            reservation.qty,
+            warehouseId,
+            reservation.customerNote || null,
+            reservation.expiresAt,
+            createdBy,
+          ]
+        );
+        
+        await client.query('COMMIT');
+        
+        return mapReservationRow(result.rows[0]);
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      throw error;
+    }
+  }
+
+  async releaseReservation(id: number): Promise<Reservation | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const existing = await pool.query(`SELECT status FROM inventory.reservations WHERE id = $1`, [id]);
+      if (existing.rows.length === 0) {
+        return undefined;
+      }
+      
+      const result = await pool.query(
+        `UPDATE inventory.reservations
+         SET status = 'released', closed_at = NOW()
+         WHERE id = $1 AND status = 'active'
+         RETURNING *`,
+        [id]
+      );
+      if (result.rows.length === 0) {
+        throw new InvalidReservationError('Резерв уже закрыт');
+      }
+      
+      return mapReservationRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error releasing reservation:', error);
+      throw error;
+    }
+  }
+
+  // Record the reserved units as a sale awaiting shipment
+  async convertReservation(id: number, sale: ConvertReservationPayload, createdBy: string | null = null): Promise<Movement | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT * FROM inventory.reservations WHERE id = $1`, [id]);
+      if (result.rows.length === 0) {
+        return undefined;
+      }
+      const reservation = mapReservationRow(result.rows[0]);
+      
+      // Status is checked again under lock inside the movement transaction
+      const movement: CreateMovementPayload = {
+        smart: reservation.smart,
+        article: reservation.article,
+        qtyDelta: -reservation.qty,
+        reason: 'sale',
+        note: sale.note || reservation.customerNote || null,
+        salePrice: sale.salePrice,
+        deliveryPrice: sale.deliveryPrice || null,
+        warehouseId: reservation.warehouseId,
+        boxNumber: sale.boxNumber || null,
+        shippingMethodId: sale.shippingMethodId || null,
+        saleStatus: 'awaiting_shipment',
+        customerId: sale.customerId || null,
+        createdBy,
+      };
+      
+      return await this.retrySerializable(() => this.createMovementAttempt(movement, id), 'convert reservation');
+    } catch (error) {
+      console.error('Error converting reservation:', error);
+      throw error;
+    }
+  }
+
+  async releaseExpiredReservations(): Promise<number> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return 0;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return 0;
+      }
+      
+      return await reservations.releaseExpired(poolRegistry.getPool(conn));
+    } catch (error) {
+      console.error('Error releasing expired reservations:', error);
+      throw new Error('Failed to release expired reservations');
+    }
+  }
+
+  async getCustomers(): Promise<Customer[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT * FROM inventory.customers ORDER BY name, id`);
+      
+      return result.rows.map(mapCustomerRow);
+    } catch (error) {
+      console.error('Error getting customers:', error);
+      throw new Error('Failed to get customers');
+    }
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `INSERT INTO inventory.customers (name, phone, email, note) 
+         VALUES ($1, $2, $3, $4) 
+         RETURNING *`,
+        [customer.name, customer.phone || null, customer.email || null, customer.note || null]
+      );
+      
+      return mapCustomerRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      throw new Error('Failed to create customer');
+    }
+  }
+
+  // Orders with customer contact and sale totals, newest first
+  private async queryOrderSummaries(pool: Pool, customerId: number | null): Promise<OrderSummary[]> {
+    const result = await pool.query(
+      `SELECT o.*, c.name AS customer_name, c.phone AS customer_phone, c.email AS customer_email,
+         COUNT(m.id)::int AS item_count,
+         COALESCE(SUM(ABS(m.qty_delta) * COALESCE(CAST(m.sale_price AS NUMERIC), 0)), 0) AS total
+       FROM inventory.orders o
+       JOIN inventory.customers c ON c.id = o.customer_id
+       LEFT JOIN inventory.movements m ON m.order_id = o.id AND m.reason = 'sale'
+       WHERE ($1::int IS NULL OR o.customer_id = $1)
+       GROUP BY o.id, c.id
+       ORDER BY o.created_at DESC, o.id DESC`,
+      [customerId]
+    );
+    return result.rows.map(mapOrderSummaryRow);
+  }
+
+  async getOrders(): Promise<OrderSummary[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт заказов покупателей');
+      
+      return await this.queryOrderSummaries(poolRegistry.getPool(conn), null);
+    } catch (error) {
+      console.error('Error getting orders:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get orders');
+    }
+  }
+
+  // Customer with orders, purchase history and lifetime revenue/profit
+  async getCustomerDetails(id: number): Promise<CustomerDetails | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт заказов покупателей');
+      const pool = poolRegistry.getPool(conn);
+      
+      const customerResult = await pool.query(`SELECT * FROM inventory.customers WHERE id = $1`, [id]);
+      if (customerResult.rows.length === 0) {
+        return undefined;
+      }
+      
+      const orders = await this.queryOrderSummaries(pool, id);
+      const salesResult = await pool.query(
+        `SELECT m.* FROM inventory.movements m
+         JOIN inventory.orders o ON o.id = m.order_id
+         WHERE o.customer_id = $1 AND m.reason = 'sale'
+         ORDER BY m.created_at DESC`,
+        [id]
+      );
+      const sales = salesResult.rows.map(mapMovementRow);
+      
+      // Profit is calculated like in sales analytics: (sale - delivery) × qty - FIFO lot cost
+      const saleCosts = await lots.getSaleCosts(pool, sales.map(sale => sale.id));
+      let lifetimeRevenue = 0;
+      let lifetimeProfit = 0;
+      for (const sale of sales) {
+        const quantity = Math.abs(sale.qtyDelta);
+        const salePrice = parseFloat(sale.salePrice || '0');
+        const deliveryPrice = parseFloat(sale.deliveryPrice || '0');
+        lifetimeRevenue += salePrice * quantity;
+        lifetimeProfit += (salePrice - deliveryPrice) * quantity - (saleCosts.get(sale.id)?.cost || 0);
+      }
+      
+      return {
+        ...mapCustomerRow(customerResult.rows[0]),
+        orders,
+        sales,
+        lifetimeRevenue,
+        lifetimeProfit,
+      };
+    } catch (error) {
+      console.error('Error getting customer details:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get customer details');
+    }
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT * FROM inventory.suppliers ORDER BY name`);
+      
+      return result.rows.map(mapSupplierRow);
+    } catch (error) {
+      console.error('Error getting suppliers:', error);
+      throw new Error('Failed to get suppliers');
+    }
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `INSERT INTO inventory.suppliers (name, contact, note) 
+         VALUES ($1, $2, $3) 
+         RETURNING *`,
+        [supplier.name, supplier.contact || null, supplier.note || null]
+      );
+      
+      return mapSupplierRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      throw error;
+    }
+  }
+
+  // Purchase orders with supplier name and received quantity per line
+  private async queryPurchaseOrders(pool: Pool | PoolClient, id: number | null): Promise<PurchaseOrderDetails[]> {
+    const ordersResult = await pool.query(
+      `SELECT o.*, s.name AS supplier_name
+       FROM inventory.purchase_orders o
+       JOIN inventory.suppliers s ON s.id = o.supplier_id
+       WHERE ($1::int IS NULL OR o.id = $1)
+       ORDER BY (o.status = 'open') DESC, o.created_at DESC`,
+      [id]
+    );
+    
+    const ids = ordersResult.rows.map(row => row.id);
+    const linesResult = await pool.query(
+      `SELECT l.*, COALESCE(SUM(m.qty_delta), 0)::int AS received_qty
+       FROM inventory.purchase_order_lines l
+       LEFT JOIN inventory.movements m ON m.purchase_order_line_id = l.id AND m.reason = 'purchase'
+       WHERE l.purchase_order_id = ANY($1::int[])
+       GROUP BY l.id
+       ORDER BY l.id`,
+      [ids]
+    );
+    
+    return ordersResult.rows.map(row => ({
+      ...mapPurchaseOrderRow(row),
+      supplierName: row.supplier_name,
+      lines: linesResult.rows
+        .filter(line => line.purchase_order_id === row.id)
+        .map(line => ({
+          ...mapPurchaseOrderLineRow(line),
+          receivedQty: line.received_qty,
+        })),
+    }));
+  }
+
+  async getPurchaseOrders(): Promise<PurchaseOrderDetails[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт заказов поставщикам');
+      
+      return await this.queryPurchaseOrders(poolRegistry.getPool(conn), null);
+    } catch (error) {
+      console.error('Error getting purchase orders:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get purchase orders');
+    }
+  }
+
+  async getPurchaseOrderById(id: number): Promise<PurchaseOrderDetails | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт заказов поставщикам');
+      
+      const orders = await this.queryPurchaseOrders(poolRegistry.getPool(conn), id);
+      return orders[0];
+    } catch (error) {
+      console.error('Error getting purchase order:', error);
+      throw error instanceof UnsupportedMovementSourceError ? error : new Error('Failed to get purchase order');
+    }
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder, createdBy: string | null = null): Promise<PurchaseOrderDetails> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      requireNativeMovements(await getMovementSource(conn), 'Учёт заказов поставщикам');
+      
+      // Every ordered SMART code must exist in the reference database
+      for (const line of order.lines) {
+        const smartRecord = await this.getSmartByCode(line.smart);
+        if (!smartRecord) {
+          throw new Error(`SMART code ${line.smart} not found in reference database`);
+        }
+      }
+      
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN');
+        const supplier = await client.query(`SELECT id FROM inventory.suppliers WHERE id = $1`, [order.supplierId]);
+        if (supplier.rows.length === 0) {
+          throw new Error('Поставщик не найден');
+        }
+        
+        const orderResult = await client.query(
+          `INSERT INTO inventory.purchase_orders (supplier_id, note, created_by)
+           VALUES ($1, $2, $3)
+           RETURNING id`,
+          [order.supplierId, order.note || null, createdBy]
+        );
+        const orderId = orderResult.rows[0].id;
+        
+        for (const line of order.lines) {
+          await client.query(
+            `INSERT INTO inventory.purchase_order_lines (purchase_order_id, smart, article, qty, price)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [orderId, line.smart, line.article, line.qty, line.price || null]
+          );
+        }
+        
+        const [created] = await this.queryPurchaseOrders(client, orderId);
+        
+        await client.query('COMMIT');
+        
+        return created;
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      throw error;
+    }
+  }
+
+  // Each received line is posted as a purchase movement with the checks of any purchase
+  // (box, order line, FIFO lots); all lines and the order status are written in one
+  // transaction, so a rejected line leaves the order as it was
+  async receivePurchaseOrder(id: number, receipt: ReceivePurchaseOrderPayload, createdBy: string | null = null): Promise<Movement[]> {
+    const order = await this.getPurchaseOrderById(id);
+    if (!order) {
+      throw new Error('Заказ поставщику не найден');
+    }
+    
+    const payloads: CreateMovementPayload[] = receipt.lines.map(item => {
+      const line = order.lines.find(l => l.id === item.lineId);
+      if (!line) {
+        throw new Error(`Позиция ${item.lineId} не относится к заказу #${id}`);
+      }
+      
+      return {
+        smart: line.smart,
+        article: line.article,
+        qtyDelta: item.qty,
+        reason: 'purchase',
+        note: `Приёмка по заказу поставщику #${id}`,
+        purchasePrice: line.price,
+        warehouseId: receipt.warehouseId || null,
+        boxNumber: item.boxNumber || null,
+        purchaseOrderLineId: line.id,
+        createdBy,
+      };
+    });
+    
+    for (const smartCode of Array.from(new Set(payloads.map(payload => payload.smart)))) {
+      if (!(await this.getSmartByCode(smartCode))) {
+        throw new Error(`SMART code ${smartCode} not found in reference database`);
+      }
+    }
+    
+    // Receipt movements and the order's received quantities/status change together
+    return this.inSerializableTransaction(async (client, source) => {
+      const received: Movement[] = [];
+      for (const payload of payloads) {
+        received.push(await this.insertMovement(client, source, payload));
+      }
+      return received;
+    }, 'receive purchase order');
+  }
+
+  // Close an order by hand, e.g. when the rest will never arrive
+  async closePurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `UPDATE inventory.purchase_orders
+         SET status = 'closed', closed_at = NOW()
+         WHERE id = $1 AND status = 'open'
+         RETURNING *`,
+        [id]
+      );
+      
+      return result.rows.length > 0 ? mapPurchaseOrderRow(result.rows[0]) : undefined;
+    } catch (error) {
+      console.error('Error closing purchase order:', error);
+      throw new Error('Failed to close purchase order');
+    }
+  }
+
+  async getPurchasesBySmart(smartCode: string): Promise<PurchaseMovement[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      const result = await pool.query(
+        `SELECT p.*, s.name AS supplier_name,
+           (p.qty_delta + COALESCE((
+             SELECT SUM(c.qty_delta) FROM ${source.relation} c
+             WHERE c.corrects_movement_id = p.id AND c.reason = 'correction'
+           ), 0))::int AS corrected_qty
+         FROM ${source.relation} p
+         LEFT JOIN inventory.suppliers s ON s.id = p.supplier_id
+         WHERE p.smart = $1 AND p.reason = 'purchase'
+         ORDER BY p.created_at DESC`,
+        [smartCode]
+      );
+      
+      return result.rows.map(row => ({
+        ...mapMovementRow(row),
+        correctedQty: row.corrected_qty,
+        supplierName: row.supplier_name,
+      }));
+    } catch (error) {
+      console.error('Error getting purchases by SMART:', error);
+      throw new Error('Failed to get purchases');
+    }
+  }
+
+  async getSalesBySmart(smartCode: string): Promise<Movement[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM ${source.relation} movements 
+         WHERE smart = $1 AND reason = 'sale'
+         ORDER BY created_at DESC`,
+        [smartCode]
+      );
+      
+      return result.rows.map(mapMovementRow);
+    } catch (error) {
+      console.error('Error getting sales by SMART:', error);
+      throw new Error('Failed to get sales');
+    }
+  }
+
+  async getSaleCosts(movementIds: number[]): Promise<Map<number, SaleCost>> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return new Map();
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return new Map();
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      return await lots.getSaleCosts(pool, movementIds);
+    } catch (error) {
+      console.error('Error getting sale costs:', error);
+      throw new Error('Failed to get sale costs');
+    }
+  }
+
+  async getSoldOutItems(): Promise<SoldOutItem[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      // Get items with zero stock but had sales
+      const result = await pool.query(`
+        WITH stock_summary AS (
+          SELECT 
+            smart,
+            SUM(qty_delta) as current_stock
+          FROM ${source.relation} movements
+          GROUP BY smart
+          HAVING SUM(qty_delta) = 0
+        ),
+        sale_costs AS (
+          SELECT 
+            a.movement_id,
+            SUM(a.qty * COALESCE(CAST(p.purchase_price AS NUMERIC), 0)) as cost
+          FROM inventory.lot_allocations a
+          JOIN inventory.movements p ON p.id = a.purchase_id
+          GROUP BY a.movement_id
+        ),
+        sales_summary AS (
+          SELECT 
+            m.smart,
+            AVG(CAST(m.sale_price AS NUMERIC)) as avg_sale_price,
+            MAX(m.created_at) as last_sale_date,
+            COUNT(*) as total_sales,
+            SUM(
+              ABS(m.qty_delta) * (COALESCE(CAST(m.sale_price AS NUMERIC), 0) - COALESCE(CAST(m.delivery_price AS NUMERIC), 0))
+              - COALESCE(c.cost, 0)
+            ) as total_profit
+          FROM ${source.relation} m
+          LEFT JOIN sale_costs c ON c.movement_id = m.id
+          WHERE m.reason = 'sale'
+          GROUP BY m.smart
+        )
+        SELECT 
+          ss.smart,
+          COALESCE(sal.avg_sale_price, 0) as avg_sale_price,
+          sal.last_sale_date,
+          COALESCE(sal.total_sales, 0) as total_sales,
+          COALESCE(sal.total_profit, 0) as total_profit
+        FROM stock_summary ss
+        INNER JOIN sales_summary sal ON ss.smart = sal.smart
+        ORDER BY sal.last_sale_date DESC
+      `);
+      
+      const namesMap = await this.getSmartNames(result.rows.map((r: any) => r.smart));
+      
+      return result.rows.map((row: any) => ({
+        smart: row.smart,
+        name: namesMap.get(row.smart),
+        avgSalePrice: parseFloat(row.avg_sale_price),
+        lastSaleDate: row.last_sale_date,
+        totalSales: parseInt(row.total_sales),
+        totalProfit: parseFloat(row.total_profit),
+      }));
+    } catch (error) {
+      console.error('Error getting sold out items:', error);
+      throw new Error('Failed to get sold out items');
+    }
+  }
+
+  async getTopParts(mode: 'profit' | 'sales' | 'combined'): Promise<TopPart[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      const source = await getMovementSource(conn);
+      
+      // Calculate top parts with different metrics
+      // Cost comes from FIFO lot allocations of each sale
+      const result = await pool.query(`
+        WITH sale_costs AS (
+          SELECT 
+            a.movement_id,
+            SUM(a.qty) as allocated_qty,
+            SUM(a.qty * COALESCE(CAST(p.purchase_price AS NUMERIC), 0)) as cost
+          FROM inventory.lot_allocations a
+          JOIN inventory.movements p ON p.id = a.purchase_id
+          GROUP BY a.movement_id
+        ),
+        sales_data AS (
+          SELECT 
+            m.smart,
+            SUM(ABS(m.qty_delta)) as total_sales_qty,
+            SUM(ABS(m.qty_delta) * COALESCE(CAST(m.sale_price AS NUMERIC), 0)) as revenue,
+            SUM(ABS(m.qty_delta) * COALESCE(CAST(m.delivery_price AS NUMERIC), 0)) as delivery,
+            SUM(COALESCE(c.cost, 0)) as cost,
+            SUM(COALESCE(c.allocated_qty, 0)) as allocated_qty
+          FROM ${source.relation} m
+          LEFT JOIN sale_costs c ON c.movement_id = m.id
+          WHERE m.reason = 'sale'
+          GROUP BY m.smart
+        ),
+        stock_calc AS (
+          SELECT 
+            smart,
+            SUM(qty_delta) as current_stock
+          FROM ${source.relation} movements
+          GROUP BY smart
+        )
+        SELECT 
+          d.smart,
+          (d.revenue - d.cost - d.delivery) / d.total_sales_qty as avg_profit,
+          d.total_sales_qty as total_sales,
+          CASE 
+            WHEN d.cost > 0 THEN 
+              ((d.revenue - d.cost - d.delivery) / d.cost * 100)
+            ELSE 0
+          END as profit_margin,
+          COALESCE(s.current_stock, 0) as current_stock
+        FROM sales_data d
+        LEFT JOIN stock_calc s ON d.smart = s.smart
+        WHERE d.allocated_qty > 0
+      `);
+      
+      // Calculate combined score for each item
+      const items = result.rows.map((row: any) => {
+        const avgProfit = parseFloat(row.avg_profit);
+        const totalSales = parseInt(row.total_sales);
+        const profitMargin = parseFloat(row.profit_margin);
+        const currentStock = parseInt(row.current_stock);
+        
+        // Weighted formula: (sales × 0.5) + (profit × 0.5)
+        // Normalize sales (max 100) and profit (max 1000) for fair weighting
+        const normalizedSales = Math.min(totalSales / 10, 100);
+        const normalizedProfit = Math.min(avgProfit / 10, 100);
+        const combinedScore = (normalizedSales * 0.5) + (normalizedProfit * 0.5);
+        
+        return {
+          smart: row.smart,
+          name: undefined,
+          avgProfit,
+          totalSales,
+          profitMargin,
+          currentStock,
+          combinedScore,
+        };
+      });
+      
+      // Sort based on mode
+      let sortedItems: any[];
+      if (mode === 'profit') {
+        sortedItems = items.sort((a, b) => b.avgProfit - a.avgProfit);
+      } else if (mode === 'sales') {
+        sortedItems = items.sort((a, b) => b.totalSales - a.totalSales);
+      } else {
+        sortedItems = items.sort((a, b) => b.combinedScore! - a.combinedScore!);
+      }
+      
+      const namesMap = await this.getSmartNames(sortedItems.map((item) => item.smart));
+      
+      return sortedItems.map((item) => ({
+        ...item,
+        name: namesMap.get(item.smart),
+      }));
+    } catch (error) {
+      console.error('Error getting top parts:', error);
+      throw new Error('Failed to get top parts');
+    }
+  }
+
+  // SMART names for analytics, from the local cache when it holds the active SMART table
+  private async getSmartNames(smartCodes: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (smartCodes.length === 0) return names;
+    
+    const smartConn = await this.getActiveConnection('smart');
+    const conn = smartConn ? await connectionsStorage.getConnectionById(smartConn.id) : undefined;
+    if (!conn) return names;
+    
+    const cachePool = await this.getSmartCachePool(conn);
+    if (cachePool) {
+      const cached = await smartCache.getCachedNames(cachePool, smartCodes);
+      cached.forEach((name, smart) => {
+        if (name) names.set(smart, name);
+      });
+      return names;
+    }
+    
+    const smartPool = poolRegistry.getPool(conn);
+    const fields = resolveSmartFields((conn.fieldMapping as any) || {});
+    const table = await resolveTable(smartPool, conn.tableName || 'public.smart');
+    const result = await smartPool.query(
+      `SELECT ${table.column(fields.smart)} as smart, ${table.column(fields.name)} as name 
+       FROM ${table.sql} 
+       WHERE ${table.column(fields.smart)} = ANY($1)`,
+      [smartCodes]
+    );
+    for (const row of result.rows) {
+      if (row.name) names.set(row.smart, row.name);
+    }
+    return names;
+  }
+
+  // Field edits and the quantity correction are written in one SERIALIZABLE transaction,
+  // so a rejected field never leaves a correction posted behind it
+  async updateMovement(id: number, updates: MovementUpdate, changedBy: string | null = null): Promise<Movement> {
+    return this.retrySerializable(() => this.updateMovementAttempt(id, updates, changedBy), 'update movement');
+  }
+
+  private async updateMovementAttempt(id: number, updates: MovementUpdate, changedBy: string | null): Promise<Movement> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      
+      const setClauses: string[] = [];
+      const values: any[] = [];
+      const fields: AuditedField[] = [];
+      let paramIndex = 1;
+      
+      if (updates.purchasePrice !== undefined) {
+        setClauses.push(`purchase_price = $${paramIndex++}`);
+        values.push(updates.purchasePrice);
+        fields.push('purchasePrice');
+      }
+      
+      if (updates.note !== undefined) {
+        setClauses.push(`note = $${paramIndex++}`);
+        values.push(updates.note);
+        fields.push('note');
+      }
+      
+      if (updates.boxNumber !== undefined) {
+        setClauses.push(`box_number = $${paramIndex++}`);
+        values.push(updates.boxNumber);
+        fields.push('boxNumber');
+      }
+      
+      if (setClauses.length === 0 && updates.qtyDelta === undefined) {
+        throw new Error('No fields to update');
+      }
+      
+      values.push(id);
+      
+      // Update, correction and their audit rows are written in one transaction
+      const source = await getMovementSource(conn);
+      requireNativeMovements(source, 'Редактирование движения');
+      
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN TRANSACTION ISOLATION LEVEL SERIALIZABLE');
+        const current = await client.query(
+          `SELECT * FROM inventory.movements WHERE id = $1 FOR UPDATE`,
+          [id]
+        );
+        
+        if (current.rows.length === 0) {
+          throw new Error('Movement not found');
+        }
+        
+        let updated = mapMovementRow(current.rows[0]);
+        
+        if (setClauses.length > 0) {
+          if (updates.boxNumber) {
+            await this.assertBoxExists(client, updates.boxNumber);
+          }
+          
+          const result = await client.query(
+            `UPDATE inventory.movements 
+             SET ${setClauses.join(', ')}
+             WHERE id = $${paramIndex}
+             RETURNING *`,
+            values
+          );
+          
+          const previous = updated;
+          updated = mapMovementRow(result.rows[0]);
+          await recordAudit(client, previous, updated, fields, changedBy);
+        }
+        
+        // Posted after the field edits, so the correction lands in the new box
+        if (updates.qtyDelta !== undefined) {
+          await this.insertQtyCorrection(client, source, updated, updates.qtyDelta, changedBy);
+        }
+        
+        await client.query('COMMIT');
+        
+        return updated;
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error updating movement:', error);
+      throw error;
+    }
+  }
+
+  // Quantity is never rewritten in place: the difference is posted as a 'correction'
+  // movement linked to the purchase, so past stock totals stay reproducible
+  // Returns the correction movement, or null when the quantity is unchanged
+  private async insertQtyCorrection(
+    client: PoolClient,
+    source: MovementSource,
+    original: Movement,
+    qty: number,
+    createdBy: string | null
+  ): Promise<Movement | null> {
+    const id = original.id;
+    
+    // Only purchase lots can be corrected: sales and writeoffs are tied to lot allocations
+    if (original.reason !== 'purchase') {
+      throw new InvalidCorrectionError('Количество можно исправить только у покупки');
+    }
+    
+    const corrections = await client.query(
+      `SELECT COALESCE(SUM(qty_delta), 0)::int AS qty
+       FROM inventory.movements
+       WHERE reason = 'correction' AND corrects_movement_id = $1`,
+      [id]
+    );
+    const currentQty = original.qtyDelta + corrections.rows[0].qty;
+    const delta = qty - currentQty;
+    
+    if (delta === 0) {
+      return null;
+    }
+    
+    const warehouseId = await this.resolveWarehouseId(client, original.warehouseId);
+    
+    if (delta < 0) {
+      const currentStock = await this.getAvailableStock(client, source, original.smart, original.article, warehouseId);
+      if (currentStock < -delta) {
+        throw new InsufficientStockError(original.article, original.smart, currentStock, -delta);
+      }
+      
+      const allocated = await lots.getAllocatedQty(client, id);
+      if (qty < allocated) {
+        throw new InvalidCorrectionError(`Нельзя уменьшить партию ниже уже списанного количества (${allocated} шт)`);
+      }
+    }
+    
+    const result = await client.query(
+      `INSERT INTO inventory.movements (
+        smart, article, qty_delta, reason, note, corrects_movement_id, warehouse_id, box_number, created_by, created_at
+      )
+       VALUES ($1, $2, $3, 'correction', $4, $5, $6, $7, $8, NOW())
+       RETURNING *`,
+      [
+        original.smart,
+        original.article,
+        delta,
+        `Корректировка движения #${id}: ${currentQty} → ${qty}`,
+        id,
+        warehouseId,
+        original.boxNumber,
+        createdBy
+      ]
+    );
+    
+    await insertAuditRow(client, id, 'qtyDelta', String(currentQty), String(qty), createdBy);
+    
+    return mapMovementRow(result.rows[0]);
+  }
+
+  async updateMovementSaleStatus(id: number, status: 'awaiting_shipment' | 'shipped', changedBy: string | null = null): Promise<Movement> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
+      }
+      
+      requireNativeMovements(await getMovementSource(conn), 'Статус отгрузки');
+      
+      const client = await poolRegistry.getPool(conn).connect();
+      try {
+        await client.query('BEGIN');
+        const current = await client.query(
+          `SELECT * FROM inventory.movements WHERE id = $1 FOR UPDATE`,
+          [id]
+        );
+        
+        if (current.rows.length === 0) {
+          throw new Error('Movement not found');
+        }
+        
+        const result = await client.query(
+          `UPDATE inventory.movements 
+           SET sale_status = $1 
+           WHERE id = $2 
+           RETURNING *`,
+          [status, id]
+        );
+        
+        const updated = mapMovementRow(result.rows[0]);
+        await recordAudit(client, mapMovementRow(current.rows[0]), updated, ['saleStatus'], changedBy);
+        
+        await client.query('COMMIT');
+        
+        return updated;
+      } catch (txError) {
+        await client.query('ROLLBACK');
+        throw txError;
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      console.error('Error updating movement sale status:', error);
+      throw error;
+    }
+  }
+
+  async getMovementAudit(movementId: number): Promise<MovementAudit[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.movement_audit 
+         WHERE movement_id = $1 
+         ORDER BY changed_at DESC, id DESC`,
+        [movementId]
+      );
+      
+      return result.rows.map(mapAuditRow);
+    } catch (error) {
+      console.error('Error getting movement audit:', error);
+      throw new Error('Failed to get movement audit');
+    }
+  }
+
+  async processBulkImport(rows: BulkImportRow[], actor: { username: string; role: UserRole } | null = null): Promise<BulkImportResult> {
+    const result: BulkImportResult = {
+      totalRows: rows.length,
+      imported: 0,
+      errors: [],
+      movementIds: []
+    };
+    const rules = await this.getNormalizationRules();
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      try {
+        let smartCode = row.smart;
+        
+        // If no SMART provided, try to find it
+        if (!smartCode) {
+          const normalized = normalizeArticle(row.article, rules);
+          const matches = await this.searchSmart(normalized);
+          
+          if (matches.length === 0) {
+            const suggestions = await this.suggestSmart(normalized);
+            result.errors.push({
+              row: i + 1,
+              error: `No SMART code found for article: ${row.article}`,
+              data: row,
+              suggestions: suggestions.slice(0, BULK_IMPORT_SUGGESTIONS).map(s => ({ smart: s.smart, article: s.matchedArticle })),
+            });
+            continue;
+          } else if (matches.length > 1) {
+            result.errors.push({
+              row: i + 1,
+              error: `Multiple SMART codes found for article: ${row.article}. Please specify SMART code.`,
+              data: row
+            });
+            continue;
+          }
+          
+          smartCode = matches[0].smart;
+        }
+
+        // Validate reason
+        const validReasons = await this.getReasons();
+        if (!validReasons.find(r => r.code === row.reason)) {
+          result.errors.push({
+            row: i + 1,
+            error: `Invalid reason code: ${row.reason}`,
+            data: row
+          });
+          continue;
+        }
+
+        if (actor && !canRecordReason(actor.role, row.reason)) {
+          result.errors.push({
+            row: i + 1,
+            error: `Insufficient permissions for reason: ${row.reason}`,
+            data: row
+          });
+          continue;
+        }
+
+        // Create movement
+        const movement = await this.createMovement({
+          smart: smartCode!,
+          article: row.article,
+          qtyDelta: row.qtyDelta,
+          reason: row.reason,
+          note: row.note || null,
+          createdBy: actor?.username || null,
+        });
+        
+        result.imported++;
+        result.movementIds.push(movement.id);
+      } catch (error) {
+        result.errors.push({
+          row: i + 1,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          data: row
+        });
+      }
+    }
+
+    return result;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.users WHERE username = $1`,
+        [username]
+      );
+      
+      return result.rows.length > 0 ? mapUserRow(result.rows[0]) : undefined;
+    } catch (error) {
+      console.error('Error getting user by username:', error);
+      throw new Error('Failed to get user');
+    }
+  }
+
+  async getUserById(id: number): Promise<SafeUser | undefined> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return undefined;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return undefined;
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `SELECT * FROM inventory.users WHERE id = $1`,
+        [id]
+      );
+      
+      if (result.rows.length === 0) {
+        return undefined;
+      }
+      
+      const { passwordHash, ...safe } = mapUserRow(result.rows[0]);
+      return safe;
+    } catch (error) {
+      console.error('Error getting user by ID:', error);
+      throw new Error('Failed to get user');
+    }
+  }
+
+  async getUserCount(): Promise<number> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return 0;
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return 0;
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT COUNT(*)::int AS count FROM inventory.users`);
+      return result.rows[0].count;
+    } catch (error) {
+      console.error('Error counting users:', error);
+      throw new Error('Failed to count users');
+    }
+  }
+
+  async getUsers(): Promise<SafeUser[]> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        return [];
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        return [];
+      }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(`SELECT * FROM inventory.users ORDER BY username`);
+      
+      return result.rows.map(row => {
+        const { passwordHash, ...safe } = mapUserRow(row);
+        return safe;
+      });
+    } catch (error) {
+      console.error('Error getting users:', error);
+      throw new Error('Failed to get users');
+    }
+  }
+
+  async createUser(user: { username: string; passwordHash: string; displayName?: string | null; role?: UserRole }): Promise<SafeUser> {
+    try {
+      const activeConn = await this.getActiveConnection('inventory');
+      
+      if (!activeConn) {
+        throw new Error('No active inventory connection configured');
+      }
+      
+      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+
+      if (!conn) {
+        throw new Error('Inventory connection not found');
       }
+      const pool = poolRegistry.getPool(conn);
+      
+      const result = await pool.query(
+        `INSERT INTO inventory.users (username, password_hash, display_name, role)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [user.username, user.passwordHash, user.displayName || null, user.role || 'viewer']
+      );
       
-      return sortedItems;
+      const { passwordHash, ...safe } = mapUserRow(result.rows[0]);
+      return safe;
     } catch (error) {
-      console.error('Error getting top parts:', error);
-      throw new Error('Failed to get top parts');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
-      if (smartPool) {
-        await smartPool.end();
-      }
+      console.error('Error creating user:', error);
+      throw error;
     }
   }
 
-  async updateMovement(id: number, updates: Partial<Pick<Movement, 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber'>>): Promise<Movement> {
-    let pool: Pool | null = null;
+  async updateUser(id: number, updates: { passwordHash?: string; displayName?: string | null; role?: UserRole }): Promise<SafeUser | undefined> {
     try {
       const activeConn = await this.getActiveConnection('inventory');
       
@@ -1249,40 +3593,35 @@ export class DatabaseStorage implements IStorage {
       if (!conn) {
         throw new Error('Inventory connection not found');
       }
-      pool = this.createExternalPool(conn);
+      const pool = poolRegistry.getPool(conn);
       
       const setClauses: string[] = [];
       const values: any[] = [];
       let paramIndex = 1;
       
-      if (updates.purchasePrice !== undefined) {
-        setClauses.push(`purchase_price = $${paramIndex++}`);
-        values.push(updates.purchasePrice);
-      }
-      
-      if (updates.note !== undefined) {
-        setClauses.push(`note = $${paramIndex++}`);
-        values.push(updates.note);
+      if (updates.passwordHash !== undefined) {
+        setClauses.push(`password_hash = $${paramIndex++}`);
+        values.push(updates.passwordHash);
       }
       
-      if (updates.qtyDelta !== undefined) {
-        setClauses.push(`qty_delta = $${paramIndex++}`);
-        values.push(updates.qtyDelta);
+      if (updates.displayName !== undefined) {
+        setClauses.push(`display_name = $${paramIndex++}`);
+        values.push(updates.displayName);
       }
       
-      if (updates.boxNumber !== undefined) {
-        setClauses.push(`box_number = $${paramIndex++}`);
-        values.push(updates.boxNumber);
+      if (updates.role !== undefined) {
+        setClauses.push(`role = $${paramIndex++}`);
+        values.push(updates.role);
       }
       
       if (setClauses.length === 0) {
-        throw new Error('No fields to update');
+        return await this.getUserById(id);
       }
       
       values.push(id);
       
       const result = await pool.query(
-        `UPDATE inventory.movements 
+        `UPDATE inventory.users 
          SET ${setClauses.join(', ')}
          WHERE id = $${paramIndex}
          RETURNING *`,
@@ -1290,175 +3629,156 @@ export class DatabaseStorage implements IStorage {
       );
       
       if (result.rows.length === 0) {
-        throw new Error('Movement not found');
+        return undefined;
       }
       
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
-        createdAt: row.created_at,
-      };
+      const { passwordHash, ...safe } = mapUserRow(result.rows[0]);
+      return safe;
     } catch (error) {
-      console.error('Error updating movement:', error);
-      throw error;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
+      console.error('Error updating user:', error);
+      throw new Error('Failed to update user');
     }
   }
 
-  async updateMovementSaleStatus(id: number, status: 'awaiting_shipment' | 'shipped'): Promise<Movement> {
-    let pool: Pool | null = null;
+  async getDbConnections(): Promise<SafeDbConnection[]> {
     try {
-      const activeConn = await this.getActiveConnection('inventory');
-      
-      if (!activeConn) {
-        throw new Error('No active inventory connection configured');
-      }
-      
-      const conn = await connectionsStorage.getConnectionById(activeConn.id);
+      return await connectionsStorage.getConnections();
+    } catch (error) {
+      console.error('Error getting DB connections:', error);
+      throw new Error('Failed to get database connections');
+    }
+  }
 
-      if (!conn) {
-        throw new Error('Inventory connection not found');
-      }
-      pool = this.createExternalPool(conn);
-      
-      const result = await pool.query(
-        `UPDATE inventory.movements 
-         SET sale_status = $1 
-         WHERE id = $2 
-         RETURNING *`,
-        [status, id]
-      );
-      
-      if (result.rows.length === 0) {
-        throw new Error('Movement not found');
-      }
-      
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        smart: row.smart,
-        article: row.article,
-        qtyDelta: row.qty_delta,
-        reason: row.reason,
-        note: row.note,
-        purchasePrice: row.purchase_price,
-        salePrice: row.sale_price,
-        deliveryPrice: row.delivery_price,
-        boxNumber: row.box_number,
-        trackNumber: row.track_number,
-        shippingMethodId: row.shipping_method_id,
-        saleStatus: row.sale_status,
-        createdAt: row.created_at,
-      };
+  async createDbConnection(connection: InsertDbConnection): Promise<SafeDbConnection> {
+    try {
+      return await connectionsStorage.createConnection(connection);
     } catch (error) {
-      console.error('Error updating movement sale status:', error);
+      console.error('Error creating DB connection:', error);
       throw error;
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
-  async processBulkImport(rows: BulkImportRow[]): Promise<BulkImportResult> {
-    const result: BulkImportResult = {
-      totalRows: rows.length,
-      imported: 0,
-      errors: []
-    };
+  // Save edited credentials only if the new settings connect and, for a connection
+  // with a role, still reach the configured table and every mapped column
+  async updateDbConnection(id: number, changes: UpdateDbConnection): Promise<SafeDbConnection> {
+    const existing = await connectionsStorage.getConnectionById(id);
+    if (!existing) {
+      throw new Error('Connection not found');
+    }
 
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      try {
-        let smartCode = row.smart;
-        
-        // If no SMART provided, try to find it
-        if (!smartCode) {
-          const normalized = normalizeArticle(row.article);
-          const matches = await this.searchSmart(normalized);
-          
-          if (matches.length === 0) {
-            result.errors.push({
-              row: i + 1,
-              error: `No SMART code found for article: ${row.article}`,
-              data: row
-            });
-            continue;
-          } else if (matches.length > 1) {
-            result.errors.push({
-              row: i + 1,
-              error: `Multiple SMART codes found for article: ${row.article}. Please specify SMART code.`,
-              data: row
-            });
-            continue;
-          }
-          
-          smartCode = matches[0].smart;
-        }
+    const candidate: InsertDbConnection = {
+      ...changes,
+      password: changes.password || existing.password,
+    };
 
-        // Validate reason
-        const validReasons = await this.getReasons();
-        if (!validReasons.find(r => r.code === row.reason)) {
-          result.errors.push({
-            row: i + 1,
-            error: `Invalid reason code: ${row.reason}`,
-            data: row
-          });
-          continue;
-        }
+    const test = await this.testDbConnection(candidate);
+    if (!test.success) {
+      throw new InvalidConnectionUpdateError(`Не удалось подключиться с новыми параметрами: ${test.message}`);
+    }
 
-        // Create movement
-        await this.createMovement({
-          smart: smartCode!,
-          article: row.article,
-          qtyDelta: row.qtyDelta,
-          reason: row.reason,
-          note: row.note || null,
-        });
-        
-        result.imported++;
-      } catch (error) {
-        result.errors.push({
-          row: i + 1,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          data: row
-        });
+    const required = getRequiredColumns(existing);
+    if (required) {
+      const missing = await this.getMissingMappedColumns(candidate, required.tableName, required.columns);
+      if (missing === null) {
+        throw new InvalidConnectionUpdateError(`Таблица ${required.tableName} недоступна с новыми параметрами`);
+      }
+      if (missing.length > 0) {
+        throw new InvalidConnectionUpdateError(`В таблице ${required.tableName} нет колонок: ${missing.join(', ')}`);
       }
     }
 
-    return result;
+    try {
+      const updated = await connectionsStorage.updateConnection(id, {
+        name: changes.name,
+        host: changes.host,
+        port: changes.port,
+        database: changes.database,
+        username: changes.username,
+        ssl: changes.ssl || null,
+        ...(changes.password ? { password: changes.password } : {}),
+      });
+      if (!updated) {
+        throw new Error('Connection not found');
+      }
+      // Pool registry rebuilds the pool on next use since the credentials changed
+      return updated;
+    } catch (error) {
+      console.error('Error updating DB connection:', error);
+      throw error;
+    }
   }
 
-  async getDbConnections(): Promise<SafeDbConnection[]> {
+  // Columns absent from the table, or null if the table itself is missing
+  private async getMissingMappedColumns(
+    connection: Pick<InsertDbConnection, 'host' | 'port' | 'database' | 'username' | 'password' | 'ssl'>,
+    tableName: string,
+    requiredColumns: string[]
+  ): Promise<string[] | null> {
+    const pool = new Pool({
+      host: connection.host,
+      port: connection.port,
+      database: connection.database,
+      user: connection.username,
+      password: connection.password,
+      ssl: connection.ssl ? { rejectUnauthorized: false } : undefined,
+    });
+
     try {
-      return await connectionsStorage.getConnections();
-    } catch (error) {
-      console.error('Error getting DB connections:', error);
-      throw new Error('Failed to get database connections');
+      const result = await getTableColumns(pool, tableName);
+
+      if (result.length === 0) {
+        return null;
+      }
+
+      const columns = new Set(result.map(column => column.name));
+      return requiredColumns.filter(column => !columns.has(column));
+    } finally {
+      await pool.end();
     }
   }
 
-  async createDbConnection(connection: InsertDbConnection): Promise<SafeDbConnection> {
+  // Rules of the active SMART connection; every normalization of user input goes through them
+  async getNormalizationRules(): Promise<NormalizationRules> {
+    const activeConn = await this.getActiveConnection('smart');
+    const conn = activeConn ? await connectionsStorage.getConnectionById(activeConn.id) : undefined;
+    return conn ? getConnectionRules(conn) : defaultNormalizationRules;
+  }
+
+  // null restores the defaults. The SMART cache keys depend on the rules, so the
+  // cache stops being used until it is refreshed with the new ones
+  async updateNormalizationRules(connectionId: number, rules: NormalizationRules | null): Promise<SafeDbConnection> {
+    const updated = await connectionsStorage.updateConnection(connectionId, { normalizationRules: rules });
+    if (!updated) {
+      throw new Error('Connection not found');
+    }
+    
+    if (updated.role === 'smart' && updated.isActive) {
+      this.refreshSmartCache().catch((error) => {
+        console.error('Failed to refresh SMART cache after rules change:', error);
+      });
+    }
+    
+    return updated;
+  }
+
+  // Normalize with the TypeScript implementation and with the generated SQL,
+  // so admins can see both agree before saving
+  async testNormalization(connectionId: number, rules: NormalizationRules, input: string): Promise<NormalizationTestResult> {
+    const connection = await connectionsStorage.getConnectionById(connectionId);
+    if (!connection) {
+      throw new Error('Connection not found');
+    }
+    
+    const normalized = normalizeArticle(input, rules);
     try {
-      return await connectionsStorage.createConnection(connection);
+      const result = await poolRegistry.getPool(connection).query(
+        `SELECT ${normalizeSqlExpression('$1::text', rules)} AS normalized`,
+        [input]
+      );
+      return { normalized, sqlNormalized: result.rows[0].normalized };
     } catch (error) {
-      console.error('Error creating DB connection:', error);
-      throw error;
+      console.error('Error testing normalization SQL:', error);
+      return { normalized, sqlNormalized: null };
     }
   }
 
@@ -1468,6 +3788,9 @@ export class DatabaseStorage implements IStorage {
       if (!deleted) {
         throw new Error('Connection not found');
       }
+
+      // Drop pooled clients for the removed connection
+      await poolRegistry.closePool(id);
     } catch (error) {
       console.error('Error deleting DB connection:', error);
       throw new Error('Failed to delete database connection');
@@ -1508,8 +3831,17 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDbConnectionPoolStats(id: number): Promise<PoolStats> {
+    const connection = await connectionsStorage.getConnectionById(id);
+
+    if (!connection) {
+      throw new Error('Connection not found');
+    }
+
+    return poolRegistry.getPoolStats(id);
+  }
+
   async getDbTables(connectionId: number): Promise<DbTablesResult> {
-    let pool: Pool | null = null;
     try {
       // Get connection details
       const connection = await connectionsStorage.getConnectionById(connectionId);
@@ -1519,7 +3851,7 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Connect and get tables
-      pool = this.createExternalPool(connection);
+      const pool = poolRegistry.getPool(connection);
       const result = await pool.query(`
         SELECT
           table_schema as schema,
@@ -1541,10 +3873,6 @@ export class DatabaseStorage implements IStorage {
     } catch (error) {
       console.error('Error getting DB tables:', error);
       throw new Error(error instanceof Error ? error.message : 'Failed to get tables');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
@@ -1552,17 +3880,38 @@ export class DatabaseStorage implements IStorage {
     try {
       const { connectionId, role, tableName, fieldMapping } = payload;
 
-      // Deactivate other connections with the same role
-      if (role) {
-        await connectionsStorage.deactivateConnectionsByRole(role, connectionId);
+      // A broken mapping would only show up later as failed searches or movement queries
+      if (role === 'inventory') {
+        const connection = await connectionsStorage.getConnectionById(connectionId);
+        if (!connection) {
+          throw new Error('Connection not found');
+        }
+        const required = getRequiredColumns({ role, tableName: tableName || null, fieldMapping: fieldMapping || null });
+        if (required) {
+          const missing = await this.getMissingMappedColumns(connection, required.tableName, required.columns);
+          if (missing === null) {
+            throw new Error(`Таблица ${required.tableName} не найдена`);
+          }
+          if (missing.length > 0) {
+            throw new Error(`В таблице ${required.tableName} нет колонок: ${missing.join(', ')}`);
+          }
+        }
+      }
+      if (role === 'smart') {
+        const preview = await this.previewSmartMapping(connectionId, {
+          tableName,
+          fieldMapping: (fieldMapping || {}) as SmartMappingPreviewRequest['fieldMapping'],
+        });
+        if (!preview.success) {
+          throw new Error(preview.errors.join('; '));
+        }
       }
 
-      // Update connection configuration
-      const result = await connectionsStorage.updateConnection(connectionId, {
+      // Activates the connection and deactivates others with the same role in one write
+      const result = await connectionsStorage.configureConnection(connectionId, {
         role,
         tableName,
         fieldMapping: fieldMapping as any,
-        isActive: role ? true : false,
       });
 
       if (!result) {
@@ -1576,6 +3925,136 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Check the proposed table/mapping and run the real search query on it without saving anything
+  async previewSmartMapping(connectionId: number, preview: SmartMappingPreviewRequest): Promise<SmartMappingPreview> {
+    const connection = await connectionsStorage.getConnectionById(connectionId);
+    if (!connection) {
+      throw new Error('Connection not found');
+    }
+
+    const pool = poolRegistry.getPool(connection);
+    const fields = resolveSmartFields(preview.fieldMapping);
+    const rules = getConnectionRules(connection);
+
+    let table: CheckedTable;
+    try {
+      table = await resolveTable(pool, preview.tableName, { refresh: true });
+    } catch (error) {
+      if (error instanceof InvalidIdentifierError) {
+        return { success: false, errors: [error.message], rows: [] };
+      }
+      throw error;
+    }
+
+    const columns = table.columns;
+    const errors: string[] = [];
+
+    for (const column of Array.from(new Set(Object.values(fields)))) {
+      if (!columns.has(column)) {
+        errors.push(`Колонка "${column}" не найдена в таблице ${preview.tableName}`);
+      }
+    }
+
+    // Search unnests the articles column, so it has to be a text array
+    const articlesColumn = columns.get(fields.articles);
+    if (articlesColumn && !['_text', '_varchar', '_bpchar'].includes(articlesColumn.udtName)) {
+      errors.push(`Колонка артикулов "${fields.articles}" должна быть текстовым массивом, а не ${articlesColumn.type}`);
+    }
+
+    if (errors.length > 0) {
+      return { success: false, errors, rows: [] };
+    }
+
+    try {
+      const result = await pool.query(
+        buildSmartSearchQuery(table, preview.fieldMapping, rules, 20),
+        [normalizeArticle(preview.article || '', rules)]
+      );
+      return { success: true, errors: [], rows: result.rows.map(mapSmartRow) };
+    } catch (error) {
+      return {
+        success: false,
+        errors: [`Поисковый запрос завершился ошибкой: ${error instanceof Error ? error.message : String(error)}`],
+        rows: [],
+      };
+    }
+  }
+
+  // Inventory pool holding a cache filled from this SMART connection's table and mapping,
+  // null when searches have to go to the SMART database
+  private async getSmartCachePool(smartConn: DbConnection): Promise<Pool | null> {
+    try {
+      const inventoryConn = await this.getActiveConnection('inventory');
+      const conn = inventoryConn ? await connectionsStorage.getConnectionById(inventoryConn.id) : undefined;
+      if (!conn) return null;
+      
+      const pool = poolRegistry.getPool(conn);
+      const syncedKey = await smartCache.getSyncedSourceKey(pool);
+      return syncedKey === smartCache.getSourceKey(smartConn) ? pool : null;
+    } catch (error) {
+      console.error('Error checking SMART cache:', error);
+      return null;
+    }
+  }
+
+  // Copy the active SMART table into the inventory database
+  // A refresh already running is joined rather than started twice
+  async refreshSmartCache(): Promise<SmartCacheStatus> {
+    if (!this.smartCacheRefresh) {
+      this.smartCacheRefresh = this.refreshSmartCacheOnce().finally(() => {
+        this.smartCacheRefresh = null;
+      });
+    }
+    return this.smartCacheRefresh;
+  }
+
+  private async refreshSmartCacheOnce(): Promise<SmartCacheStatus> {
+    const smartConn = await this.getActiveConnection('smart');
+    const smartConnData = smartConn ? await connectionsStorage.getConnectionById(smartConn.id) : undefined;
+    if (!smartConnData) {
+      throw new Error('No active SMART connection configured');
+    }
+    
+    const inventoryConn = await this.getActiveConnection('inventory');
+    const inventoryConnData = inventoryConn ? await connectionsStorage.getConnectionById(inventoryConn.id) : undefined;
+    if (!inventoryConnData) {
+      throw new Error('No active inventory connection configured');
+    }
+    
+    const inventoryPool = poolRegistry.getPool(inventoryConnData);
+    const smartPool = poolRegistry.getPool(smartConnData);
+    const sourceKey = smartCache.getSourceKey(smartConnData);
+    
+    const table = await resolveTable(smartPool, smartConnData.tableName || 'public.smart', { refresh: true });
+    const changes = await smartCache.refresh(
+      inventoryPool,
+      smartPool,
+      table,
+      resolveSmartFields((smartConnData.fieldMapping as any) || {}),
+      getConnectionRules(smartConnData),
+      sourceKey
+    );
+    console.log(`SMART cache refreshed: ${changes.inserted} added, ${changes.updated} updated, ${changes.deleted} removed`);
+    
+    return smartCache.getStatus(inventoryPool, sourceKey);
+  }
+
+  async getSmartCacheStatus(): Promise<SmartCacheStatus> {
+    const inventoryConn = await this.getActiveConnection('inventory');
+    const inventoryConnData = inventoryConn ? await connectionsStorage.getConnectionById(inventoryConn.id) : undefined;
+    if (!inventoryConnData) {
+      throw new Error('No active inventory connection configured');
+    }
+    
+    const smartConn = await this.getActiveConnection('smart');
+    const smartConnData = smartConn ? await connectionsStorage.getConnectionById(smartConn.id) : undefined;
+    
+    return smartCache.getStatus(
+      poolRegistry.getPool(inventoryConnData),
+      smartConnData ? smartCache.getSourceKey(smartConnData) : null
+    );
+  }
+
   async getActiveConnection(role: ConnectionRole): Promise<SafeDbConnection | null> {
     try {
       if (!role) return null;
@@ -1588,7 +4067,6 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTableColumns(connectionId: number, tableName: string): Promise<Array<{name: string, type: string}>> {
-    let pool: Pool | null = null;
     try {
       // Get connection details
       const connection = await connectionsStorage.getConnectionById(connectionId);
@@ -1598,33 +4076,17 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Connect and get columns
-      pool = this.createExternalPool(connection);
-
-      // Parse schema and table name
-      const [schema, table] = tableName.includes('.')
-        ? tableName.split('.')
-        : ['public', tableName];
+      const pool = poolRegistry.getPool(connection);
 
-      const result = await pool.query(`
-        SELECT
-          column_name as name,
-          data_type as type
-        FROM information_schema.columns
-        WHERE table_schema = $1 AND table_name = $2
-        ORDER BY ordinal_position
-      `, [schema, table]);
+      const columns = await getTableColumns(pool, tableName);
 
-      return result.rows.map((row: any) => ({
-        name: row.name,
-        type: row.type,
+      return columns.map(column => ({
+        name: column.name,
+        type: column.type,
       }));
     } catch (error) {
       console.error('Error getting table columns:', error);
       throw new Error(error instanceof Error ? error.message : 'Failed to get columns');
-    } finally {
-      if (pool) {
-        await pool.end();
-      }
     }
   }
 
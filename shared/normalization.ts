@@ -1,45 +1,211 @@
+import type { NormalizationRules, SearchMatchType } from "./schema";
+
+/**
+ * Rules used when a SMART connection has none of its own:
+ * spaces, -, _, ., / removed and Cyrillic look-alikes replaced with Latin letters
+ */
+export const defaultNormalizationRules: NormalizationRules = {
+  delimiters: ' -_./',
+  transliteration: [
+    ['А', 'A'],
+    ['В', 'B'],
+    ['Е', 'E'],
+    ['К', 'K'],
+    ['М', 'M'],
+    ['Н', 'H'],
+    ['О', 'O'],
+    ['Р', 'P'],
+    ['С', 'C'],
+    ['Т', 'T'],
+    ['У', 'Y'],
+    ['Х', 'X'],
+    ['Ё', 'E'],
+  ],
+  letterOToZero: false,
+  stripLeadingZeros: false,
+};
+
+/**
+ * Bracket expression matching the delimiters, valid both as a JS RegExp and a
+ * PostgreSQL regular expression. A space stands for any whitespace
+ */
+export function delimiterPattern(delimiters: string): string | null {
+  const chars = Array.from(new Set(Array.from(delimiters)));
+  if (chars.length === 0) return null;
+
+  const parts = chars.map(char => {
+    if (char === ' ') return '\\s';
+    return /[\\\]\[^-]/.test(char) ? `\\${char}` : char;
+  });
+  return `[${parts.join('')}]`;
+}
+
+/**
+ * Transliteration as TRANSLATE() arguments: the first pair for a character wins
+ */
+export function transliterationMap(rules: NormalizationRules): { from: string; to: string } {
+  let from = '';
+  let to = '';
+  for (const [source, target] of rules.transliteration) {
+    if (!from.includes(source)) {
+      from += source;
+      to += target;
+    }
+  }
+  return { from, to };
+}
+
 /**
  * Normalizes article codes for fuzzy matching
  * 1. Convert to uppercase
- * 2. Remove delimiters (space, -, _, ., /)
- * 3. Replace Cyrillic characters with Latin equivalents
+ * 2. Remove delimiters
+ * 3. Transliterate (by default Cyrillic look-alikes to Latin)
+ * 4. Optionally read the letter O as zero and strip leading zeros
+ * The server generates the equivalent SQL from the same rules
  */
-export function normalizeArticle(article: string): string {
+export function normalizeArticle(article: string, rules: NormalizationRules = defaultNormalizationRules): string {
   if (!article) return '';
-  
+
   // Step 1: Convert to uppercase
   let normalized = article.toUpperCase();
-  
+
   // Step 2: Remove delimiters
-  normalized = normalized.replace(/[\s\-_./]/g, '');
-  
-  // Step 3: Replace Cyrillic with Latin
-  const cyrillicToLatin: { [key: string]: string } = {
-    'А': 'A',
-    'В': 'B',
-    'Е': 'E',
-    'К': 'K',
-    'М': 'M',
-    'Н': 'H',
-    'О': 'O',
-    'Р': 'P',
-    'С': 'C',
-    'Т': 'T',
-    'У': 'Y',
-    'Х': 'X',
-    'Ё': 'E',
-  };
-  
-  normalized = normalized.replace(/[АВЕКМНОРСТУХЁ]/g, (char) => {
-    return cyrillicToLatin[char] || char;
-  });
-  
+  const pattern = delimiterPattern(rules.delimiters);
+  if (pattern) {
+    normalized = normalized.replace(new RegExp(pattern, 'g'), '');
+  }
+
+  // Step 3: Transliterate
+  const { from, to } = transliterationMap(rules);
+  if (from) {
+    normalized = Array.from(normalized).map(char => {
+      const index = from.indexOf(char);
+      return index === -1 ? char : to[index];
+    }).join('');
+  }
+
+  // Step 4: Optional rules
+  if (rules.letterOToZero) {
+    normalized = normalized.replace(/O/g, '0');
+  }
+  if (rules.stripLeadingZeros) {
+    normalized = normalized.replace(/^0+/, '');
+  }
+
   return normalized;
 }
 
 /**
  * Checks if two articles match after normalization
  */
-export function articlesMatch(article1: string, article2: string): boolean {
-  return normalizeArticle(article1) === normalizeArticle(article2);
+export function articlesMatch(article1: string, article2: string, rules: NormalizationRules = defaultNormalizationRules): boolean {
+  return normalizeArticle(article1, rules) === normalizeArticle(article2, rules);
+}
+
+export const matchTypeRank: Record<SearchMatchType, number> = {
+  barcode: 0,
+  exact_article: 1,
+  exact_smart: 2,
+  prefix: 3,
+  substring: 4,
+  suggestion: 5,
+};
+
+/**
+ * Explains how a SMART record matches a normalized query, taking the strongest match:
+ * exact article, exact SMART code, prefix, then substring.
+ * Articles win over the SMART code within the same kind of match
+ */
+export function classifyMatch(
+  smart: string,
+  articles: string[],
+  normalizedQuery: string,
+  rules: NormalizationRules = defaultNormalizationRules
+): { matchType: SearchMatchType; matchedArticle: string | null } {
+  const keyed = articles.map(article => ({ article, key: normalizeArticle(article, rules) }));
+  const smartKey = normalizeArticle(smart, rules);
+
+  const exact = keyed.find(({ key }) => key === normalizedQuery);
+  if (exact) return { matchType: 'exact_article', matchedArticle: exact.article };
+  if (smartKey === normalizedQuery) return { matchType: 'exact_smart', matchedArticle: null };
+
+  const prefix = keyed.find(({ key }) => key.startsWith(normalizedQuery));
+  if (prefix) return { matchType: 'prefix', matchedArticle: prefix.article };
+  if (smartKey.startsWith(normalizedQuery)) return { matchType: 'prefix', matchedArticle: null };
+
+  const substring = keyed.find(({ key }) => key.includes(normalizedQuery));
+  return { matchType: 'substring', matchedArticle: substring ? substring.article : null };
+}
+
+/**
+ * Characters scanners and hurried typing confuse, as TRANSLATE() arguments:
+ * each letter is folded to the digit it is mistaken for
+ */
+export const confusableCharacters = { from: 'BOISZ', to: '80152' };
+
+export function foldConfusions(key: string): string {
+  const { from, to } = confusableCharacters;
+  return Array.from(key).map(char => {
+    const index = from.indexOf(char);
+    return index === -1 ? char : to[index];
+  }).join('');
+}
+
+/**
+ * Levenshtein distance: insertions, deletions and substitutions
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edits a suggestion may be away from a normalized query of this length.
+ * Short codes only get look-alike replacements, one typo would match too much
+ */
+export function maxSuggestionDistance(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Closest key of a SMART record to a normalized query that matched nothing,
+ * or null if none is within maxSuggestionDistance. Look-alikes count as equal.
+ * Articles win over the SMART code at the same distance
+ */
+export function suggestionMatch(
+  smart: string,
+  articles: string[],
+  normalizedQuery: string,
+  rules: NormalizationRules = defaultNormalizationRules
+): { distance: number; matchedArticle: string | null } | null {
+  const query = foldConfusions(normalizedQuery);
+  const maxDistance = maxSuggestionDistance(query.length);
+  let best: { distance: number; matchedArticle: string | null } | null = null;
+
+  const candidates: Array<[string, string | null]> = [
+    ...articles.map((article): [string, string | null] => [article, article]),
+    [smart, null],
+  ];
+  for (const [value, matchedArticle] of candidates) {
+    const key = foldConfusions(normalizeArticle(value, rules));
+    if (!key || Math.abs(key.length - query.length) > maxDistance) continue;
+
+    const distance = editDistance(key, query);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { distance, matchedArticle };
+    }
+  }
+  return best;
 }
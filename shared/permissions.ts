@@ -0,0 +1,61 @@
+import type { UserRole } from "./schema";
+
+/**
+ * Roles are ordered: every role can do everything the previous one can
+ * viewer      - search and stock (read only)
+ * storekeeper - records purchases, sales and returns, ships orders, imports files
+ * manager     - edits movements, writes off stock, sees profit analytics
+ * admin       - manages users and database connections
+ */
+const roleRank: Record<UserRole, number> = {
+  viewer: 0,
+  storekeeper: 1,
+  manager: 2,
+  admin: 3,
+};
+
+export const roleTitles: Record<UserRole, string> = {
+  viewer: 'Наблюдатель',
+  storekeeper: 'Кладовщик',
+  manager: 'Менеджер',
+  admin: 'Администратор',
+};
+
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+  if (!role || !(role in roleRank)) return false;
+  return roleRank[role] >= roleRank[required];
+}
+
+// Minimum role allowed to record a movement with given reason
+const reasonRoles: Record<string, UserRole> = {
+  purchase: 'storekeeper',
+  sale: 'storekeeper',
+  return: 'storekeeper',
+  writeoff: 'manager',
+};
+
+export function canRecordReason(role: UserRole | null | undefined, reason: string): boolean {
+  const required = reasonRoles[reason];
+  return required !== undefined && hasRole(role, required);
+}
+
+// Minimum role required to open each page
+export const pageRoles: Record<string, UserRole> = {
+  '/': 'viewer',
+  '/search': 'viewer',
+  '/movement': 'storekeeper',
+  '/stock': 'viewer',
+  '/history': 'viewer',
+  '/reservations': 'viewer',
+  '/sold': 'storekeeper',
+  '/customers': 'storekeeper',
+  '/purchase-orders': 'storekeeper',
+  '/sold-out': 'manager',
+  '/top-parts': 'manager',
+  '/import': 'storekeeper',
+  '/boxes': 'viewer',
+  '/warehouses': 'admin',
+  '/users': 'admin',
+  '/db-connections': 'admin',
+  '/normalization': 'admin',
+};
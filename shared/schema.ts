@@ -27,6 +27,74 @@ export const shippingMethods = inventorySchema.table("shipping_methods", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Storage premises; every movement belongs to one warehouse
+export const warehouses = inventorySchema.table("warehouses", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Registry of physical boxes (bins); movements reference them by box_number
+export const boxes = inventorySchema.table("boxes", {
+  id: serial("id").primaryKey(),
+  boxNumber: varchar("box_number", { length: 50 }).notNull().unique(),
+  label: text("label"),
+  capacityNote: text("capacity_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Buyers; sales are grouped into their orders
+export const customers = inventorySchema.table("customers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  phone: varchar("phone", { length: 50 }),
+  email: varchar("email", { length: 255 }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Parts sold to one customer and shipped together
+export const orders = inventorySchema.table("orders", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  note: text("note"),
+  createdBy: varchar("created_by", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Where purchased parts come from
+export const suppliers = inventorySchema.table("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  contact: text("contact"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Parts ordered from a supplier; stays open until every line is received or it is closed by hand
+export const purchaseOrderStatuses = ['open', 'received', 'closed'] as const;
+export type PurchaseOrderStatus = typeof purchaseOrderStatuses[number];
+
+export const purchaseOrders = inventorySchema.table("purchase_orders", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull(),
+  status: varchar("status", { length: 20 }).$type<PurchaseOrderStatus>().default('open').notNull(),
+  note: text("note"),
+  createdBy: varchar("created_by", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Expected SMART code, quantity and price; received quantity comes from linked purchase movements
+export const purchaseOrderLines = inventorySchema.table("purchase_order_lines", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull(),
+  smart: varchar("smart").notNull(),
+  article: text("article").notNull(),
+  qty: integer("qty").notNull(),
+  price: numeric("price", { precision: 10, scale: 2 }),
+});
+
 export const movements = inventorySchema.table("movements", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   smart: varchar("smart").notNull(),
@@ -41,13 +109,91 @@ export const movements = inventorySchema.table("movements", {
   deliveryPrice: numeric("delivery_price", { precision: 10, scale: 2 }),
   
   // Warehouse tracking
+  warehouseId: integer("warehouse_id"),
   boxNumber: varchar("box_number", { length: 50 }),
   
   // Shipping tracking (only for sales)
   trackNumber: text("track_number"),
   shippingMethodId: integer("shipping_method_id"),
   saleStatus: varchar("sale_status", { length: 50 }), // 'awaiting_shipment', 'shipped'
+  orderId: integer("order_id"), // sales and their returns
+  
+  // Purchases: supplier and purchase order line the units were received against
+  supplierId: integer("supplier_id"),
+  purchaseOrderLineId: integer("purchase_order_line_id"),
+  
+  // Attribution: username of the user who recorded the movement
+  createdBy: varchar("created_by", { length: 100 }),
+  
+  // Corrections: id of the movement whose quantity this correction adjusts
+  correctsMovementId: integer("corrects_movement_id"),
   
+  // Transfers and box moves: id of the opposite (outgoing/incoming) movement of the pair
+  pairedMovementId: integer("paired_movement_id"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stock promised to a customer before the sale is recorded
+// Active reservations reduce available stock but not stock on hand
+export const reservationStatuses = ['active', 'converted', 'released', 'expired'] as const;
+export type ReservationStatus = typeof reservationStatuses[number];
+
+export const reservations = inventorySchema.table("reservations", {
+  id: serial("id").primaryKey(),
+  smart: varchar("smart").notNull(),
+  article: text("article").notNull(),
+  qty: integer("qty").notNull(),
+  warehouseId: integer("warehouse_id").notNull(),
+  customerNote: text("customer_note"),
+  expiresAt: timestamp("expires_at").notNull(),
+  status: varchar("status", { length: 20 }).$type<ReservationStatus>().default('active').notNull(),
+  saleMovementId: integer("sale_movement_id"), // set when converted into a sale
+  createdBy: varchar("created_by", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Supplier barcodes (EAN etc.) that resolve to a SMART code when scanned
+export const barcodes = inventorySchema.table("barcodes", {
+  barcode: varchar("barcode", { length: 64 }).primaryKey(),
+  smart: varchar("smart").notNull(),
+  note: text("note"),
+  createdBy: varchar("created_by", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Audit trail of in-place edits to movements (one row per changed field)
+export const movementAudit = inventorySchema.table("movement_audit", {
+  id: serial("id").primaryKey(),
+  movementId: integer("movement_id").notNull(),
+  field: varchar("field", { length: 50 }).notNull(), // 'purchasePrice' | 'note' | 'qtyDelta' | 'boxNumber' | 'saleStatus'
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: varchar("changed_by", { length: 100 }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// Application users (login accounts)
+export const userRoles = ['viewer', 'storekeeper', 'manager', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
+export const users = inventorySchema.table("users", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 100 }).notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name"),
+  role: varchar("role", { length: 20 }).$type<UserRole>().default('viewer').notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// FIFO lot allocations: which purchase lot (movement) each sale/writeoff consumed
+// Returns restore lots with negative qty rows referencing the return movement
+export const lotAllocations = inventorySchema.table("lot_allocations", {
+  id: serial("id").primaryKey(),
+  movementId: integer("movement_id").notNull(),
+  purchaseId: integer("purchase_id").notNull(),
+  qty: integer("qty").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -58,12 +204,41 @@ export type InsertSmart = typeof smart.$inferInsert;
 export type Reason = typeof reasons.$inferSelect;
 export type InsertReason = typeof reasons.$inferInsert;
 
+export type Warehouse = typeof warehouses.$inferSelect;
+
+export type Box = typeof boxes.$inferSelect;
+
+export type Barcode = typeof barcodes.$inferSelect;
+
 export type ShippingMethod = typeof shippingMethods.$inferSelect;
 export type InsertShippingMethod = typeof shippingMethods.$inferInsert;
 
 export type Movement = typeof movements.$inferSelect;
 export type InsertMovement = typeof movements.$inferInsert;
 
+// A sale either joins an existing order or opens a new one for the customer
+export type CreateMovementPayload = InsertMovement & {
+  customerId?: number | null;
+};
+
+export type Customer = typeof customers.$inferSelect;
+
+export type Order = typeof orders.$inferSelect;
+
+export type Supplier = typeof suppliers.$inferSelect;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
+export type LotAllocation = typeof lotAllocations.$inferSelect;
+
+export type MovementAudit = typeof movementAudit.$inferSelect;
+
+export type Reservation = typeof reservations.$inferSelect;
+
+export type User = typeof users.$inferSelect;
+export type SafeUser = Omit<User, 'passwordHash'>;
+
 // Zod schemas
 export const insertMovementSchema = z.object({
   smart: z.string().min(1, "SMART код обязателен"),
@@ -71,33 +246,344 @@ export const insertMovementSchema = z.object({
   qtyDelta: z.number().int().refine((val) => val !== 0, {
     message: "Количество не может быть равно 0",
   }),
-  reason: z.enum(['purchase', 'sale', 'return', 'writeoff']),
+  reason: z.enum(['purchase', 'sale', 'return', 'writeoff']), // 'correction' is only posted by quantity edits
   note: z.string().optional().nullable(),
   purchasePrice: z.string().optional().nullable(),
   salePrice: z.string().optional().nullable(),
   deliveryPrice: z.string().optional().nullable(),
+  warehouseId: z.number().int().positive().optional().nullable(), // defaults to the first warehouse
   boxNumber: z.string().optional().nullable(),
   trackNumber: z.string().optional().nullable(),
   shippingMethodId: z.number().optional().nullable(),
   saleStatus: z.enum(['awaiting_shipment', 'shipped']).optional().nullable(),
+  orderId: z.number().int().positive().optional().nullable(),
+  customerId: z.number().int().positive().optional().nullable(), // opens a new order when orderId is not set
+  supplierId: z.number().int().positive().optional().nullable(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Имя пользователя обязательно"),
+  password: z.string().min(1, "Пароль обязателен"),
+});
+
+export type LoginPayload = z.infer<typeof loginSchema>;
+
+export const insertUserSchema = z.object({
+  username: z.string().trim().min(1, "Имя пользователя обязательно").max(100),
+  password: z.string().min(6, "Пароль должен быть не короче 6 символов"),
+  displayName: z.string().optional().nullable(),
+  role: z.enum(userRoles),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+// First account of a fresh install, always an admin
+export const setupAdminSchema = insertUserSchema.omit({ role: true });
+
+export type SetupAdminPayload = z.infer<typeof setupAdminSchema>;
+
+// What a fresh install still lacks before anyone can log in
+export type SetupStatus = {
+  needsConnection: boolean;  // no active inventory connection
+  needsAdmin: boolean;       // inventory database has no accounts
+};
+
+export const updateUserSchema = z.object({
+  password: z.string().min(6, "Пароль должен быть не короче 6 символов").optional(),
+  displayName: z.string().optional().nullable(),
+  role: z.enum(userRoles).optional(),
 });
 
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
 export const insertReasonSchema = createInsertSchema(reasons);
 
 export const insertShippingMethodSchema = z.object({
   name: z.string().min(1, "Название обязательно"),
 });
 
+export const insertWarehouseSchema = z.object({
+  name: z.string().trim().min(1, "Название обязательно"),
+});
+
+export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
+
+// Move stock between warehouses (posted as a paired outgoing/incoming movement)
+export const transferSchema = z.object({
+  smart: z.string().min(1, "SMART код обязателен"),
+  article: z.string().min(1, "Артикул обязателен"),
+  qty: z.number().int().positive("Количество должно быть положительным"),
+  fromWarehouseId: z.number().int().positive("Выберите склад отправления"),
+  toWarehouseId: z.number().int().positive("Выберите склад назначения"),
+  fromBoxNumber: z.string().optional().nullable(),
+  toBoxNumber: z.string().optional().nullable(),
+  note: z.string().optional().nullable(),
+}).refine((data) => data.fromWarehouseId !== data.toWarehouseId, {
+  message: "Склады отправления и назначения должны различаться",
+  path: ["toWarehouseId"],
+});
+
+export type TransferPayload = z.infer<typeof transferSchema>;
+
+export type TransferResult = {
+  outgoing: Movement;
+  incoming: Movement;
+};
+
+export const insertReservationSchema = z.object({
+  smart: z.string().min(1, "SMART код обязателен"),
+  article: z.string().min(1, "Артикул обязателен"),
+  qty: z.number().int().positive("Количество должно быть положительным"),
+  warehouseId: z.number().int().positive().optional().nullable(), // defaults to the first warehouse
+  customerNote: z.string().optional().nullable(),
+  expiresAt: z.coerce.date().refine((date) => date.getTime() > Date.now(), {
+    message: "Срок резерва должен быть в будущем",
+  }),
+});
+
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+
+// Sale details entered when a reservation is converted into a sale
+export const convertReservationSchema = z.object({
+  salePrice: z.string().min(1, "Цена продажи обязательна"),
+  deliveryPrice: z.string().optional().nullable(),
+  shippingMethodId: z.number().optional().nullable(),
+  boxNumber: z.string().optional().nullable(),
+  customerId: z.number().int().positive().optional().nullable(),
+  note: z.string().optional().nullable(),
+});
+
+export type ConvertReservationPayload = z.infer<typeof convertReservationSchema>;
+
+export const insertCustomerSchema = z.object({
+  name: z.string().trim().min(1, "Имя клиента обязательно"),
+  phone: z.string().max(50).optional().nullable(),
+  email: z.string().email("Некорректный email").max(255).optional().nullable().or(z.literal("")),
+  note: z.string().optional().nullable(),
+});
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+
+// Order with customer contact and totals over its sales
+export type OrderSummary = Order & {
+  customerName: string;
+  customerPhone: string | null;
+  customerEmail: string | null;
+  itemCount: number;
+  total: number; // sale price × quantity over all sales in the order
+};
+
+export type CustomerDetails = Customer & {
+  orders: OrderSummary[];
+  sales: Movement[];
+  lifetimeRevenue: number;
+  lifetimeProfit?: number; // only for roles allowed to see profit
+};
+
+export const insertSupplierSchema = z.object({
+  name: z.string().trim().min(1, "Название поставщика обязательно"),
+  contact: z.string().optional().nullable(),
+  note: z.string().optional().nullable(),
+});
+
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
+export const insertPurchaseOrderSchema = z.object({
+  supplierId: z.number().int().positive("Выберите поставщика"),
+  note: z.string().optional().nullable(),
+  lines: z.array(z.object({
+    smart: z.string().min(1, "SMART код обязателен"),
+    article: z.string().min(1, "Артикул обязателен"),
+    qty: z.number().int().positive("Количество должно быть положительным"),
+    price: z.string().optional().nullable(),
+  })).min(1, "Добавьте хотя бы одну позицию"),
+});
+
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+
+// Units received now against some lines of a purchase order
+export const receivePurchaseOrderSchema = z.object({
+  warehouseId: z.number().int().positive().optional().nullable(),
+  lines: z.array(z.object({
+    lineId: z.number().int().positive(),
+    qty: z.number().int().positive("Количество должно быть положительным"),
+    boxNumber: z.string().optional().nullable(),
+  })).min(1, "Укажите принятые позиции"),
+});
+
+export type ReceivePurchaseOrderPayload = z.infer<typeof receivePurchaseOrderSchema>;
+
+export type PurchaseOrderLineDetails = PurchaseOrderLine & {
+  receivedQty: number;
+};
+
+export type PurchaseOrderDetails = PurchaseOrder & {
+  supplierName: string;
+  lines: PurchaseOrderLineDetails[];
+};
+
+// Purchase lot with quantity after all linked corrections
+export type PurchaseMovement = Movement & {
+  correctedQty: number;
+  supplierName: string | null;
+};
+
 // Stock level type for VIEW (grouped by SMART code only)
 export type StockLevel = {
   smart: string;
   totalQty: number;
+  reservedQty?: number; // held by active reservations, included in totalQty
+  warehouseId?: number; // set when stock is filtered by warehouse
   brand?: string;
   description?: string;
   name?: string;
 };
 
+export const insertBoxSchema = z.object({
+  boxNumber: z.string().trim().min(1, "Номер коробки обязателен").max(50),
+  label: z.string().optional().nullable(),
+  capacityNote: z.string().optional().nullable(),
+});
+
+export type InsertBox = z.infer<typeof insertBoxSchema>;
+
+export const updateBoxSchema = insertBoxSchema.omit({ boxNumber: true });
+
+export type UpdateBox = z.infer<typeof updateBoxSchema>;
+
+export const insertBarcodeSchema = z.object({
+  barcode: z.string().trim().min(1, "Штрихкод обязателен").max(64, "Не более 64 символов"),
+  smart: z.string().trim().min(1, "SMART код обязателен"),
+  note: z.string().optional().nullable(),
+});
+
+export type InsertBarcode = z.infer<typeof insertBarcodeSchema>;
+
+// Reasons a scan session can record, with the sign scanned quantities get
+export const scanReasons = { purchase: 1, sale: -1, writeoff: -1 } as const;
+
+// Lines collected in scan mode, recorded together like a movement document
+export const scanBatchSchema = z.object({
+  reason: z.enum(['purchase', 'sale', 'writeoff']),
+  warehouseId: z.number().int().positive().optional().nullable(),
+  boxNumber: z.string().max(50).optional().nullable(),
+  note: z.string().optional().nullable(),
+  lines: z.array(z.object({
+    smart: z.string().min(1, "SMART код обязателен"),
+    article: z.string().min(1, "Артикул обязателен"),
+    qty: z.number().int().positive("Количество должно быть положительным").max(999999),
+  })).min(1, "Нет отсканированных позиций").max(500, "Не более 500 позиций за раз"),
+});
+
+export type ScanBatch = z.infer<typeof scanBatchSchema>;
+
+// One line of a movement document; qtyDelta is signed like in insertMovementSchema
+export const movementDocumentLineSchema = z.object({
+  smart: z.string().min(1, "SMART код обязателен"),
+  article: z.string().min(1, "Артикул обязателен"),
+  qtyDelta: z.number().int().min(-999999).max(999999).refine((val) => val !== 0, {
+    message: "Количество не может быть равно 0",
+  }),
+  purchasePrice: z.string().optional().nullable(),
+  salePrice: z.string().optional().nullable(),
+  deliveryPrice: z.string().optional().nullable(),
+  boxNumber: z.string().optional().nullable(),
+  note: z.string().optional().nullable(), // replaces the document note for this line
+});
+
+export type MovementDocumentLine = z.infer<typeof movementDocumentLineSchema>;
+
+// Many lines sharing a reason, note, warehouse and supplier or customer/shipping data,
+// recorded together or not at all
+export const movementDocumentSchema = z.object({
+  reason: z.enum(['purchase', 'sale', 'writeoff']),
+  note: z.string().optional().nullable(),
+  warehouseId: z.number().int().positive().optional().nullable(),
+  supplierId: z.number().int().positive().optional().nullable(),   // purchases
+  customerId: z.number().int().positive().optional().nullable(),   // sales: opens one order for the document
+  orderId: z.number().int().positive().optional().nullable(),      // sales: adds to an existing order
+  shippingMethodId: z.number().optional().nullable(),
+  trackNumber: z.string().optional().nullable(),
+  lines: z.array(movementDocumentLineSchema)
+    .min(1, "Добавьте хотя бы одну строку")
+    .max(500, "Не более 500 строк в документе"),
+}).superRefine((data, ctx) => {
+  data.lines.forEach((line, index) => {
+    if (data.reason === 'purchase' && line.qtyDelta <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Строка ${index + 1}: для покупки количество должно быть положительным`,
+        path: ["lines", index, "qtyDelta"],
+      });
+    }
+    if (data.reason !== 'purchase' && line.qtyDelta >= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Строка ${index + 1}: для продажи/списания количество должно быть отрицательным`,
+        path: ["lines", index, "qtyDelta"],
+      });
+    }
+  });
+});
+
+export type MovementDocument = z.infer<typeof movementDocumentSchema>;
+
+// Move units of a SMART code from one box to another (paired 'box_move' movements)
+export const boxMoveSchema = z.object({
+  smart: z.string().min(1, "SMART код обязателен"),
+  qty: z.number().int().positive("Количество должно быть положительным"),
+  fromBoxNumber: z.string().min(1, "Выберите коробку отправления"),
+  toBoxNumber: z.string().min(1, "Выберите коробку назначения"),
+  note: z.string().optional().nullable(),
+}).refine((data) => data.fromBoxNumber !== data.toBoxNumber, {
+  message: "Коробки отправления и назначения должны различаться",
+  path: ["toBoxNumber"],
+});
+
+export type BoxMovePayload = z.infer<typeof boxMoveSchema>;
+
+// Box with total units currently stored in it
+export type BoxSummary = Box & {
+  totalQty: number;
+};
+
+// Quantity of one SMART code in a box, computed from movements
+export type BoxContentItem = {
+  smart: string;
+  name?: string;
+  qty: number;
+};
+
+// Printable sticker of one part (one per unit when printed per unit)
+export type PartLabel = {
+  smart: string;
+  article: string;      // main article of the SMART record, else the movement's
+  brand: string | null;
+  name: string | null;
+  boxNumber: string | null;
+};
+
+// Printable sticker of a box with what is in it
+export type BoxLabel = {
+  boxNumber: string;
+  label: string | null;
+  contents: BoxContentItem[];
+};
+
+// Stock of one SMART code in a single warehouse
+export type WarehouseStock = {
+  warehouseId: number;
+  warehouseName: string;
+  totalQty: number;
+  reservedQty: number;
+};
+
 // Search result types
+// How a search result matched the query, strongest first
+// barcode: the query is a registered barcode alias of the SMART code
+// suggestion: nothing matched, the result is a near miss ("did you mean")
+export type SearchMatchType = 'barcode' | 'exact_article' | 'exact_smart' | 'prefix' | 'substring' | 'suggestion';
+
 export type ArticleSearchResult = {
   smart: string;
   articles: string[];
@@ -105,6 +591,14 @@ export type ArticleSearchResult = {
   description?: string[];
   name?: string;
   currentStock: number;
+  matchType: SearchMatchType;
+  matchedArticle: string | null; // article variant that matched, null when the SMART code did
+};
+
+// SMART record close to an article that matched nothing
+export type SmartSuggestion = Smart & {
+  matchedArticle: string | null; // closest article variant, null when the SMART code was closest
+  distance: number;              // edits, with look-alikes such as 8/B, 0/O, 1/I counted as equal
 };
 
 export type BulkImportRow = {
@@ -122,7 +616,9 @@ export type BulkImportResult = {
     row: number;
     error: string;
     data: BulkImportRow;
+    suggestions?: Array<{ smart: string; article: string | null }>; // when no SMART code matched the article
   }>;
+  movementIds: number[]; // movements created, for printing their labels
 };
 
 // Database connections table for managing external DB connections
@@ -138,6 +634,7 @@ export const dbConnections = inventorySchema.table("db_connections", {
   role: varchar("role", { length: 20 }), // 'smart' | 'inventory' | null
   tableName: varchar("table_name", { length: 255 }),
   fieldMapping: jsonb("field_mapping"), // JSON object mapping external fields to system fields
+  normalizationRules: jsonb("normalization_rules"), // SMART connections: article normalization, null for the defaults
   isActive: boolean("is_active").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -160,6 +657,47 @@ export const insertDbConnectionSchema = z.object({
 
 export type InsertDbConnection = z.infer<typeof insertDbConnectionSchema>;
 
+// Editing credentials; a blank password keeps the stored one
+// Role, table and field mapping are changed through /configure
+export const updateDbConnectionSchema = insertDbConnectionSchema.pick({
+  name: true,
+  host: true,
+  port: true,
+  database: true,
+  username: true,
+  ssl: true,
+}).extend({
+  password: z.string().optional(),
+});
+
+export type UpdateDbConnection = z.infer<typeof updateDbConnectionSchema>;
+
+// Article normalization rules of a SMART connection, applied in this order:
+// uppercase, remove delimiters, transliterate, O→0, strip leading zeros
+export const normalizationRulesSchema = z.object({
+  delimiters: z.string().max(50, "Не более 50 разделителей"), // removed characters; a space stands for any whitespace
+  transliteration: z.array(
+    z.tuple([
+      z.string().length(1, "Заменяется один символ"),
+      z.string().length(1, "Замена — один символ"),
+    ])
+  ).max(100, "Не более 100 замен"),
+  letterOToZero: z.boolean(),     // O (after transliteration) is read as 0
+  stripLeadingZeros: z.boolean(),
+});
+
+export type NormalizationRules = z.infer<typeof normalizationRulesSchema>;
+
+export const normalizationTestSchema = z.object({
+  rules: normalizationRulesSchema,
+  input: z.string().max(200),
+});
+
+export type NormalizationTestResult = {
+  normalized: string;           // result of the shared TypeScript implementation
+  sqlNormalized: string | null; // same rules as SQL, run on the SMART database; null if it is unreachable
+};
+
 export type SafeDbConnection = Omit<DbConnection, 'password'>;
 
 export type DbConnectionTest = {
@@ -168,6 +706,14 @@ export type DbConnectionTest = {
   version?: string;
 };
 
+export type PoolStats = {
+  connectionId: number;
+  initialized: boolean;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+};
+
 export type DbTable = {
   schema: string;
   name: string;
@@ -208,6 +754,27 @@ export type ConfigureConnectionPayload = {
   fieldMapping: FieldMapping;
 };
 
+// Dry run of the SMART search query against a proposed table and mapping
+export const smartMappingPreviewSchema = z.object({
+  tableName: z.string().min(1, "Выберите таблицу"),
+  fieldMapping: z.object({
+    smart: z.string().min(1, "Выберите поле SMART кода"),
+    articles: z.string().min(1, "Выберите поле артикулов"),
+    name: z.string().optional(),
+    brand: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  article: z.string().optional(), // empty matches every row
+});
+
+export type SmartMappingPreviewRequest = z.infer<typeof smartMappingPreviewSchema>;
+
+export type SmartMappingPreview = {
+  success: boolean;
+  errors: string[];
+  rows: Smart[]; // first 20 rows returned by the search query
+};
+
 export type ConfigureConnectionResponse = {
   success: boolean;
   connection: SafeDbConnection;
@@ -224,6 +791,7 @@ export type SoldOutItem = {
   avgSalePrice: number;
   lastSaleDate: string;
   totalSales: number;
+  totalProfit: number; // revenue minus delivery and FIFO-allocated purchase cost
 };
 
 // Top parts ranking
@@ -236,3 +804,18 @@ export type TopPart = {
   currentStock: number;
   combinedScore?: number;
 };
+
+// Local copy of the SMART table kept in the inventory database
+export type SmartCacheStatus = {
+  state: 'empty' | 'running' | 'ok' | 'error';
+  startedAt: Date | null;      // start of the last refresh
+  finishedAt: Date | null;     // end of the last refresh, successful or not
+  lastSuccessAt: Date | null;
+  rowCount: number;
+  inserted: number;            // rows changed by the last successful refresh
+  updated: number;
+  deleted: number;
+  error: string | null;        // why the last refresh failed
+  matchesActiveSource: boolean; // filled from the active SMART table and mapping, so searches use it
+  refreshIntervalMinutes: number;
+};